@@ -41,6 +41,8 @@ const manifest = {
     'downloads',
     'notifications',
     'offscreen',
+    'alarms',
+    'tabGroups',
   ],
   options_page: 'options/index.html',
   background: {
@@ -82,6 +84,31 @@ const manifest = {
       },
       description: 'Copy page title in selected format',
     },
+    // 以下槽位默认不分配按键（Chrome 最多允许 4 个建议按键），绑定的格式或动作在侧边栏中设置
+    'copy-format-1': {
+      description: 'Copy format slot 1',
+    },
+    'copy-format-2': {
+      description: 'Copy format slot 2',
+    },
+    'copy-format-3': {
+      description: 'Copy format slot 3',
+    },
+    'copy-format-4': {
+      description: 'Copy format slot 4',
+    },
+    'smart-capture': {
+      description: 'Capture main content to library',
+    },
+    'toggle-badge': {
+      description: 'Toggle floating badge',
+    },
+    'start-selection': {
+      description: 'Start element selection',
+    },
+    'copy-tab-list': {
+      description: 'Copy tabs as a list',
+    },
   },
 } satisfies ManifestType;
 
@@ -0,0 +1,40 @@
+// 离屏文档中的剪贴板服务：同时写入 text/plain 和 text/html
+// 离屏文档没有焦点，navigator.clipboard 不可用，改用 execCommand('copy') 并在 copy 事件中写入数据
+const copyToClipboard = (text, html) => {
+  const textarea = document.getElementById('clipboard');
+  const handleCopy = event => {
+    event.preventDefault();
+    event.clipboardData.setData('text/plain', text);
+    if (html) {
+      event.clipboardData.setData('text/html', html);
+    }
+  };
+
+  document.addEventListener('copy', handleCopy);
+  try {
+    textarea.value = text;
+    textarea.select();
+    if (!document.execCommand('copy')) {
+      throw new Error('execCommand copy failed');
+    }
+  } finally {
+    document.removeEventListener('copy', handleCopy);
+    textarea.value = '';
+  }
+};
+
+// 监听来自 background script 的消息
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.target !== 'offscreen' || message.action !== 'copyToClipboard') {
+    return false;
+  }
+
+  try {
+    copyToClipboard(message.text, message.html);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error);
+    sendResponse({ success: false, error: error.message });
+  }
+  return false;
+});
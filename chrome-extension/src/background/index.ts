@@ -1,9 +1,50 @@
 import 'webextension-polyfill';
-import { dbManager } from '@extension/shared';
-import { copyFormatStorage } from '@extension/storage';
+import {
+  annotateMathJaxSources,
+  cleanUrl,
+  dbManager,
+  diffLines,
+  fetchPageHtml,
+  filterTabList,
+  getMatchingAutomationRules,
+  markdownSnippetToHtml,
+  renderCopyTemplate,
+  renderTabList,
+  resolveCleanUrl,
+  saveCaptureToLibrary,
+  stripFrontmatter,
+  summarizeDiff,
+} from '@extension/shared';
+import {
+  automationRulesStorage,
+  batchCaptureStorage,
+  copyFormatStorage,
+  domPathStorage,
+  pageWatchStorage,
+  urlCleaningStorage,
+} from '@extension/storage';
+import type { PageMetadata } from '@extension/shared';
+import type {
+  AutomationAction,
+  AutomationRule,
+  BatchCaptureScope,
+  CopyFormatSettings,
+  ShortcutAction,
+  TabListOptions,
+} from '@extension/storage';
 
 console.log('[LovpenSider] Background script loaded');
 
+// 页面监控的闹钟与通知使用相同前缀，后接监控 id
+const PAGE_WATCH_PREFIX = 'page-watch:';
+// 为页面监控在最小化窗口中打开的标签页，不执行自动化规则
+const watchTabIds = new Set<number>();
+// 依次执行监控检查，避免同时打开多个标签页
+let pageWatchQueue: Promise<unknown> = Promise.resolve();
+// 批量捕获是否在当前 service worker 中运行，以及是否已请求取消
+let batchCaptureRunning = false;
+let batchCaptureCancelled = false;
+
 // 初始化数据库
 dbManager
   .initialize()
@@ -25,6 +66,16 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
   if (request.action === 'convertToMarkdown') {
     sendResponse({ success: true });
+  } else if (request.action === 'copyTabList') {
+    // 侧边栏复制标签页列表
+    copyTabList(request.windowId, request.groupId)
+      .then(count => sendResponse({ success: true, count }))
+      .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : '复制失败' }));
+  } else if (request.action === 'writeClipboard') {
+    // 侧边栏的复制请求，统一通过离屏文档写入富文本
+    copyToClipboard(request.text, request.html)
+      .then(() => sendResponse({ success: true }))
+      .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : '复制失败' }));
   } else if (request.action === 'elementSelected') {
     // 转发消息给侧边栏（如果需要的话）
     sendResponse({ success: true });
@@ -134,6 +185,82 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       });
     }
     sendResponse({ success: true });
+  } else if (request.action === 'runAutomationRule') {
+    // 在指定标签页上手动运行规则（忽略URL匹配）
+    chrome.tabs
+      .get(request.tabId)
+      .then(tab => runAutomationRules(request.tabId, tab.url || '', request.ruleId))
+      .then(count => sendResponse({ success: count > 0, error: count > 0 ? undefined : '规则不存在' }))
+      .catch(error => {
+        console.error('[LovpenSider] Failed to run automation rule:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : '规则执行失败' });
+      });
+  } else if (request.action === 'fetchPageHtml') {
+    // 内容脚本抓取分页时受页面 CORS 限制，由后台代为请求
+    fetchPageHtml(request.url)
+      .then(html => sendResponse({ success: true, html }))
+      .catch(error => {
+        console.error('[LovpenSider] Failed to fetch page:', request.url, error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : '抓取页面失败' });
+      });
+  } else if (request.action === 'annotateMathSources') {
+    // MathJax v3 的公式源码只能在页面环境中读取
+    if (sender.tab?.id === undefined) {
+      sendResponse({ success: false, error: '无法获取标签页' });
+    } else {
+      chrome.scripting
+        .executeScript({
+          target: { tabId: sender.tab.id, frameIds: [sender.frameId ?? 0] },
+          world: 'MAIN',
+          func: annotateMathJaxSources,
+        })
+        .then(([injection]) => sendResponse({ success: true, count: injection?.result ?? 0 }))
+        .catch(error => {
+          console.error('[LovpenSider] Failed to read MathJax sources:', error);
+          sendResponse({ success: false, error: error instanceof Error ? error.message : '读取公式失败' });
+        });
+    }
+  } else if (request.action === 'getHighlights') {
+    // 内容脚本无法访问扩展的 IndexedDB，由后台代为读写高亮
+    dbManager
+      .initialize()
+      .then(() => dbManager.getHighlightsByUrl(request.url))
+      .then(highlights => sendResponse({ success: true, highlights }))
+      .catch(error => {
+        console.error('[LovpenSider] Failed to load highlights:', error);
+        sendResponse({ success: false, highlights: [] });
+      });
+  } else if (request.action === 'saveHighlight') {
+    dbManager
+      .initialize()
+      .then(() => dbManager.saveHighlight(request.highlight))
+      .then(id => sendResponse({ success: true, id }))
+      .catch(error => {
+        console.error('[LovpenSider] Failed to save highlight:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to save highlight' });
+      });
+  } else if (request.action === 'checkPageWatch') {
+    // 立即检查指定的页面监控
+    enqueuePageWatchCheck(request.id)
+      .then(changed => sendResponse({ success: true, changed }))
+      .catch(error => {
+        console.error('[LovpenSider] Page watch check failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : '检查失败' });
+      });
+  } else if (request.action === 'startBatchCapture') {
+    // 立即返回任务 id，捕获进度和结果通过存储同步给侧边栏
+    startBatchCapture(request.windowId, request.scope)
+      .then(jobId => sendResponse({ success: true, jobId }))
+      .catch(error => {
+        console.error('[LovpenSider] Batch capture failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : '批量捕获失败' });
+      });
+  } else if (request.action === 'cancelBatchCapture') {
+    // 没有运行者的遗留任务直接标记为已停止
+    batchCaptureCancelled = true;
+    resetStaleBatchCapture()
+      .then(() => sendResponse({ success: true }))
+      .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : '停止失败' }));
   } else if (request.action === 'getFloatingBadgeState') {
     // 获取悬浮徽章状态
     if (sender.tab?.url) {
@@ -151,11 +278,13 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   return true; // 保持消息通道开放
 });
 
-// 监听标签页更新事件，确保内容脚本正常工作
+// 监听标签页更新事件，页面加载完成后执行匹配的自动化规则
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-  if (changeInfo.status === 'complete' && tab.url) {
-    // 可以在这里注入内容脚本或进行其他初始化操作
+  if (changeInfo.status === 'complete' && tab.url && !watchTabIds.has(tabId)) {
     console.log('[LovpenSider] Tab updated:', tab.url);
+    runAutomationRules(tabId, tab.url).catch(error => {
+      console.error('[LovpenSider] Failed to run automation rules:', error);
+    });
   }
 });
 
@@ -212,94 +341,224 @@ chrome.commands.onCommand.addListener(async command => {
       return;
     }
 
+    const binding = shortcuts[command]?.binding;
     if (command === 'copy-title-selected') {
-      // 获取选中的格式
+      // 使用复制标签中选中的格式
       const settings = await copyFormatStorage.getSettings();
-      const selectedFormat = settings.selectedFormat;
-
-      let template = '';
-      let formatName = '';
-
-      // 根据格式类型确定模板
-      switch (selectedFormat) {
-        case 'markdown':
-          template = '[{title}]({url})';
-          formatName = 'Markdown';
-          break;
-        case 'title':
-          template = '{title}';
-          formatName = '纯标题';
-          break;
-        case 'url':
-          template = '{url}';
-          formatName = '纯网址';
-          break;
-        case 'custom':
-          template = settings.customFormat;
-          formatName = '自定义';
-          break;
-        case 'title_url':
-          template = '{title}, {url}';
-          formatName = '标题, 网址';
-          break;
-        default:
-          template = '[{title}]({url})';
-          formatName = 'Markdown';
-      }
+      await copyTabInFormat(tab, settings.selectedFormat);
+    } else if (binding?.type === 'format') {
+      await copyTabInFormat(tab, binding.formatId);
+    } else if (binding?.type === 'action') {
+      await runShortcutAction(tab, binding.action);
+    } else {
+      console.error('[LovpenSider] Unknown command:', command);
+    }
+  } catch (error) {
+    console.error('[LovpenSider] Error handling command:', error);
 
-      // 生成格式化文本
-      const formattedText = template.replace(/{title}/g, tab.title).replace(/{url}/g, tab.url);
+    // 显示错误通知（仅在非复制相关错误时显示）
+    if (error instanceof Error && !error.message.includes('clipboard') && !error.message.includes('connection')) {
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icon-34.png'),
+        title: 'Lovpen Sider',
+        message: '❌ 操作失败',
+      });
+    }
+  }
+});
 
-      // 添加到历史记录
-      await copyFormatStorage.addFormatToHistory(template);
+// 复制格式对应的模板和显示名称，未知格式使用 Markdown
+const resolveCopyFormat = (settings: CopyFormatSettings, formatId: string): { template: string; name: string } => {
+  switch (formatId) {
+    case 'markdown':
+      return { template: '[{title}]({url})', name: 'Markdown' };
+    case 'title':
+      return { template: '{title}', name: '纯标题' };
+    case 'url':
+      return { template: '{url}', name: '纯网址' };
+    case 'custom':
+      return { template: settings.customFormat, name: '自定义' };
+    case 'title_url':
+      return { template: '{title}, {url}', name: '标题, 网址' };
+    default: {
+      const savedFormat = settings.savedFormats.find(format => format.id === formatId);
+      return savedFormat
+        ? { template: savedFormat.template, name: savedFormat.name }
+        : { template: '[{title}]({url})', name: 'Markdown' };
+    }
+  }
+};
 
-      // 尝试写入剪贴板
-      let copySuccess = true;
-      let errorMessage = '';
+// 按指定格式复制标签页标题和网址并显示通知
+const copyTabInFormat = async (tab: chrome.tabs.Tab, formatId: string) => {
+  const settings = await copyFormatStorage.getSettings();
+  const { template, name: formatName } = resolveCopyFormat(settings, formatId);
 
-      try {
-        await copyToClipboard(formattedText);
-      } catch (error) {
-        copySuccess = false;
-        errorMessage = error instanceof Error ? error.message : '未知错误';
-      }
+  // 生成格式化文本
+  const metadata = tab.id ? await getPageMetadata(tab.id) : {};
+  const urlCleaning = await urlCleaningStorage.getSettings();
+  const url = urlCleaning.enabled ? resolveCleanUrl(tab.url || '', urlCleaning, metadata.canonical) : tab.url || '';
+  const formattedText = renderCopyTemplate(template, { title: tab.title || '', ...metadata, url });
+
+  // 添加到历史记录
+  await copyFormatStorage.addFormatToHistory(template);
+
+  // 尝试写入剪贴板
+  let copySuccess = true;
+  let errorMessage = '';
+
+  try {
+    await copyToClipboard(formattedText, markdownSnippetToHtml(formattedText));
+  } catch (error) {
+    copySuccess = false;
+    errorMessage = error instanceof Error ? error.message : '未知错误';
+  }
+
+  // 显示通知
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icon-34.png'),
+    title: 'Lovpen Sider',
+    message: copySuccess ? `✅ 已复制：${formatName}` : `⚠️ 已生成（剪贴板访问失败）：${formatName}`,
+  });
 
-      // 显示通知
+  if (copySuccess) {
+    console.log('[LovpenSider] Successfully copied:', formatName);
+  } else {
+    console.warn('[LovpenSider] Generated but failed to copy:', formatName, 'Error:', errorMessage);
+    console.log('[LovpenSider] Generated text:', formattedText);
+  }
+};
+
+// 执行快捷键槽位绑定的动作
+const runShortcutAction = async (tab: chrome.tabs.Tab, action: ShortcutAction) => {
+  if (!tab.id) return;
+
+  switch (action) {
+    case 'smart-capture': {
+      const data = await captureTabContent(tab.id);
+      await saveCaptureToLibrary({ ...data, url: tab.url || '' });
       chrome.notifications.create({
         type: 'basic',
         iconUrl: chrome.runtime.getURL('icon-34.png'),
         title: 'Lovpen Sider',
-        message: copySuccess ? `✅ 已复制：${formatName}` : `⚠️ 已生成（剪贴板访问失败）：${formatName}`,
+        message: '✅ 已保存到资料库',
       });
-
-      if (copySuccess) {
-        console.log('[LovpenSider] Successfully copied:', formatName);
-      } else {
-        console.warn('[LovpenSider] Generated but failed to copy:', formatName, 'Error:', errorMessage);
-        console.log('[LovpenSider] Generated text:', formattedText);
-      }
-    } else {
-      console.error('[LovpenSider] Unknown command:', command);
+      break;
     }
-  } catch (error) {
-    console.error('[LovpenSider] Error handling command:', error);
-
-    // 显示错误通知（仅在非复制相关错误时显示）
-    if (error instanceof Error && !error.message.includes('clipboard') && !error.message.includes('connection')) {
+    case 'toggle-badge':
+      await chrome.tabs.sendMessage(tab.id, { action: 'toggleFloatingBadge' });
+      break;
+    case 'start-selection':
+      await chrome.tabs.sendMessage(tab.id, { action: 'startSelection' });
+      break;
+    case 'copy-tab-list': {
+      const count = await copyTabList(tab.windowId, tab.groupId);
       chrome.notifications.create({
         type: 'basic',
         iconUrl: chrome.runtime.getURL('icon-34.png'),
         title: 'Lovpen Sider',
-        message: '❌ 操作失败',
+        message: `✅ 已复制 ${count} 个标签页`,
       });
+      break;
     }
   }
-});
+};
+
+// 按列表选项收集标签页；分组范围未指定分组时使用当前标签页所在的分组
+const collectTabsForList = async (windowId: number, options: TabListOptions, groupId?: number) => {
+  let tabs: chrome.tabs.Tab[];
+  if (options.scope === 'group') {
+    const targetGroupId =
+      groupId ??
+      (await chrome.tabs.query({ active: true, windowId }))[0]?.groupId ??
+      chrome.tabGroups.TAB_GROUP_ID_NONE;
+    if (targetGroupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      throw new Error('当前标签页不在分组中');
+    }
+    tabs = await chrome.tabs.query({ windowId, groupId: targetGroupId });
+  } else if (options.scope === 'highlighted') {
+    tabs = await chrome.tabs.query({ windowId, highlighted: true });
+  } else {
+    tabs = await chrome.tabs.query({ windowId });
+  }
+
+  // 先清理网址再去重，只有跟踪参数不同的标签页视为重复
+  const urlCleaning = await urlCleaningStorage.getSettings();
+  return filterTabList(
+    tabs.map(tab => ({
+      title: tab.title || tab.url || '',
+      url: urlCleaning.enabled ? cleanUrl(tab.url || '', urlCleaning) : tab.url || '',
+    })),
+    options,
+  );
+};
+
+// 将窗口中的标签页按选中的复制格式渲染为列表并复制，返回复制的标签页数量
+const copyTabList = async (windowId: number, groupId?: number) => {
+  const settings = await copyFormatStorage.getSettings();
+  const options = await copyFormatStorage.getTabListOptions();
+  const tabs = await collectTabsForList(windowId, options, groupId);
+  if (tabs.length === 0) {
+    throw new Error('没有可复制的标签页');
+  }
+
+  const { template } = resolveCopyFormat(settings, settings.selectedFormat);
+  const { text, html } = renderTabList(tabs, template, options.style);
+  await copyToClipboard(text, html || undefined);
+  return tabs.length;
+};
+
+// 读取页面的选中文本和 meta 信息；内容脚本不可用时（如 chrome:// 页面）只使用标题和网址
+const getPageMetadata = async (tabId: number): Promise<Partial<PageMetadata>> => {
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, { action: 'getPageMetadata' });
+    return response?.success ? response.metadata : {};
+  } catch (error) {
+    console.warn('[LovpenSider] Failed to read page metadata:', error);
+    return {};
+  }
+};
+
+// 离屏文档只能存在一个，并发创建时复用同一个 Promise
+let creatingOffscreenDocument: Promise<void> | null = null;
+
+const ensureOffscreenDocument = async () => {
+  const offscreenUrl = chrome.runtime.getURL('offscreen.html');
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [offscreenUrl],
+  });
+  if (contexts.length > 0) return;
+
+  if (!creatingOffscreenDocument) {
+    creatingOffscreenDocument = chrome.offscreen
+      .createDocument({
+        url: 'offscreen.html',
+        reasons: [chrome.offscreen.Reason.CLIPBOARD],
+        justification: 'Write plain text and HTML to the clipboard',
+      })
+      .finally(() => {
+        creatingOffscreenDocument = null;
+      });
+  }
+  await creatingOffscreenDocument;
+};
+
+// 复制到剪贴板的辅助函数：优先通过离屏文档同时写入纯文本和 HTML，
+// 离屏文档不可用时退回到在当前页面中写入纯文本
+const copyToClipboard = async (text: string, html?: string) => {
+  try {
+    await ensureOffscreenDocument();
+    const response = await chrome.runtime.sendMessage({ target: 'offscreen', action: 'copyToClipboard', text, html });
+    if (response?.success) return;
+    console.warn('[LovpenSider] Offscreen clipboard failed:', response?.error);
+  } catch (error) {
+    console.warn('[LovpenSider] Offscreen clipboard unavailable:', error);
+  }
 
-// 复制到剪贴板的辅助函数
-async function copyToClipboard(text: string) {
   try {
-    // 尝试注入 content script 到当前页面
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
 
     if (!tab.id) {
@@ -307,7 +566,7 @@ async function copyToClipboard(text: string) {
     }
 
     // 注入一个临时脚本来处理剪贴板
-    await chrome.scripting.executeScript({
+    const [injection] = await chrome.scripting.executeScript({
       target: { tabId: tab.id },
       func: async (textToCopy: string) => {
         try {
@@ -320,12 +579,366 @@ async function copyToClipboard(text: string) {
       args: [text],
     });
 
-    return;
+    if (!injection?.result?.success) {
+      throw new Error(injection?.result?.error || '写入剪贴板失败');
+    }
   } catch (error) {
     console.error('[LovpenSider] Failed to copy to clipboard:', error);
     throw error;
   }
-}
+};
+
+// 执行匹配URL的自动化规则；指定 ruleId 时只运行该规则，返回执行的规则数量
+const runAutomationRules = async (tabId: number, url: string, ruleId?: string) => {
+  const rules = await automationRulesStorage.getRules();
+  const targets = ruleId ? rules.filter(rule => rule.id === ruleId) : getMatchingAutomationRules(rules, url);
+
+  for (const rule of targets) {
+    try {
+      await runAutomationRule(tabId, url, rule);
+      await automationRulesStorage.markRuleRun(rule.id);
+    } catch (error) {
+      console.error('[LovpenSider] Automation rule failed:', rule.name, error);
+      if (ruleId) throw error;
+    }
+  }
+
+  return targets.length;
+};
+
+const runAutomationRule = async (tabId: number, url: string, rule: AutomationRule) => {
+  console.log('[LovpenSider] Running automation rule:', rule.name);
+
+  if (rule.waitForSelector) {
+    const response = await chrome.tabs.sendMessage(tabId, {
+      action: 'waitForSelector',
+      selector: rule.waitForSelector,
+      timeout: rule.waitTimeout || 10000,
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || '等待元素失败');
+    }
+  }
+
+  // 动作按顺序执行，例如先应用DOM路径再捕获
+  for (const action of rule.actions) {
+    await runAutomationAction(tabId, url, action);
+  }
+};
+
+const runAutomationAction = async (tabId: number, url: string, action: AutomationAction) => {
+  switch (action.type) {
+    case 'applyDomPath': {
+      const savedPath = await domPathStorage.loadPathData(url);
+      if (!savedPath) {
+        console.warn('[LovpenSider] No saved DOM path for:', url);
+        return;
+      }
+      const response = await chrome.tabs.sendMessage(tabId, {
+        action: 'applyDomPath',
+        domPath: savedPath.path,
+        fallbacks: savedPath.fallbacks,
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || '应用DOM路径失败');
+      }
+      return;
+    }
+    case 'autoCapture': {
+      const response = await chrome.tabs.sendMessage(tabId, { action: 'autoCapture' });
+      if (!response?.success) {
+        throw new Error(response?.error || '自动捕获失败');
+      }
+      await saveCaptureToLibrary({ ...response.data, url });
+      console.log('[LovpenSider] Auto-captured to library:', url);
+      return;
+    }
+    case 'hideFloatingBadge':
+      await chrome.tabs.sendMessage(tabId, { action: 'hideFloatingBadge' });
+      return;
+    case 'fillForm': {
+      const response = await chrome.tabs.sendMessage(tabId, {
+        action: 'fillForm',
+        data: {
+          formSelector: action.formSelector || 'form:first-of-type',
+          data: action.formData || {},
+          options: { triggerEvents: true },
+        },
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || response?.message || '填写表单失败');
+      }
+      return;
+    }
+  }
+};
+
+// 捕获单个标签页的正文：休眠的标签页先重新加载，内容脚本未注入时补注入
+const captureTabContent = async (
+  tabId: number,
+): Promise<{ html: string; markdown: string; title: string; slug: string; tags: string[] }> => {
+  let tab = await chrome.tabs.get(tabId);
+  if (tab.discarded || tab.status === 'unloaded') {
+    await chrome.tabs.reload(tabId);
+    tab = await chrome.tabs.get(tabId);
+  }
+  if (tab.status !== 'complete') {
+    await waitForTabComplete(tabId, 60000);
+  }
+
+  let response;
+  try {
+    response = await chrome.tabs.sendMessage(tabId, { action: 'autoCapture' });
+  } catch {
+    // 扩展安装前打开的页面没有内容脚本
+    await chrome.scripting.executeScript({ target: { tabId }, files: ['content/all.iife.js'] });
+    response = await chrome.tabs.sendMessage(tabId, { action: 'autoCapture' });
+  }
+
+  if (!response?.success) {
+    throw new Error(response?.error || '自动捕获失败');
+  }
+  return response.data;
+};
+
+// 开始批量捕获：记录任务后立即返回任务 id，逐个捕获在后台进行，进度通过存储同步给侧边栏
+const startBatchCapture = async (windowId: number, scope: BatchCaptureScope) => {
+  if (batchCaptureRunning) {
+    throw new Error('已有批量捕获任务在运行');
+  }
+  batchCaptureRunning = true;
+  batchCaptureCancelled = false;
+
+  try {
+    const tabs = await chrome.tabs.query(scope === 'highlighted' ? { windowId, highlighted: true } : { windowId });
+    const targets = tabs.filter(tab => tab.id !== undefined);
+    const jobId = await batchCaptureStorage.startJob(
+      scope,
+      targets.map(tab => ({
+        tabId: tab.id!,
+        title: tab.title || tab.url || '',
+        url: tab.url || '',
+        status: 'pending',
+      })),
+    );
+
+    captureBatchTabs(targets)
+      .catch(error => console.error('[LovpenSider] Batch capture failed:', error))
+      .finally(() => {
+        batchCaptureRunning = false;
+      });
+    return jobId;
+  } catch (error) {
+    batchCaptureRunning = false;
+    throw error;
+  }
+};
+
+// 逐个捕获标签页并保存到资料库；中途出错也会结束任务
+const captureBatchTabs = async (targets: chrome.tabs.Tab[]) => {
+  let capturedCount = 0;
+  try {
+    for (const tab of targets) {
+      if (batchCaptureCancelled) break;
+
+      const tabId = tab.id!;
+      const url = tab.url || '';
+      if (!/^https?:/.test(url)) {
+        await batchCaptureStorage.updateItem(tabId, { status: 'skipped', error: '不支持的页面' });
+        continue;
+      }
+
+      await batchCaptureStorage.updateItem(tabId, { status: 'capturing' });
+      try {
+        const data = await captureTabContent(tabId);
+        const captureId = await saveCaptureToLibrary({ ...data, url });
+        capturedCount++;
+        await batchCaptureStorage.updateItem(tabId, { status: 'done', captureId });
+      } catch (error) {
+        console.error('[LovpenSider] Batch capture failed for tab:', url, error);
+        await batchCaptureStorage.updateItem(tabId, {
+          status: 'error',
+          error: error instanceof Error ? error.message : '捕获失败',
+        });
+      }
+    }
+  } finally {
+    await batchCaptureStorage.finishJob(batchCaptureCancelled ? 'cancelled' : 'done');
+    console.log('[LovpenSider] Batch capture finished:', capturedCount, '/', targets.length);
+  }
+};
+
+// 存储中仍在运行、但当前 service worker 中没有对应运行者的任务（worker 曾被终止），标记为已停止
+const resetStaleBatchCapture = async () => {
+  const job = await batchCaptureStorage.getJob();
+  if (job?.status === 'running' && !batchCaptureRunning) {
+    await batchCaptureStorage.finishJob('cancelled');
+  }
+};
+
+// 按监控列表同步闹钟：删除多余的，创建缺失或周期变化的
+const syncPageWatchAlarms = async () => {
+  const watches = (await pageWatchStorage.getWatches()).filter(watch => watch.enabled);
+  const alarms = (await chrome.alarms.getAll()).filter(alarm => alarm.name.startsWith(PAGE_WATCH_PREFIX));
+
+  for (const alarm of alarms) {
+    const watch = watches.find(item => `${PAGE_WATCH_PREFIX}${item.id}` === alarm.name);
+    if (!watch || alarm.periodInMinutes !== watch.intervalMinutes) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+
+  const remaining = new Set((await chrome.alarms.getAll()).map(alarm => alarm.name));
+  for (const watch of watches) {
+    const name = `${PAGE_WATCH_PREFIX}${watch.id}`;
+    if (!remaining.has(name)) {
+      chrome.alarms.create(name, { periodInMinutes: watch.intervalMinutes });
+    }
+  }
+};
+
+const enqueuePageWatchCheck = (id: string): Promise<boolean> => {
+  const run = pageWatchQueue.then(() => checkPageWatch(id));
+  pageWatchQueue = run.catch(() => undefined);
+  return run;
+};
+
+// 等待标签页加载完成（已完成时立即返回）
+const waitForTabComplete = (tabId: number, timeout: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const finish = (error?: Error) => {
+      chrome.tabs.onUpdated.removeListener(listener);
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve();
+    };
+    const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') finish();
+    };
+    const timer = setTimeout(() => finish(new Error('页面加载超时')), timeout);
+    chrome.tabs.onUpdated.addListener(listener);
+
+    // 注册监听前可能已经加载完成
+    chrome.tabs
+      .get(tabId)
+      .then(tab => {
+        if (tab.status === 'complete') finish();
+      })
+      .catch(error => finish(error instanceof Error ? error : new Error('标签页不存在')));
+  });
+
+// 在最小化的独立窗口中打开监控页面并抓取元素的 Markdown，不占用用户窗口的标签栏
+const fetchWatchedMarkdown = async (url: string, domPath: string, fallbacks: string[] = []): Promise<string> => {
+  const watchWindow = await chrome.windows.create({ url, focused: false, state: 'minimized' });
+  const windowId = watchWindow?.id;
+  const tabId = watchWindow?.tabs?.[0]?.id;
+  if (windowId === undefined || tabId === undefined) {
+    if (windowId !== undefined) chrome.windows.remove(windowId).catch(() => {});
+    throw new Error('无法打开监控页面');
+  }
+  watchTabIds.add(tabId);
+
+  try {
+    await chrome.tabs.update(tabId, { muted: true });
+    await waitForTabComplete(tabId, 60000);
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      action: 'captureWatchedElement',
+      domPath,
+      fallbacks,
+      timeout: 15000,
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || '抓取监控元素失败');
+    }
+    return stripFrontmatter(response.data.markdown).trim();
+  } finally {
+    watchTabIds.delete(tabId);
+    chrome.windows.remove(windowId).catch(() => {});
+  }
+};
+
+// 检查页面监控，内容变化时保存新快照并发出通知；返回是否发生变化
+const checkPageWatch = async (id: string): Promise<boolean> => {
+  const watch = (await pageWatchStorage.getWatches()).find(item => item.id === id);
+  if (!watch) throw new Error('监控不存在');
+
+  let markdown: string;
+  try {
+    markdown = await fetchWatchedMarkdown(watch.url, watch.domPath, watch.fallbacks);
+  } catch (error) {
+    await pageWatchStorage.updateWatch(id, {
+      lastCheckedAt: Date.now(),
+      lastError: error instanceof Error ? error.message : '检查失败',
+    });
+    throw error;
+  }
+
+  if (markdown === watch.snapshot) {
+    await pageWatchStorage.updateWatch(id, { lastCheckedAt: Date.now(), lastError: undefined });
+    return false;
+  }
+
+  const { added, removed } = summarizeDiff(diffLines(watch.snapshot, markdown));
+  const now = Date.now();
+  await pageWatchStorage.updateWatch(id, {
+    snapshot: markdown,
+    previousSnapshot: watch.snapshot,
+    hasUnreadChange: true,
+    lastCheckedAt: now,
+    lastChangedAt: now,
+    lastError: undefined,
+  });
+
+  chrome.notifications.create(`${PAGE_WATCH_PREFIX}${id}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icon-128.png'),
+    title: '页面内容已变化',
+    message: `${watch.title}：新增 ${added} 行，删除 ${removed} 行`,
+  });
+  console.log('[LovpenSider] Page watch changed:', watch.url);
+  return true;
+};
+
+// 页面监控的定时检查
+chrome.alarms.onAlarm.addListener(alarm => {
+  if (!alarm.name.startsWith(PAGE_WATCH_PREFIX)) return;
+
+  enqueuePageWatchCheck(alarm.name.slice(PAGE_WATCH_PREFIX.length)).catch(error => {
+    console.error('[LovpenSider] Scheduled page watch check failed:', error);
+  });
+});
+
+// 点击变化通知时打开被监控的页面和侧边栏
+chrome.notifications.onClicked.addListener(async notificationId => {
+  if (!notificationId.startsWith(PAGE_WATCH_PREFIX)) return;
+
+  const id = notificationId.slice(PAGE_WATCH_PREFIX.length);
+  const watch = (await pageWatchStorage.getWatches()).find(item => item.id === id);
+  chrome.notifications.clear(notificationId);
+  if (!watch) return;
+
+  const tab = await chrome.tabs.create({ url: watch.url, active: true });
+  if (tab.id) {
+    chrome.sidePanel.open({ tabId: tab.id }).catch(error => {
+      console.warn('[LovpenSider] Failed to open side panel from notification:', error);
+    });
+  }
+});
+
+// 监控列表变化时同步闹钟
+syncPageWatchAlarms().catch(error => console.error('[LovpenSider] Failed to sync page watch alarms:', error));
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes['page-watch-storage-key']) {
+    syncPageWatchAlarms().catch(error => console.error('[LovpenSider] Failed to sync page watch alarms:', error));
+  }
+});
+
+// service worker 被终止时遗留的批量捕获任务
+resetStaleBatchCapture().catch(error => console.error('[LovpenSider] Failed to reset batch capture:', error));
+chrome.runtime.onStartup.addListener(() => {
+  resetStaleBatchCapture().catch(error => console.error('[LovpenSider] Failed to reset batch capture:', error));
+});
 
 // 测试快捷键是否注册成功
 chrome.commands.getAll().then(commands => {
@@ -105,4 +105,15 @@ export default config(
       'no-restricted-imports': 'off',
     },
   },
+  {
+    // Plain scripts copied as-is into the extension (e.g. offscreen document)
+    files: ['chrome-extension/public/**/*.js'],
+    languageOptions: {
+      globals: {
+        document: 'readonly',
+        console: 'readonly',
+        chrome: 'readonly',
+      },
+    },
+  },
 );
@@ -0,0 +1,116 @@
+import { collapseWhitespace, getCodeLanguage, normalizeBlankLines, parseHtml, resolveUrl } from './export-utils.js';
+import type { ExportFormatConverter } from './export-utils.js';
+
+interface AsciiDocContext {
+  baseUrl: string;
+  listDepth: number;
+}
+
+const renderChildren = (element: Element, context: AsciiDocContext): string =>
+  Array.from(element.childNodes)
+    .map(child => renderNode(child, context))
+    .join('');
+
+const escapeMacroText = (text: string): string => text.replace(/]/g, '\\]');
+
+const renderList = (list: Element, context: AsciiDocContext): string => {
+  const depth = context.listDepth + 1;
+  const marker = (list.tagName === 'OL' ? '.' : '*').repeat(depth);
+  const items = Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map(item => `${marker} ${renderChildren(item, { ...context, listDepth: depth }).trim()}`);
+
+  return `\n${items.join('\n')}\n`;
+};
+
+const renderTable = (table: Element, context: AsciiDocContext): string => {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  const lines = rows.map(row =>
+    Array.from(row.children)
+      .map(cell => `| ${renderChildren(cell, context).trim().replace(/\|/g, '\\|')}`)
+      .join(' '),
+  );
+  const hasHeader = !!rows[0]?.querySelector('th');
+
+  return `\n\n${hasHeader ? '[options="header"]\n' : ''}|===\n${lines.join('\n')}\n|===\n\n`;
+};
+
+const renderNode = (node: Node, context: AsciiDocContext): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return collapseWhitespace(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName;
+
+  switch (tag) {
+    case 'SCRIPT':
+    case 'STYLE':
+    case 'NOSCRIPT':
+      return '';
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      // 单个 = 为文档标题，正文标题从 == 开始
+      return `\n\n${'='.repeat(Number(tag[1]) + 1)} ${renderChildren(element, context).trim()}\n\n`;
+    case 'P':
+    case 'DIV':
+    case 'SECTION':
+    case 'ARTICLE':
+      return `\n\n${renderChildren(element, context).trim()}\n\n`;
+    case 'BR':
+      return ' +\n';
+    case 'HR':
+      return "\n\n'''\n\n";
+    case 'STRONG':
+    case 'B':
+      return `*${renderChildren(element, context).trim()}*`;
+    case 'EM':
+    case 'I':
+      return `_${renderChildren(element, context).trim()}_`;
+    case 'DEL':
+    case 'S':
+      return `[.line-through]#${renderChildren(element, context).trim()}#`;
+    case 'CODE':
+      return `\`${element.textContent || ''}\``;
+    case 'A': {
+      const href = resolveUrl(element.getAttribute('href'), context.baseUrl);
+      const text = renderChildren(element, context).trim();
+      return href ? `link:${href}[${escapeMacroText(text)}]` : text;
+    }
+    case 'IMG': {
+      const src = resolveUrl(element.getAttribute('src'), context.baseUrl);
+      return src ? `image:${src}[${escapeMacroText(element.getAttribute('alt') || '')}]` : '';
+    }
+    case 'PRE': {
+      const language = getCodeLanguage(element);
+      const code = (element.textContent || '').replace(/\n$/, '');
+      return `\n\n${language ? `[source,${language}]` : '[source]'}\n----\n${code}\n----\n\n`;
+    }
+    case 'BLOCKQUOTE':
+      return `\n\n____\n${renderChildren(element, context).trim()}\n____\n\n`;
+    case 'UL':
+    case 'OL':
+      return renderList(element, context);
+    case 'TABLE':
+      return renderTable(element, context);
+  }
+
+  return renderChildren(element, context);
+};
+
+export const asciidocExporter: ExportFormatConverter = {
+  id: 'asciidoc',
+  name: 'AsciiDoc',
+  extension: 'adoc',
+  mimeType: 'text/asciidoc',
+  convert: doc => {
+    const header = [`= ${doc.title}`, `:revdate: ${doc.capturedAt}`, `:source-url: ${doc.url}`].join('\n');
+    const body = renderNode(parseHtml(doc.html), { baseUrl: doc.url, listDepth: 0 });
+    return `${header}\n\n${normalizeBlankLines(body)}\n`;
+  },
+};
@@ -0,0 +1,54 @@
+// 导出时使用的文档数据
+export interface ExportDocument {
+  title: string;
+  url: string;
+  slug: string;
+  capturedAt: string;
+  html: string;
+  markdown: string;
+}
+
+export const parseHtml = (html: string): HTMLElement => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return doc.body;
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 合并空白并去掉多余空行
+export const normalizeBlankLines = (text: string): string =>
+  text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// 将行内文本中的连续空白压缩为一个空格
+export const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ');
+
+export const resolveUrl = (url: string | null, baseUrl: string): string => {
+  if (!url) return '';
+  try {
+    return new URL(url, baseUrl || undefined).href;
+  } catch {
+    return url;
+  }
+};
+
+export type ExportFormat = 'markdown' | 'html' | 'text' | 'json' | 'org' | 'asciidoc';
+
+export interface ExportFormatConverter {
+  id: ExportFormat;
+  name: string;
+  extension: string;
+  mimeType: string;
+  convert: (doc: ExportDocument) => string;
+}
+
+// 从 class="language-xxx" / "lang-xxx" 中读取代码语言
+export const getCodeLanguage = (pre: Element): string => {
+  const code = pre.querySelector('code');
+  const className = `${pre.className} ${code?.className || ''}`;
+  const match = className.match(/(?:language|lang)-([\w+#-]+)/);
+  return match ? match[1] : '';
+};
@@ -0,0 +1,55 @@
+import { escapeHtml, parseHtml, resolveUrl } from './export-utils.js';
+import type { ExportFormatConverter } from './export-utils.js';
+
+const STYLES = `
+  body { max-width: 760px; margin: 40px auto; padding: 0 20px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'PingFang SC', 'Microsoft YaHei', sans-serif; line-height: 1.7; color: #1f2328; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 24px; padding-bottom: 12px; }
+  header h1 { margin: 0 0 8px; font-size: 1.8em; }
+  header .meta { color: #656d76; font-size: 0.875em; }
+  img { max-width: 100%; height: auto; }
+  pre { background: #f6f8fa; padding: 12px 16px; border-radius: 6px; overflow: auto; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+  blockquote { margin: 0; padding: 0 1em; color: #656d76; border-left: 4px solid #d0d7de; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 12px; }
+  a { color: #0969da; }
+`;
+
+// 将相对链接转换为绝对链接，保证离线打开时仍可访问原始资源
+const absolutizeLinks = (html: string, baseUrl: string): string => {
+  const body = parseHtml(html);
+  body.querySelectorAll('[href]').forEach(el => el.setAttribute('href', resolveUrl(el.getAttribute('href'), baseUrl)));
+  body.querySelectorAll('[src]').forEach(el => el.setAttribute('src', resolveUrl(el.getAttribute('src'), baseUrl)));
+  return body.innerHTML;
+};
+
+export const htmlExporter: ExportFormatConverter = {
+  id: 'html',
+  name: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html',
+  convert: doc => {
+    const title = escapeHtml(doc.title);
+    const url = escapeHtml(doc.url);
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<div class="meta"><a href="${url}">${url}</a> · ${escapeHtml(doc.capturedAt)}</div>
+</header>
+<article>
+${absolutizeLinks(doc.html, doc.url)}
+</article>
+</body>
+</html>
+`;
+  },
+};
@@ -0,0 +1,22 @@
+import { asciidocExporter } from './asciidoc-exporter.js';
+import { htmlExporter } from './html-exporter.js';
+import { jsonExporter } from './json-exporter.js';
+import { markdownExporter } from './markdown-exporter.js';
+import { orgExporter } from './org-exporter.js';
+import { textExporter } from './text-exporter.js';
+import type { ExportFormat, ExportFormatConverter } from './export-utils.js';
+
+export const EXPORT_FORMATS: ExportFormatConverter[] = [
+  markdownExporter,
+  htmlExporter,
+  textExporter,
+  jsonExporter,
+  orgExporter,
+  asciidocExporter,
+];
+
+export const getExportConverter = (format: ExportFormat): ExportFormatConverter =>
+  EXPORT_FORMATS.find(converter => converter.id === format) || markdownExporter;
+
+export { htmlToPlainText } from './text-exporter.js';
+export type { ExportDocument, ExportFormat, ExportFormatConverter } from './export-utils.js';
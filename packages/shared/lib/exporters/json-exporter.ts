@@ -0,0 +1,26 @@
+import { htmlToPlainText } from './text-exporter.js';
+import { stripFrontmatter } from '../utils/frontmatter.js';
+import type { ExportFormatConverter } from './export-utils.js';
+
+export const jsonExporter: ExportFormatConverter = {
+  id: 'json',
+  name: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  convert: doc =>
+    JSON.stringify(
+      {
+        title: doc.title,
+        url: doc.url,
+        slug: doc.slug,
+        capturedAt: doc.capturedAt,
+        body: {
+          markdown: stripFrontmatter(doc.markdown),
+          text: htmlToPlainText(doc.html),
+          html: doc.html,
+        },
+      },
+      null,
+      2,
+    ),
+};
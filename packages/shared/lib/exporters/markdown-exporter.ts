@@ -0,0 +1,9 @@
+import type { ExportFormatConverter } from './export-utils.js';
+
+export const markdownExporter: ExportFormatConverter = {
+  id: 'markdown',
+  name: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  convert: doc => doc.markdown,
+};
@@ -0,0 +1,124 @@
+import { collapseWhitespace, getCodeLanguage, normalizeBlankLines, parseHtml, resolveUrl } from './export-utils.js';
+import type { ExportFormatConverter } from './export-utils.js';
+
+interface OrgContext {
+  baseUrl: string;
+  listDepth: number;
+}
+
+const renderChildren = (element: Element, context: OrgContext): string =>
+  Array.from(element.childNodes)
+    .map(child => renderNode(child, context))
+    .join('');
+
+const renderList = (list: Element, context: OrgContext): string => {
+  const ordered = list.tagName === 'OL';
+  const indent = '  '.repeat(context.listDepth);
+  const items = Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const content = renderChildren(item, { ...context, listDepth: context.listDepth + 1 }).trim();
+      return `${indent}${marker} ${content}`;
+    });
+
+  return `\n${items.join('\n')}\n`;
+};
+
+const renderTable = (table: Element, context: OrgContext): string => {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  const lines = rows.map(row => {
+    const cells = Array.from(row.children).map(cell => renderChildren(cell, context).trim().replace(/\|/g, '\\vert{}'));
+    return `| ${cells.join(' | ')} |`;
+  });
+
+  // 表头后添加分隔线
+  if (rows[0]?.querySelector('th') && lines.length > 1) {
+    const columnCount = rows[0].children.length;
+    lines.splice(1, 0, `|${Array(columnCount).fill('---').join('+')}|`);
+  }
+
+  return `\n\n${lines.join('\n')}\n\n`;
+};
+
+const renderNode = (node: Node, context: OrgContext): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return collapseWhitespace(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName;
+
+  switch (tag) {
+    case 'SCRIPT':
+    case 'STYLE':
+    case 'NOSCRIPT':
+      return '';
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      return `\n\n${'*'.repeat(Number(tag[1]))} ${renderChildren(element, context).trim()}\n\n`;
+    case 'P':
+    case 'DIV':
+    case 'SECTION':
+    case 'ARTICLE':
+      return `\n\n${renderChildren(element, context).trim()}\n\n`;
+    case 'BR':
+      return '\\\\\n';
+    case 'HR':
+      return '\n\n-----\n\n';
+    case 'STRONG':
+    case 'B':
+      return `*${renderChildren(element, context).trim()}*`;
+    case 'EM':
+    case 'I':
+      return `/${renderChildren(element, context).trim()}/`;
+    case 'DEL':
+    case 'S':
+      return `+${renderChildren(element, context).trim()}+`;
+    case 'U':
+      return `_${renderChildren(element, context).trim()}_`;
+    case 'CODE':
+      return `~${element.textContent || ''}~`;
+    case 'A': {
+      const href = resolveUrl(element.getAttribute('href'), context.baseUrl);
+      const text = renderChildren(element, context).trim();
+      if (!href) return text;
+      return text && text !== href ? `[[${href}][${text.replace(/[[\]]/g, '')}]]` : `[[${href}]]`;
+    }
+    case 'IMG': {
+      const src = resolveUrl(element.getAttribute('src'), context.baseUrl);
+      return src ? `[[${src}]]` : '';
+    }
+    case 'PRE': {
+      const language = getCodeLanguage(element);
+      const code = (element.textContent || '').replace(/\n$/, '');
+      return `\n\n#+BEGIN_SRC${language ? ` ${language}` : ''}\n${code}\n#+END_SRC\n\n`;
+    }
+    case 'BLOCKQUOTE':
+      return `\n\n#+BEGIN_QUOTE\n${renderChildren(element, context).trim()}\n#+END_QUOTE\n\n`;
+    case 'UL':
+    case 'OL':
+      return renderList(element, context);
+    case 'TABLE':
+      return renderTable(element, context);
+  }
+
+  return renderChildren(element, context);
+};
+
+export const orgExporter: ExportFormatConverter = {
+  id: 'org',
+  name: 'Org-mode',
+  extension: 'org',
+  mimeType: 'text/x-org',
+  convert: doc => {
+    const header = [`#+TITLE: ${doc.title}`, `#+DATE: ${doc.capturedAt}`, `#+URL: ${doc.url}`].join('\n');
+    const body = renderNode(parseHtml(doc.html), { baseUrl: doc.url, listDepth: 0 });
+    return `${header}\n\n${normalizeBlankLines(body)}\n`;
+  },
+};
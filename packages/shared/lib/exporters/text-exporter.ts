@@ -0,0 +1,81 @@
+import { collapseWhitespace, normalizeBlankLines, parseHtml } from './export-utils.js';
+import type { ExportFormatConverter } from './export-utils.js';
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'SECTION',
+  'TABLE',
+  'UL',
+]);
+
+const nodeToText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return collapseWhitespace(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName;
+
+  switch (tag) {
+    case 'SCRIPT':
+    case 'STYLE':
+    case 'NOSCRIPT':
+      return '';
+    case 'BR':
+      return '\n';
+    case 'PRE':
+      return `\n\n${element.textContent || ''}\n\n`;
+    case 'IMG': {
+      const alt = element.getAttribute('alt');
+      return alt ? `[${alt}]` : '';
+    }
+  }
+
+  const content = Array.from(element.childNodes).map(nodeToText).join('');
+
+  switch (tag) {
+    case 'LI':
+      return `\n- ${content.trim()}`;
+    case 'TR':
+      return `\n${content.trim()}`;
+    case 'TD':
+    case 'TH':
+      return `${content.trim()}\t`;
+  }
+
+  return BLOCK_TAGS.has(tag) ? `\n\n${content.trim()}\n\n` : content;
+};
+
+// 将 HTML 转换为保留段落结构的纯文本
+export const htmlToPlainText = (html: string): string => normalizeBlankLines(nodeToText(parseHtml(html)));
+
+export const textExporter: ExportFormatConverter = {
+  id: 'text',
+  name: '纯文本',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  convert: doc => `${doc.title}\n${doc.url}\n\n${htmlToPlainText(doc.html)}\n`,
+};
@@ -0,0 +1,38 @@
+import { dbManager } from './database-manager.js';
+import { parseFrontmatterField, parseFrontmatterList } from '../utils/frontmatter.js';
+
+export interface CaptureLibraryInput {
+  url: string;
+  html: string;
+  markdown: string;
+  slug: string;
+  title?: string;
+  tags?: string[];
+}
+
+// 保存捕获到资料库，未传入标题和标签时取自 frontmatter；同一页面内容未变化时不重复保存，返回已有记录的 id
+export const saveCaptureToLibrary = async ({
+  url,
+  html,
+  markdown,
+  slug,
+  title,
+  tags,
+}: CaptureLibraryInput): Promise<string> => {
+  await dbManager.initialize();
+
+  const existing = await dbManager.getCapturesByUrl(url);
+  const duplicate = existing.find(capture => capture.html === html);
+  if (duplicate?.id) return duplicate.id;
+
+  return dbManager.saveCapture({
+    title: title || parseFrontmatterField(markdown, 'title') || slug,
+    html,
+    markdown,
+    slug,
+    url,
+    tags: tags || parseFrontmatterList(markdown, 'tags'),
+    timestamp: Date.now(),
+    createdAt: new Date().toISOString(),
+  });
+};
@@ -1,4 +1,21 @@
-import type { CaptureData, TextProcessingData, UserSettings, SyncQueueItem, UserStats } from '../types/database.js';
+import { buildSnippet, getQueryTerms, markdownToPlainText, scoreBm25, tokenize } from './search-tokenizer.js';
+import type {
+  CaptureData,
+  HighlightData,
+  TextProcessingData,
+  UserSettings,
+  SyncQueueItem,
+  UserStats,
+  SearchCorpusStats,
+  SearchDocumentType,
+  SearchIndexDocument,
+  SearchIndexEntry,
+  SearchOptions,
+  SearchResult,
+} from '../types/database.js';
+
+// 检索统计记录的键
+const SEARCH_CORPUS_KEY = 'corpus';
 
 export interface DatabaseManager {
   // 初始化
@@ -8,6 +25,7 @@ export interface DatabaseManager {
   saveCapture(data: CaptureData): Promise<string>;
   getCaptures(userId?: string, limit?: number): Promise<CaptureData[]>;
   getCaptureById(id: string): Promise<CaptureData | null>;
+  getCapturesByUrl(url: string): Promise<CaptureData[]>;
   updateCapture(id: string, data: Partial<CaptureData>): Promise<void>;
   deleteCapture(id: string): Promise<void>;
 
@@ -18,6 +36,12 @@ export interface DatabaseManager {
   updateTextProcessing(id: string, data: Partial<TextProcessingData>): Promise<void>;
   deleteTextProcessing(id: string): Promise<void>;
 
+  // 网页高亮管理
+  saveHighlight(data: HighlightData): Promise<string>;
+  getHighlightsByUrl(url: string): Promise<HighlightData[]>;
+  updateHighlight(id: string, data: Partial<HighlightData>): Promise<void>;
+  deleteHighlight(id: string): Promise<void>;
+
   // 用户设置管理
   saveSetting(key: string, value: unknown, userId?: string): Promise<void>;
   getSetting(key: string, userId?: string): Promise<unknown>;
@@ -31,6 +55,10 @@ export interface DatabaseManager {
   updateSyncQueueItem(id: string, data: Partial<SyncQueueItem>): Promise<void>;
   clearSyncQueue(): Promise<void>;
 
+  // 全文检索
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  rebuildSearchIndex(): Promise<void>;
+
   // 统计信息
   getUserStats(userId?: string): Promise<UserStats>;
 
@@ -47,20 +75,34 @@ export interface DatabaseManager {
 export class IndexedDBManager implements DatabaseManager {
   private db: IDBDatabase | null = null;
   private readonly dbName = 'LovpenSiderDB';
-  private readonly dbVersion = 1;
+  private readonly dbVersion = 5;
 
   async initialize(): Promise<void> {
+    // 已初始化时直接复用连接（侧边栏与后台各自持有一个实例）
+    if (this.db) return;
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.dbVersion);
+      let needsReindex = false;
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
-        resolve();
+
+        // 从旧版本升级时，为已有数据重建检索索引
+        if (needsReindex) {
+          this.rebuildSearchIndex()
+            .catch(error => console.error('重建检索索引失败:', error))
+            .finally(() => resolve());
+        } else {
+          resolve();
+        }
       };
 
       request.onupgradeneeded = event => {
         const db = (event.target as IDBOpenDBRequest).result;
+        // v2 新增检索索引，v5 新增检索统计并修正了中英文混排的分词
+        needsReindex = event.oldVersion > 0 && event.oldVersion < 5;
 
         // 创建捕获数据表
         if (!db.objectStoreNames.contains('captures')) {
@@ -70,6 +112,12 @@ export class IndexedDBManager implements DatabaseManager {
           captureStore.createIndex('synced', 'synced', { unique: false });
         }
 
+        // 为捕获数据表补建网址索引（v4），保存前按网址查重
+        const existingCaptureStore = request.transaction!.objectStore('captures');
+        if (!existingCaptureStore.indexNames.contains('url')) {
+          existingCaptureStore.createIndex('url', 'url', { unique: false });
+        }
+
         // 创建文本处理数据表
         if (!db.objectStoreNames.contains('textProcessing')) {
           const textStore = db.createObjectStore('textProcessing', { keyPath: 'id' });
@@ -91,6 +139,29 @@ export class IndexedDBManager implements DatabaseManager {
           syncStore.createIndex('timestamp', 'timestamp', { unique: false });
           syncStore.createIndex('type', 'type', { unique: false });
         }
+
+        // 创建检索索引表（倒排表：词 -> 文档词频）
+        if (!db.objectStoreNames.contains('searchIndex')) {
+          db.createObjectStore('searchIndex', { keyPath: 'term' });
+        }
+
+        // 创建检索文档表（记录每个文档的词列表，用于增量更新和删除）
+        if (!db.objectStoreNames.contains('searchDocs')) {
+          const docsStore = db.createObjectStore('searchDocs', { keyPath: 'key' });
+          docsStore.createIndex('type', 'type', { unique: false });
+        }
+
+        // 创建检索统计表（v5），随重建索引写入
+        if (!db.objectStoreNames.contains('searchMeta')) {
+          db.createObjectStore('searchMeta', { keyPath: 'key' });
+        }
+
+        // 创建网页高亮表
+        if (!db.objectStoreNames.contains('highlights')) {
+          const highlightStore = db.createObjectStore('highlights', { keyPath: 'id' });
+          highlightStore.createIndex('url', 'url', { unique: false });
+          highlightStore.createIndex('timestamp', 'timestamp', { unique: false });
+        }
       };
     });
   }
@@ -116,6 +187,135 @@ export class IndexedDBManager implements DatabaseManager {
     });
   }
 
+  private async runTransaction(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => void,
+  ): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      operation(transaction);
+    });
+  }
+
+  private getSearchDocKey(type: SearchDocumentType, id: string): string {
+    return `${type}:${id}`;
+  }
+
+  private getSearchableText(type: SearchDocumentType, item: CaptureData | TextProcessingData): string {
+    if (type === 'capture') {
+      return markdownToPlainText((item as CaptureData).markdown || '');
+    }
+    const textItem = item as TextProcessingData;
+    return `${textItem.input}\n${textItem.output}`;
+  }
+
+  private getSearchTitle(type: SearchDocumentType, item: CaptureData | TextProcessingData): string {
+    if (type === 'capture') {
+      const capture = item as CaptureData;
+      return capture.title || capture.slug;
+    }
+    return (item as TextProcessingData).input.slice(0, 50);
+  }
+
+  // 增量更新文档的倒排索引：移除旧词条并写入新词条
+  private async updateSearchIndex(
+    type: SearchDocumentType,
+    id: string,
+    item: CaptureData | TextProcessingData | null,
+  ): Promise<void> {
+    const key = this.getSearchDocKey(type, id);
+    const termFrequency = new Map<string, number>();
+
+    if (item) {
+      // 标题词频加倍，使标题命中排名更靠前
+      const titleTokens = tokenize(type === 'capture' ? (item as CaptureData).title || '' : '');
+      const tokens = [...titleTokens, ...titleTokens, ...tokenize(this.getSearchableText(type, item))];
+      tokens.forEach(token => termFrequency.set(token.term, (termFrequency.get(token.term) || 0) + 1));
+    }
+
+    await this.runTransaction(['searchIndex', 'searchDocs', 'searchMeta'], 'readwrite', transaction => {
+      const indexStore = transaction.objectStore('searchIndex');
+      const docsStore = transaction.objectStore('searchDocs');
+      const metaStore = transaction.objectStore('searchMeta');
+
+      const docRequest = docsStore.get(key);
+      docRequest.onsuccess = () => {
+        const previous = docRequest.result as SearchIndexDocument | undefined;
+        const length = Array.from(termFrequency.values()).reduce((sum, count) => sum + count, 0);
+        const affectedTerms = new Set([...(previous?.terms || []), ...termFrequency.keys()]);
+
+        affectedTerms.forEach(term => {
+          const entryRequest = indexStore.get(term);
+          entryRequest.onsuccess = () => {
+            const entry: SearchIndexEntry = entryRequest.result || { term, postings: {} };
+            delete entry.postings[key];
+
+            const frequency = termFrequency.get(term);
+            if (frequency) {
+              entry.postings[key] = frequency;
+            }
+
+            if (Object.keys(entry.postings).length > 0) {
+              indexStore.put(entry);
+            } else {
+              indexStore.delete(term);
+            }
+          };
+        });
+
+        if (item) {
+          const doc: SearchIndexDocument = {
+            key,
+            type,
+            refId: id,
+            length,
+            terms: Array.from(termFrequency.keys()),
+          };
+          docsStore.put(doc);
+        } else {
+          docsStore.delete(key);
+        }
+
+        const metaRequest = metaStore.get(SEARCH_CORPUS_KEY);
+        metaRequest.onsuccess = () => {
+          const corpus: SearchCorpusStats = metaRequest.result || {
+            key: SEARCH_CORPUS_KEY,
+            documentCount: 0,
+            totalLength: 0,
+          };
+          if (previous) {
+            corpus.documentCount--;
+            corpus.totalLength -= previous.length;
+          }
+          if (item) {
+            corpus.documentCount++;
+            corpus.totalLength += length;
+          }
+          metaStore.put(corpus);
+        };
+      };
+    });
+  }
+
+  // 索引失败不影响主数据的写入
+  private async safeUpdateSearchIndex(
+    type: SearchDocumentType,
+    id: string,
+    item: CaptureData | TextProcessingData | null,
+  ): Promise<void> {
+    try {
+      await this.updateSearchIndex(type, id, item);
+    } catch (error) {
+      console.error('更新检索索引失败:', error);
+    }
+  }
+
   async saveCapture(data: CaptureData): Promise<string> {
     const id = this.generateId();
     const capture: CaptureData = {
@@ -126,6 +326,7 @@ export class IndexedDBManager implements DatabaseManager {
     };
 
     await this.executeTransaction('captures', 'readwrite', store => store.add(capture));
+    await this.safeUpdateSearchIndex('capture', id, capture);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -164,12 +365,17 @@ export class IndexedDBManager implements DatabaseManager {
     }
   }
 
+  async getCapturesByUrl(url: string): Promise<CaptureData[]> {
+    return this.executeTransaction('captures', 'readonly', store => store.index('url').getAll(url));
+  }
+
   async updateCapture(id: string, data: Partial<CaptureData>): Promise<void> {
     const existing = await this.getCaptureById(id);
     if (!existing) throw new Error('Capture not found');
 
     const updated = { ...existing, ...data, updatedAt: new Date().toISOString() };
     await this.executeTransaction('captures', 'readwrite', store => store.put(updated));
+    await this.safeUpdateSearchIndex('capture', id, updated);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -181,6 +387,7 @@ export class IndexedDBManager implements DatabaseManager {
 
   async deleteCapture(id: string): Promise<void> {
     await this.executeTransaction('captures', 'readwrite', store => store.delete(id));
+    await this.safeUpdateSearchIndex('capture', id, null);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -200,6 +407,7 @@ export class IndexedDBManager implements DatabaseManager {
     };
 
     await this.executeTransaction('textProcessing', 'readwrite', store => store.add(processing));
+    await this.safeUpdateSearchIndex('text_processing', id, processing);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -247,6 +455,7 @@ export class IndexedDBManager implements DatabaseManager {
 
     const updated = { ...existing, ...data, updatedAt: new Date().toISOString() };
     await this.executeTransaction('textProcessing', 'readwrite', store => store.put(updated));
+    await this.safeUpdateSearchIndex('text_processing', id, updated);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -258,6 +467,7 @@ export class IndexedDBManager implements DatabaseManager {
 
   async deleteTextProcessing(id: string): Promise<void> {
     await this.executeTransaction('textProcessing', 'readwrite', store => store.delete(id));
+    await this.safeUpdateSearchIndex('text_processing', id, null);
 
     // 添加到同步队列
     await this.addToSyncQueue({
@@ -267,6 +477,42 @@ export class IndexedDBManager implements DatabaseManager {
     });
   }
 
+  async saveHighlight(data: HighlightData): Promise<string> {
+    const id = this.generateId();
+    const highlight: HighlightData = {
+      ...data,
+      id,
+      timestamp: data.timestamp || Date.now(),
+      createdAt: data.createdAt || new Date().toISOString(),
+    };
+
+    await this.executeTransaction('highlights', 'readwrite', store => store.add(highlight));
+    return id;
+  }
+
+  async getHighlightsByUrl(url: string): Promise<HighlightData[]> {
+    const highlights: HighlightData[] = await this.executeTransaction('highlights', 'readonly', store =>
+      store.index('url').getAll(url),
+    );
+
+    // 按创建时间正序排列
+    return highlights.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async updateHighlight(id: string, data: Partial<HighlightData>): Promise<void> {
+    const existing: HighlightData | undefined = await this.executeTransaction('highlights', 'readonly', store =>
+      store.get(id),
+    );
+    if (!existing) throw new Error('Highlight not found');
+
+    const updated = { ...existing, ...data, id, updatedAt: new Date().toISOString() };
+    await this.executeTransaction('highlights', 'readwrite', store => store.put(updated));
+  }
+
+  async deleteHighlight(id: string): Promise<void> {
+    await this.executeTransaction('highlights', 'readwrite', store => store.delete(id));
+  }
+
   async saveSetting(key: string, value: unknown, userId?: string): Promise<void> {
     const id = `${userId || 'global'}_${key}`;
     const setting: UserSettings = {
@@ -349,6 +595,99 @@ export class IndexedDBManager implements DatabaseManager {
     await this.executeTransaction('syncQueue', 'readwrite', store => store.clear());
   }
 
+  /**
+   * 全文检索捕获内容和文本处理记录。
+   * 查询词之间为"与"关系，结果按 BM25 得分排序。
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const queryTerms = getQueryTerms(query);
+    if (queryTerms.length === 0) return [];
+
+    const corpus = await this.executeTransaction<SearchCorpusStats | undefined>('searchMeta', 'readonly', store =>
+      store.get(SEARCH_CORPUS_KEY),
+    );
+    if (!corpus) return [];
+
+    const entries: Array<SearchIndexEntry | undefined> = [];
+    await this.runTransaction(['searchIndex'], 'readonly', transaction => {
+      const store = transaction.objectStore('searchIndex');
+      queryTerms.forEach((term, index) => {
+        const request = store.get(term);
+        request.onsuccess = () => {
+          entries[index] = request.result;
+        };
+      });
+    });
+
+    // 任一查询词没有命中则无结果
+    if (entries.some(entry => !entry)) return [];
+
+    const candidateKeys = Object.keys(entries[0]!.postings).filter(key =>
+      entries.every(entry => key in entry!.postings),
+    );
+    if (candidateKeys.length === 0) return [];
+
+    // 只读取倒排表命中的文档
+    const docs: Array<SearchIndexDocument | undefined> = [];
+    await this.runTransaction(['searchDocs'], 'readonly', transaction => {
+      const store = transaction.objectStore('searchDocs');
+      candidateKeys.forEach((key, index) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          docs[index] = request.result;
+        };
+      });
+    });
+
+    const scored = docs
+      .filter((doc): doc is SearchIndexDocument => !!doc && (!options.types || options.types.includes(doc.type)))
+      .map(doc => {
+        const terms = entries.map(entry => ({
+          frequency: entry!.postings[doc.key],
+          documentFrequency: Object.keys(entry!.postings).length,
+        }));
+        return { doc, score: scoreBm25(terms, doc.length, corpus) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const results: SearchResult[] = [];
+    for (const { doc, score } of scored) {
+      if (options.limit && results.length >= options.limit) break;
+
+      const item =
+        doc.type === 'capture' ? await this.getCaptureById(doc.refId) : await this.getTextProcessingById(doc.refId);
+      if (!item) continue;
+      if (options.userId && item.userId !== options.userId) continue;
+
+      results.push({
+        type: doc.type,
+        id: doc.refId,
+        score,
+        title: this.getSearchTitle(doc.type, item),
+        snippet: buildSnippet(this.getSearchableText(doc.type, item), queryTerms),
+        item,
+      });
+    }
+
+    return results;
+  }
+
+  async rebuildSearchIndex(): Promise<void> {
+    await this.executeTransaction('searchIndex', 'readwrite', store => store.clear());
+    await this.executeTransaction('searchDocs', 'readwrite', store => store.clear());
+    await this.executeTransaction('searchMeta', 'readwrite', store => store.clear());
+
+    const captures = await this.getCaptures();
+    for (const capture of captures) {
+      await this.updateSearchIndex('capture', capture.id!, capture);
+    }
+
+    const textProcessing = await this.getTextProcessingHistory();
+    for (const item of textProcessing) {
+      await this.updateSearchIndex('text_processing', item.id!, item);
+    }
+  }
+
   async getUserStats(userId?: string): Promise<UserStats> {
     const captures = await this.getCaptures(userId);
     const textProcessing = await this.getTextProcessingHistory(userId);
@@ -375,6 +714,9 @@ export class IndexedDBManager implements DatabaseManager {
     const captures = await this.getCaptures(userId);
     const textProcessing = await this.getTextProcessingHistory(userId);
     const settings = await this.getSettings(userId);
+    const highlights: HighlightData[] = await this.executeTransaction('highlights', 'readonly', store =>
+      store.getAll(),
+    );
 
     return {
       version: 1,
@@ -384,6 +726,7 @@ export class IndexedDBManager implements DatabaseManager {
         captures,
         textProcessing,
         settings,
+        highlights: userId ? highlights.filter(h => h.userId === userId) : highlights,
       },
     };
   }
@@ -393,8 +736,10 @@ export class IndexedDBManager implements DatabaseManager {
       throw new Error('Invalid data format');
     }
 
-    const importData = data as { data: { captures?: unknown[]; textProcessing?: unknown[]; settings?: unknown[] } };
-    const { captures = [], textProcessing = [], settings = [] } = importData.data;
+    const importData = data as {
+      data: { captures?: unknown[]; textProcessing?: unknown[]; settings?: unknown[]; highlights?: unknown[] };
+    };
+    const { captures = [], textProcessing = [], settings = [], highlights = [] } = importData.data;
 
     // 导入捕获数据
     for (const capture of captures) {
@@ -415,6 +760,13 @@ export class IndexedDBManager implements DatabaseManager {
       const settingData = setting as UserSettings;
       await this.saveSetting(settingData.key, settingData.value, userId);
     }
+
+    // 导入网页高亮
+    for (const item of highlights) {
+      const highlightData = item as HighlightData;
+      if (userId) highlightData.userId = userId;
+      await this.saveHighlight(highlightData);
+    }
   }
 
   async clearUserData(userId?: string): Promise<void> {
@@ -434,12 +786,23 @@ export class IndexedDBManager implements DatabaseManager {
       for (const setting of settings) {
         await this.deleteSetting(setting.key, userId);
       }
+
+      const highlights: HighlightData[] = await this.executeTransaction('highlights', 'readonly', store =>
+        store.getAll(),
+      );
+      for (const highlight of highlights.filter(h => h.userId === userId)) {
+        await this.deleteHighlight(highlight.id!);
+      }
     } else {
       // 清除所有数据
       await this.executeTransaction('captures', 'readwrite', store => store.clear());
       await this.executeTransaction('textProcessing', 'readwrite', store => store.clear());
       await this.executeTransaction('settings', 'readwrite', store => store.clear());
       await this.executeTransaction('syncQueue', 'readwrite', store => store.clear());
+      await this.executeTransaction('searchIndex', 'readwrite', store => store.clear());
+      await this.executeTransaction('searchDocs', 'readwrite', store => store.clear());
+      await this.executeTransaction('searchMeta', 'readwrite', store => store.clear());
+      await this.executeTransaction('highlights', 'readwrite', store => store.clear());
     }
   }
 
@@ -1,3 +1,4 @@
 export * from './database-manager.js';
 export * from './sync-manager.js';
+export * from './capture-library.js';
 export type * from '../types/database.js';
@@ -0,0 +1,300 @@
+import { stripFrontmatter } from '../utils/frontmatter.js';
+import type { SearchCorpusStats, SearchSnippetSegment } from '../types/database.js';
+
+// 中日韩文字按双字切分，其余按单词切分；单词不包含紧邻的中日韩文字
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const CJK_RUN = new RegExp(`[${CJK_CHARS}]+`, 'u');
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}])+`, 'gu');
+
+// BM25 排序参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+// Porter 词干算法
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log',
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: '',
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANT_SEQ = `${CONSONANT}[^aeiouy]*`;
+const VOWEL_SEQ = `${VOWEL}[aeiou]*`;
+
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}(${VOWEL_SEQ})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}${VOWEL_SEQ}${CONSONANT_SEQ}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANT_SEQ}${VOWEL}[^aeiouwxy]$`);
+
+const STEP2_PATTERN = new RegExp(`^(.+?)(${Object.keys(STEP2_SUFFIXES).join('|')})$`);
+const STEP3_PATTERN = new RegExp(`^(.+?)(${Object.keys(STEP3_SUFFIXES).join('|')})$`);
+const STEP4_PATTERN = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export const stemWord = (word: string): string => {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // 开头的 y 视为辅音
+  const startsWithY = word[0] === 'y';
+  let w = startsWithY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a
+  if (/^(.+?)(ss|i)es$/.test(w)) {
+    w = w.replace(/^(.+?)(ss|i)es$/, '$1$2');
+  } else if (/^(.+?)([^s])s$/.test(w)) {
+    w = w.replace(/^(.+?)([^s])s$/, '$1$2');
+  }
+
+  // Step 1b
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    const stem = match[1];
+    if (HAS_VOWEL.test(stem)) {
+      w = stem;
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (ENDS_CVC.test(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2
+  if ((match = STEP2_PATTERN.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3
+  if ((match = STEP3_PATTERN.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4
+  if ((match = STEP4_PATTERN.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    const stem = match[1] + match[2];
+    if (MEASURE_GT_1.test(stem)) {
+      w = stem;
+    }
+  }
+
+  // Step 5
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))) {
+      w = stem;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return startsWithY ? `y${w.slice(1)}` : w;
+};
+
+/**
+ * 将文本切分为索引词。
+ * 中日韩文字：索引时同时产生单字和双字词，查询时多字只使用双字词（相当于短语匹配）。
+ * 其他文字：转小写、去停用词并提取词干。
+ */
+export const tokenize = (text: string, forQuery = false): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  const normalized = text.normalize('NFKC').toLowerCase();
+
+  for (const match of normalized.matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    const offset = match.index ?? 0;
+
+    if (CJK_RUN.test(run)) {
+      const chars = Array.from(run);
+      let position = offset;
+
+      chars.forEach((char, index) => {
+        const next = chars[index + 1];
+        if (!forQuery || chars.length === 1) {
+          tokens.push({ term: char, start: position, end: position + char.length });
+        }
+        if (next) {
+          tokens.push({ term: char + next, start: position, end: position + char.length + next.length });
+        }
+        position += char.length;
+      });
+    } else if (!STOP_WORDS.has(run)) {
+      tokens.push({ term: stemWord(run), start: offset, end: offset + run.length });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * 计算文档的 BM25 得分。terms 为每个查询词在文档中的词频及包含该词的文档数。
+ */
+export const scoreBm25 = (
+  terms: Array<{ frequency: number; documentFrequency: number }>,
+  documentLength: number,
+  corpus: Pick<SearchCorpusStats, 'documentCount' | 'totalLength'>,
+): number => {
+  const averageLength = corpus.documentCount > 0 ? corpus.totalLength / corpus.documentCount : 0;
+
+  return terms.reduce((sum, { frequency, documentFrequency }) => {
+    const idf = Math.log(1 + (corpus.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const normalized = frequency + BM25_K1 * (1 - BM25_B + (BM25_B * documentLength) / (averageLength || 1));
+    return sum + (idf * frequency * (BM25_K1 + 1)) / normalized;
+  }, 0);
+};
+
+export const getQueryTerms = (query: string): string[] => Array.from(new Set(tokenize(query, true).map(t => t.term)));
+
+// 去除 frontmatter 和常见 markdown 语法，得到用于索引和摘要的纯文本
+export const markdownToPlainText = (markdown: string): string =>
+  stripFrontmatter(markdown)
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^ {0,3}(#{1,6}|>|[-*+]|\d+\.)[ \t]+/gm, '')
+    .replace(/[*_`~|]/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * 生成带高亮标记的摘要：选取命中词最密集的窗口，并把命中区间标记为高亮。
+ */
+export const buildSnippet = (text: string, queryTerms: string[], maxLength = 160): SearchSnippetSegment[] => {
+  const termSet = new Set(queryTerms);
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  // tokenize 基于 NFKC 归一化后的文本，归一化改变长度时无法准确映射位置，只返回开头部分
+  const positionsReliable = text.normalize('NFKC').toLowerCase().length === text.length;
+
+  if (positionsReliable) {
+    for (const token of tokenize(text)) {
+      if (!termSet.has(token.term)) continue;
+
+      const last = ranges[ranges.length - 1];
+      if (last && token.start <= last.end) {
+        last.end = Math.max(last.end, token.end);
+      } else {
+        ranges.push({ start: token.start, end: token.end });
+      }
+    }
+  }
+
+  if (ranges.length === 0) {
+    const head = text.slice(0, maxLength);
+    return [{ text: head + (text.length > maxLength ? '…' : ''), highlight: false }];
+  }
+
+  // 找出包含最多命中区间的窗口
+  let bestStart = ranges[0].start;
+  let bestCount = 0;
+  ranges.forEach(range => {
+    const count = ranges.filter(r => r.start >= range.start && r.end <= range.start + maxLength).length;
+    if (count > bestCount) {
+      bestCount = count;
+      bestStart = range.start;
+    }
+  });
+
+  const windowStart = Math.max(0, bestStart - Math.floor(maxLength / 4));
+  const windowEnd = Math.min(text.length, windowStart + maxLength);
+  const segments: SearchSnippetSegment[] = [];
+  let cursor = windowStart;
+
+  ranges
+    .filter(range => range.start >= windowStart && range.end <= windowEnd)
+    .forEach(range => {
+      if (range.start > cursor) {
+        segments.push({ text: text.slice(cursor, range.start), highlight: false });
+      }
+      segments.push({ text: text.slice(range.start, range.end), highlight: true });
+      cursor = range.end;
+    });
+
+  if (cursor < windowEnd) {
+    segments.push({ text: text.slice(cursor, windowEnd), highlight: false });
+  }
+
+  if (windowStart > 0) {
+    segments.unshift({ text: '…', highlight: false });
+  }
+  if (windowEnd < text.length) {
+    segments.push({ text: '…', highlight: false });
+  }
+
+  return segments;
+};
@@ -35,6 +35,37 @@ export interface UserSettings {
   updatedAt?: string;
 }
 
+// W3C Web Annotation 风格的文本定位器：引用原文及上下文
+export interface TextQuoteSelector {
+  type: 'TextQuoteSelector';
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+// 在正文纯文本中的字符偏移
+export interface TextPositionSelector {
+  type: 'TextPositionSelector';
+  start: number;
+  end: number;
+}
+
+export type HighlightSelector = TextQuoteSelector | TextPositionSelector;
+
+export interface HighlightData {
+  id?: string;
+  userId?: string;
+  url: string;
+  title?: string;
+  text: string;
+  selectors: HighlightSelector[];
+  note?: string;
+  color?: string;
+  timestamp: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface DatabaseFormTemplateData {
   id?: string;
   userId?: string;
@@ -98,3 +129,46 @@ export interface SyncStatus {
   lastSync?: Date;
   lastError?: string;
 }
+
+export type SearchDocumentType = 'capture' | 'text_processing';
+
+export interface SearchIndexEntry {
+  term: string;
+  // 文档键 -> 词频
+  postings: Record<string, number>;
+}
+
+export interface SearchIndexDocument {
+  key: string;
+  type: SearchDocumentType;
+  refId: string;
+  length: number;
+  terms: string[];
+}
+
+// 索引文档总数和总词数，随索引增量更新，用于 BM25 的 IDF 和平均文档长度
+export interface SearchCorpusStats {
+  key: string;
+  documentCount: number;
+  totalLength: number;
+}
+
+export interface SearchOptions {
+  types?: SearchDocumentType[];
+  userId?: string;
+  limit?: number;
+}
+
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  type: SearchDocumentType;
+  id: string;
+  score: number;
+  title: string;
+  snippet: SearchSnippetSegment[];
+  item: CaptureData | TextProcessingData;
+}
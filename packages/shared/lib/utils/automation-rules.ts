@@ -0,0 +1,40 @@
+import type { AutomationRule, AutomationTriggerType } from '@extension/storage';
+
+// 通配符转正则：* 匹配任意字符，? 匹配单个字符
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .trim()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * 判断 URL 是否匹配规则的触发条件，无效的正则视为不匹配。
+ */
+export const matchesUrlPattern = (url: string, triggerType: AutomationTriggerType, pattern: string): boolean => {
+  if (!url || !pattern.trim()) return false;
+
+  try {
+    return triggerType === 'regex' ? new RegExp(pattern).test(url) : globToRegExp(pattern).test(url);
+  } catch {
+    return false;
+  }
+};
+
+export const isValidUrlPattern = (triggerType: AutomationTriggerType, pattern: string): boolean => {
+  if (!pattern.trim()) return false;
+  if (triggerType === 'glob') return true;
+
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 获取当前 URL 下启用且匹配的规则
+export const getMatchingAutomationRules = (rules: AutomationRule[], url: string): AutomationRule[] =>
+  rules.filter(rule => rule.enabled && matchesUrlPattern(url, rule.triggerType, rule.pattern));
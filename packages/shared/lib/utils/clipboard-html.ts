@@ -0,0 +1,62 @@
+import { escapeHtml } from '../exporters/export-utils.js';
+
+// 复制格式输出的 Markdown 片段转为剪贴板 HTML，粘贴到文档编辑器时链接、加粗等保留格式
+
+// 行内语法：代码、图片、链接、<自动链接>、加粗、裸网址
+const INLINE_PATTERN =
+  /`([^`\n]+)`|!\[((?:\\.|[^\]\\\n])*)\]\(([^)\s]+)\)|\[((?:\\.|[^\]\\\n])+)\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>|\*\*([^*\n]+)\*\*|(https?:\/\/[^\s<>()]+)/g;
+const MARKDOWN_ESCAPE = /\\([\\`*_[\]()#|<>~!+\-.])/g;
+
+const renderText = (text: string): string => escapeHtml(text.replace(MARKDOWN_ESCAPE, '$1'));
+
+const renderInline = (line: string): string => {
+  let html = '';
+  let lastIndex = 0;
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    html += renderText(line.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, code, alt, src, linkText, href, autoLink, bold, bareUrl] = match;
+    if (code !== undefined) {
+      html += `<code>${escapeHtml(code)}</code>`;
+    } else if (src !== undefined) {
+      html += `<img src="${escapeHtml(src)}" alt="${renderText(alt)}">`;
+    } else if (href !== undefined) {
+      html += `<a href="${escapeHtml(href)}">${renderInline(linkText)}</a>`;
+    } else if (bold !== undefined) {
+      html += `<strong>${renderInline(bold)}</strong>`;
+    } else {
+      const url = autoLink || bareUrl;
+      html += `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`;
+    }
+  }
+
+  return html + renderText(line.slice(lastIndex));
+};
+
+/**
+ * 将简短的 Markdown（如复制格式的输出）转为 HTML：支持链接、图片、加粗、行内代码和引用，其余按行换行。
+ */
+export const markdownSnippetToHtml = (markdown: string): string => {
+  const blocks: string[] = [];
+  let quote: string[] = [];
+
+  const flushQuote = () => {
+    if (quote.length) blocks.push(`<blockquote>${quote.join('<br>')}</blockquote>`);
+    quote = [];
+  };
+
+  markdown.split('\n').forEach(line => {
+    const quoted = line.match(/^\s*>\s?(.*)$/);
+    if (quoted) {
+      quote.push(renderInline(quoted[1]));
+      return;
+    }
+    flushQuote();
+    blocks.push(renderInline(line));
+  });
+  flushQuote();
+
+  return blocks.join('<br>');
+};
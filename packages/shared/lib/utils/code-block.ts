@@ -0,0 +1,235 @@
+// 代码块清理：识别语言，去掉行号和工具栏，统一为 <pre><code class="language-xxx">
+
+// 代码块及常见的高亮器外层容器（Prism 工具栏、Hexo、Hugo、Jekyll、GitHub、Pandoc）
+const CODE_BLOCK_SELECTOR = [
+  'pre',
+  '.code-toolbar',
+  'figure.highlight',
+  'div.highlight',
+  'div.codehilite',
+  'div.highlighter-rouge',
+  'div.sourceCode',
+  'div[class*="highlight-source-"]',
+  'div[class*="highlight-text-"]',
+].join(', ');
+
+// 行号
+const LINE_NUMBER_SELECTOR = [
+  '.line-numbers-rows',
+  '.linenos',
+  '.lineno',
+  '.linenodiv',
+  '.gutter',
+  '.hljs-ln-numbers',
+  '.pre-numbering',
+  '.line-number',
+  '.code-line-number',
+  '.react-line-number',
+  '[data-line-number]',
+].join(', ');
+
+// 复制按钮、语言标签、文件名等工具栏
+const TOOLBAR_SELECTOR = [
+  'button',
+  'clipboard-copy',
+  'figcaption',
+  '.toolbar',
+  '.copy-code-button',
+  '.copy-code-btn',
+  '.copy-btn',
+  '.code-copy',
+  '.hljs-copy',
+  '.hljs-button',
+  '.clipboard-copy',
+  '.zeroclipboard-container',
+  '.code-header',
+  '.code-block-extension-header',
+].join(', ');
+
+// 每行单独一个元素的编辑器式渲染（CodeMirror、Monaco、hljs 行号表格等）
+const CODE_LINE_SELECTOR = 'tr, li, .line, .code-line, .cm-line, .view-line, .ace_line';
+
+// 不表示语言的类名和标记
+const NON_LANGUAGE_CLASSES = new Set([
+  'hljs',
+  'highlight',
+  'code',
+  'prettyprint',
+  'line-numbers',
+  'linenums',
+  'notranslate',
+  'sourcecode',
+  'copyable',
+  'wrap',
+]);
+const PLAIN_LANGUAGES = new Set(['none', 'text', 'plain', 'plaintext', 'nohighlight', 'txt']);
+
+// 类名中的语言：language-*、lang-*、GitHub highlight-source-*
+const LANGUAGE_CLASS_PATTERNS = [/^(?:language|lang)-([\w+#.-]+)$/i, /^highlight-(?:source|text)-([\w+#]+)/i];
+
+// 按内容猜测语言：按顺序匹配，越具体的越靠前
+const LANGUAGE_HEURISTICS: { language: string; pattern: RegExp }[] = [
+  { language: 'php', pattern: /^<\?php/ },
+  { language: 'xml', pattern: /^<\?xml/ },
+  {
+    language: 'html',
+    pattern: /^<(?:!doctype|html|head|body|div|span|template|script|a|p|ul|section)\b[\s\S]*<\/\w+>/i,
+  },
+  { language: 'cpp', pattern: /#include\s*<[\w.]+>[\s\S]*(?:std::|cout|template\s*<)/ },
+  { language: 'c', pattern: /#include\s*[<"][\w./]+[>"]/ },
+  { language: 'go', pattern: /^package \w+$|\bfunc (?:\(\w+ \*?\w+\) )?\w+\(|:= /m },
+  { language: 'rust', pattern: /\bfn \w+\(|\blet mut \b|\bprintln!\(|\bimpl\b.*\{/ },
+  { language: 'java', pattern: /\b(?:public|private|protected) (?:static )?(?:final )?(?:class|void|int|String)\b/ },
+  {
+    language: 'python',
+    pattern: /^\s*(?:def \w+\(.*\):|class \w+(?:\(.*\))?:|from [\w.]+ import |import \w+$|if __name__ ==)/m,
+  },
+  { language: 'typescript', pattern: /\b(?:interface \w+|type \w+ =|\w+\??: (?:string|number|boolean)\b)|<\w+>\(/ },
+  {
+    language: 'javascript',
+    pattern: /\b(?:const|let|var) \w+ =|\bfunction\s*\w*\(|=>|console\.log\(|\brequire\(|^import .+ from ['"]/m,
+  },
+  {
+    language: 'sql',
+    pattern: /^\s*(?:SELECT\s[\s\S]+\sFROM|INSERT INTO|UPDATE \w+ SET|CREATE (?:TABLE|INDEX|VIEW)|DELETE FROM)\b/im,
+  },
+  {
+    language: 'bash',
+    pattern:
+      /^\s*(?:\$ |#!\/bin\/(?:ba)?sh|(?:sudo|npm|pnpm|yarn|npx|pip3?|git|cd|apt(?:-get)?|brew|curl|wget|docker|chmod|mkdir) )/m,
+  },
+  { language: 'css', pattern: /^[\w.#:[\]*>~+ -]+\{\s*[\w-]+\s*:[^;{}]+;/m },
+];
+
+const matchesSelector = (element: Element, selector: string): boolean => {
+  try {
+    return element.matches(selector);
+  } catch {
+    return false;
+  }
+};
+
+const normalizeLanguage = (language: string): string => {
+  const normalized = language.toLowerCase().replace(/[;,]+$/, '');
+  return PLAIN_LANGUAGES.has(normalized) ? '' : normalized;
+};
+
+// 从单个元素的 data 属性和类名中读取语言，未声明时返回 null
+const getDeclaredLanguage = (element: Element): string | null => {
+  const attribute = element.getAttribute('data-lang') || element.getAttribute('data-language');
+  if (attribute) return normalizeLanguage(attribute);
+
+  // SyntaxHighlighter：class="brush: js;"
+  const brush = (element.getAttribute('class') || '').match(/\bbrush:\s*([\w+#-]+)/i);
+  if (brush) return normalizeLanguage(brush[1]);
+
+  const classes = Array.from(element.classList);
+  for (const className of classes) {
+    for (const pattern of LANGUAGE_CLASS_PATTERNS) {
+      const match = className.match(pattern);
+      if (match) return normalizeLanguage(match[1]);
+    }
+  }
+
+  // 旧版 highlight.js 和 Hexo 直接把语言作为类名：class="hljs python"、<figure class="highlight python">
+  if (classes.includes('hljs') || (element.nodeName === 'FIGURE' && classes.includes('highlight'))) {
+    const language = classes.find(className => !NON_LANGUAGE_CLASSES.has(className) && /^[\w+#]+$/.test(className));
+    if (language) return normalizeLanguage(language);
+  }
+
+  return null;
+};
+
+// 提取代码文本：<br> 转换行；每行一个元素且文本中没有换行时按行拼接
+const extractCodeText = (block: Element): string => {
+  const clone = block.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+
+  const text = clone.textContent || '';
+  const lines = Array.from(clone.querySelectorAll(CODE_LINE_SELECTOR)).filter(
+    line => !line.querySelector(CODE_LINE_SELECTOR),
+  );
+  const code =
+    lines.length > 1 && text.split('\n').length < lines.length
+      ? lines.map(line => (line.textContent || '').replace(/\n$/, '')).join('\n')
+      : text;
+
+  return code
+    .replace(/\u00a0/g, ' ')
+    .replace(/[\u200b\ufeff]/g, '')
+    .replace(/^(?:[ \t]*\n)+|\s+$/g, '');
+};
+
+// 代码块的最外层：嵌套在其他代码块中的元素由外层统一处理
+const findCodeBlocks = (root: Element): Element[] => {
+  if (matchesSelector(root, CODE_BLOCK_SELECTOR)) return [root];
+
+  return Array.from(root.querySelectorAll(CODE_BLOCK_SELECTOR)).filter(block => {
+    const outer = block.parentElement?.closest(CODE_BLOCK_SELECTOR);
+    return !outer || !root.contains(outer);
+  });
+};
+
+/**
+ * 根据代码内容粗略推断语言，无法判断时返回空字符串。
+ */
+export const guessCodeLanguage = (code: string): string => {
+  const trimmed = code.trim();
+  if (!trimmed) return '';
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // 不是 JSON，继续按其他规则判断
+    }
+  }
+
+  return LANGUAGE_HEURISTICS.find(({ pattern }) => pattern.test(trimmed))?.language || '';
+};
+
+/**
+ * 从代码块及其中 pre / code 的类名和 data 属性识别语言，未声明时按内容推断。
+ */
+export const detectCodeLanguage = (block: Element, code = block.textContent || ''): string => {
+  const candidates = [block, ...Array.from(block.querySelectorAll('pre, code'))];
+  for (const candidate of candidates) {
+    const language = getDeclaredLanguage(candidate);
+    if (language !== null) return language;
+  }
+
+  return guessCodeLanguage(code);
+};
+
+/**
+ * 在转换前统一代码块结构：识别语言，去掉行号、复制按钮等，替换为 <pre><code class="language-xxx">。
+ */
+export const normalizeCodeBlocks = (root: Element): void => {
+  findCodeBlocks(root).forEach(block => {
+    // 只有工具栏没有代码的容器不处理
+    if (block.nodeName !== 'PRE' && !block.querySelector('pre')) return;
+
+    block.querySelectorAll(LINE_NUMBER_SELECTOR).forEach(el => el.remove());
+    block.querySelectorAll(TOOLBAR_SELECTOR).forEach(el => el.remove());
+
+    const code = extractCodeText(block);
+    const language = detectCodeLanguage(block, code);
+
+    const doc = block.ownerDocument;
+    const codeElement = doc.createElement('code');
+    codeElement.textContent = code;
+    if (language) codeElement.className = `language-${language}`;
+    const pre = doc.createElement('pre');
+    pre.appendChild(codeElement);
+
+    // 根节点本身是代码块时没有父节点，原地替换内容
+    if (block !== root) {
+      block.replaceWith(pre);
+    } else if (block.nodeName === 'PRE') {
+      block.replaceChildren(codeElement);
+    } else {
+      block.replaceChildren(pre);
+    }
+  });
+};
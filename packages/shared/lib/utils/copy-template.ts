@@ -0,0 +1,220 @@
+import { formatFrontmatterDate } from './frontmatter.js';
+
+// 复制格式模板：{变量|过滤器:参数}，{#if 变量}...{else}...{/if}
+
+interface TemplateFilterCall {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; raw: string; name: string; filters: TemplateFilterCall[] }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface ConditionFrame {
+  node: Extract<TemplateNode, { type: 'if' }>;
+  target: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{([^{}\n]+)\}/g;
+const IF_PATTERN = /^#if\s+(!?)\s*([\w:.-]+)$/;
+const MARKDOWN_SPECIAL_CHARACTERS = /[\\`*_[\]()#|<>~!]/g;
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+const toSlug = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+const truncate = (value: string, arg?: string): string => {
+  const length = Number.parseInt(arg || '', 10);
+  const characters = Array.from(value);
+  if (!length || characters.length <= length) return value;
+  return `${characters.slice(0, length).join('').trimEnd()}…`;
+};
+
+const FILTERS: Record<string, (value: string, arg?: string) => string> = {
+  slug: value => toSlug(value),
+  lower: value => value.toLowerCase(),
+  upper: value => value.toUpperCase(),
+  trim: value => value.trim(),
+  truncate,
+  escape_md: value => value.replace(MARKDOWN_SPECIAL_CHARACTERS, '\\$&'),
+  encode: value => encodeURIComponent(value),
+  default: (value, arg) => (value.trim() ? value : arg || ''),
+};
+
+// 解析变量值，未知变量返回 undefined（原样保留）
+const resolveVariable = (name: string, context: CopyTemplateContext): string | undefined => {
+  const meta = context.meta || {};
+  const date = context.date || new Date();
+
+  switch (name) {
+    case 'title':
+      return context.title;
+    case 'url':
+      return context.url;
+    case 'hostname':
+      return getHostname(context.url);
+    case 'selection':
+      return context.selection || '';
+    case 'canonical':
+      return context.canonical || context.url;
+    case 'date':
+      return formatFrontmatterDate(date, 'YYYY-MM-DD');
+    case 'time':
+      return formatFrontmatterDate(date, 'HH:mm');
+  }
+
+  // {meta:description} 读取任意 meta；{og:image}、{twitter:card} 等直接按 property 读取
+  if (name.startsWith('meta:')) return meta[name.slice(5).toLowerCase()] || '';
+  if (/^[a-z]+:[\w:.-]+$/i.test(name)) return meta[name.toLowerCase()] || '';
+  return undefined;
+};
+
+const parseVariable = (raw: string, expression: string): TemplateNode => {
+  const [name, ...filterExpressions] = expression.split('|').map(part => part.trim());
+  const filters = filterExpressions.map(filter => {
+    const separator = filter.indexOf(':');
+    return separator === -1
+      ? { name: filter }
+      : { name: filter.slice(0, separator).trim(), arg: filter.slice(separator + 1) };
+  });
+  return { type: 'variable', raw, name, filters };
+};
+
+const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: ConditionFrame[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const expression = match[1].trim();
+    const condition = expression.match(IF_PATTERN);
+    if (condition) {
+      const node: ConditionFrame['node'] = {
+        type: 'if',
+        name: condition[2],
+        negate: condition[1] === '!',
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (expression === 'else' && stack.length) {
+      const frame = stack[stack.length - 1];
+      frame.target = frame.node.otherwise;
+    } else if (expression === '/if' && stack.length) {
+      stack.pop();
+    } else {
+      current().push(parseVariable(match[0], expression));
+    }
+  }
+
+  // 剩余文本；未闭合的 {#if} 视为在末尾闭合
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  return root;
+};
+
+const renderNodes = (nodes: TemplateNode[], context: CopyTemplateContext): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.value;
+
+      if (node.type === 'if') {
+        const value = resolveVariable(node.name, context) || '';
+        const matched = Boolean(value.trim()) !== node.negate;
+        return renderNodes(matched ? node.then : node.otherwise, context);
+      }
+
+      const value = resolveVariable(node.name, context);
+      if (value === undefined) return node.raw;
+      return node.filters.reduce((result, filter) => {
+        const apply = FILTERS[filter.name];
+        return apply ? apply(result, filter.arg) : result;
+      }, value);
+    })
+    .join('');
+
+// 由内容脚本读取的页面信息
+export interface PageMetadata {
+  selection: string;
+  canonical: string;
+  // meta 标签内容，键为 name / property / itemprop（小写），如 description、og:image
+  meta: Record<string, string>;
+}
+
+export interface CopyTemplateContext extends Partial<PageMetadata> {
+  title: string;
+  url: string;
+  date?: Date;
+}
+
+/**
+ * 渲染复制格式模板。未知变量原样保留，未知过滤器忽略。
+ */
+export const renderCopyTemplate = (template: string, context: CopyTemplateContext): string =>
+  renderNodes(parseTemplate(template), context);
+
+/**
+ * 在页面中读取选中文本、规范链接和 meta 标签，供模板变量使用。
+ */
+export const collectPageMetadata = (doc: Document = document): PageMetadata => {
+  const meta: Record<string, string> = {};
+  doc.querySelectorAll('meta[content]').forEach(element => {
+    const key = element.getAttribute('name') || element.getAttribute('property') || element.getAttribute('itemprop');
+    const content = element.getAttribute('content')?.trim();
+    if (key && content && !(key.toLowerCase() in meta)) {
+      meta[key.toLowerCase()] = content;
+    }
+  });
+
+  const canonical = doc.querySelector<HTMLLinkElement>('link[rel="canonical"][href]');
+  return {
+    selection: doc.defaultView?.getSelection()?.toString().trim() || '',
+    canonical: canonical?.href || '',
+    meta,
+  };
+};
+
+// 模板帮助中展示的变量和过滤器
+export const COPY_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: '{title}', description: '页面标题' },
+  { name: '{url}', description: '页面网址' },
+  { name: '{hostname}', description: '域名' },
+  { name: '{selection}', description: '页面中选中的文本' },
+  { name: '{canonical}', description: '规范链接，没有时为页面网址' },
+  { name: '{date}', description: '当前日期 YYYY-MM-DD' },
+  { name: '{time}', description: '当前时间 HH:mm' },
+  { name: '{meta:description}', description: '任意 meta 标签内容' },
+  { name: '{og:image}', description: 'Open Graph 等 property 标签' },
+];
+
+export const COPY_TEMPLATE_FILTERS: { name: string; description: string }[] = [
+  { name: '|slug', description: '转为短横线连接的小写' },
+  { name: '|lower', description: '转小写' },
+  { name: '|upper', description: '转大写' },
+  { name: '|trim', description: '去掉首尾空白' },
+  { name: '|truncate:40', description: '截断到指定字数' },
+  { name: '|escape_md', description: '转义 Markdown 符号' },
+  { name: '|encode', description: 'URL 编码' },
+  { name: '|default:文本', description: '值为空时使用默认文本' },
+];
@@ -0,0 +1,216 @@
+// 跨越开放 shadow root 和同源 iframe 的 DOM 遍历工具
+
+// iframe 中的节点属于另一个 realm，instanceof 不可靠，统一用 nodeType 判断
+const isElementNode = (node: unknown): node is Element => !!node && (node as Node).nodeType === Node.ELEMENT_NODE;
+
+const isShadowRoot = (node: unknown): node is ShadowRoot =>
+  !!node && (node as Node).nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in (node as ShadowRoot);
+
+const isFrameElement = (element: Element): element is HTMLIFrameElement | HTMLFrameElement =>
+  element.tagName === 'IFRAME' || element.tagName === 'FRAME';
+
+// 可在其中查询元素的根：文档或开放的 shadow root
+export type QueryRoot = Document | ShadowRoot;
+
+/**
+ * 获取同源 iframe 的文档，跨域或未加载时返回 null。
+ */
+export const getFrameDocument = (element: Element): Document | null => {
+  if (!isFrameElement(element)) return null;
+
+  try {
+    return element.contentDocument;
+  } catch {
+    return null;
+  }
+};
+
+// 事件的真实目标：composedPath 可穿透开放的 shadow root，避免被重定向到宿主元素
+export const getDeepEventTarget = (event: Event): Element | null => {
+  const [target] = event.composedPath();
+  return isElementNode(target) ? target : (event.target as Element | null);
+};
+
+/**
+ * 跨越 shadow root 和 iframe 的父元素：shadow root 顶层返回宿主，iframe 文档根返回 iframe 元素。
+ */
+export const getComposedParent = (element: Element): Element | null => {
+  if (element.parentElement) return element.parentElement;
+
+  const parent = element.parentNode;
+  if (isShadowRoot(parent)) return parent.host;
+
+  // iframe 内的 html 元素
+  if (parent && parent.nodeType === Node.DOCUMENT_NODE) {
+    try {
+      return (parent as Document).defaultView?.frameElement || null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 跨越边界的第一个子元素：优先进入开放的 shadow root 或同源 iframe 的正文。
+ */
+export const getComposedFirstChild = (element: Element): Element | null => {
+  if (element.shadowRoot?.firstElementChild) return element.shadowRoot.firstElementChild;
+
+  const frameDocument = getFrameDocument(element);
+  if (frameDocument) return frameDocument.body?.firstElementChild || null;
+
+  return element.firstElementChild;
+};
+
+// 文档的 html 或 body 元素（包括 iframe 中的文档），不作为选择目标
+export const isDocumentRootElement = (element: Element): boolean =>
+  element === element.ownerDocument.body || element === element.ownerDocument.documentElement;
+
+// 跨越边界判断包含关系
+export const containsComposed = (ancestor: Element, element: Element): boolean => {
+  let current: Element | null = element;
+  while (current) {
+    if (current === ancestor) return true;
+    current = getComposedParent(current);
+  }
+  return false;
+};
+
+/**
+ * 在根及其所有开放 shadow root、同源 iframe 中查询元素。
+ */
+export const querySelectorAllDeep = (root: QueryRoot, selector: string): Element[] => {
+  const results: Element[] = Array.from(root.querySelectorAll(selector));
+
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot) {
+      results.push(...querySelectorAllDeep(element.shadowRoot, selector));
+    }
+
+    const frameDocument = getFrameDocument(element);
+    if (frameDocument) {
+      results.push(...querySelectorAllDeep(frameDocument, selector));
+    }
+  });
+
+  return results;
+};
+
+// 当前文档及所有可访问的同源 iframe 文档（包括 shadow root 内的 iframe）
+export const getAccessibleDocuments = (root: Document = document): Document[] => [
+  root,
+  ...querySelectorAllDeep(root, 'iframe, frame')
+    .map(getFrameDocument)
+    .filter((doc): doc is Document => !!doc && !!doc.documentElement),
+];
+
+/**
+ * 元素在每一层根中的代表节点，从内到外：[元素, shadow 宿主或 iframe, ...]，最后一个位于顶层文档。
+ */
+export const getRootChain = (element: Element): Element[] => {
+  const chain: Element[] = [element];
+  let current: Element = element;
+
+  while (true) {
+    const root = current.getRootNode();
+    let next: Element | null = null;
+
+    if (isShadowRoot(root)) {
+      next = root.host;
+    } else if (root.nodeType === Node.DOCUMENT_NODE) {
+      try {
+        next = (root as Document).defaultView?.frameElement || null;
+      } catch {
+        next = null;
+      }
+    }
+
+    if (!next) return chain;
+    chain.push(next);
+    current = next;
+  }
+};
+
+/**
+ * 跨越边界比较文档顺序：a 在 b 之前返回负数。
+ */
+export const compareComposedPosition = (a: Element, b: Element): number => {
+  const chainA = getRootChain(a).reverse();
+  const chainB = getRootChain(b).reverse();
+
+  for (let i = 0; i < Math.min(chainA.length, chainB.length); i++) {
+    if (chainA[i] === chainB[i]) continue;
+    // 两个节点位于同一棵树中，可直接比较
+    if (chainA[i].contains(chainB[i])) return -1;
+    if (chainB[i].contains(chainA[i])) return 1;
+    return chainA[i].compareDocumentPosition(chainB[i]) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  }
+
+  // 一方是另一方的宿主（或 iframe），外层元素在前
+  return chainA.length - chainB.length;
+};
+
+// 元素相对顶层视口的位置（累加各级 iframe 的偏移）
+export const getTopLevelRect = (element: Element): { top: number; left: number; width: number; height: number } => {
+  const rect = element.getBoundingClientRect();
+  let top = rect.top;
+  let left = rect.left;
+
+  let frame: Element | null = null;
+  try {
+    frame = element.ownerDocument.defaultView?.frameElement || null;
+  } catch {
+    frame = null;
+  }
+
+  while (frame) {
+    const frameRect = frame.getBoundingClientRect();
+    top += frameRect.top + frame.clientTop;
+    left += frameRect.left + frame.clientLeft;
+    try {
+      frame = frame.ownerDocument.defaultView?.frameElement || null;
+    } catch {
+      frame = null;
+    }
+  }
+
+  return { top, left, width: rect.width, height: rect.height };
+};
+
+/**
+ * 克隆元素并展开开放的 shadow root（按 slot 分配填入 light DOM）和同源 iframe 的内容，
+ * cloneNode 不会复制这两类内容。
+ */
+export const cloneComposed = (node: Node): Node => {
+  if (!isElementNode(node)) return node.cloneNode(false);
+
+  // slot 替换为分配到的节点，没有分配时使用默认内容
+  if (node.tagName === 'SLOT') {
+    const fragment = node.ownerDocument.createDocumentFragment();
+    const assigned = (node as HTMLSlotElement).assignedNodes({ flatten: true });
+    (assigned.length > 0 ? assigned : Array.from(node.childNodes)).forEach(child =>
+      fragment.appendChild(cloneComposed(child)),
+    );
+    return fragment;
+  }
+
+  const frameDocument = getFrameDocument(node);
+  if (frameDocument?.body) {
+    const wrapper = node.ownerDocument.createElement('div');
+    frameDocument.body.childNodes.forEach(child => wrapper.appendChild(cloneComposed(child)));
+    return wrapper;
+  }
+
+  const clone = node.cloneNode(false) as Element;
+  const source = node.shadowRoot || node;
+  source.childNodes.forEach(child => clone.appendChild(cloneComposed(child)));
+
+  // template 的内容位于 content 片段中
+  if (node.tagName === 'TEMPLATE') {
+    (clone as HTMLTemplateElement).content.appendChild((node as HTMLTemplateElement).content.cloneNode(true));
+  }
+
+  return clone;
+};
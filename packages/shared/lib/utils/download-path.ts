@@ -0,0 +1,104 @@
+import { formatFrontmatterDate } from './frontmatter.js';
+import type { DownloadRoutingRule, DownloadSettings } from '@extension/storage';
+
+// 各系统文件名中不允许的字符
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\p{Cc}]/gu;
+// Obsidian / Logseq 的链接语法字符，出现在文件名中会导致无法链接
+const LINK_CHARACTERS = /[#^[\]]/g;
+const WINDOWS_RESERVED_NAMES = /^(?:con|prn|aux|nul|com\d|lpt\d)(?:\..*)?$/i;
+const MAX_SEGMENT_LENGTH = 120;
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// 生成文件名所需的文档信息
+export interface DownloadFileContext {
+  title: string;
+  slug: string;
+  url: string;
+  tags: string[];
+  date?: Date;
+}
+
+/**
+ * 清理单个文件名或文件夹名：替换非法字符，去掉首尾的点和空格，避开 Windows 保留名。
+ */
+export const sanitizeFilename = (name: string): string => {
+  const cleaned = name
+    .replace(ILLEGAL_CHARACTERS, '-')
+    .replace(LINK_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .replace(/-{2,}/g, '-')
+    .slice(0, MAX_SEGMENT_LENGTH)
+    .replace(/^[\s.-]+|[\s.]+$/g, '');
+
+  return WINDOWS_RESERVED_NAMES.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+// 清理以 / 分隔的相对路径，去掉空段和 . / ..
+export const sanitizePath = (path: string): string =>
+  path
+    .split(/[/\\]+/)
+    .map(segment => sanitizeFilename(segment.trim()))
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+
+/**
+ * 按模板生成不含扩展名的相对路径。占位符的值各自清理，模板中的 / 用于创建文件夹。
+ */
+export const renderFilenameTemplate = (template: string, context: DownloadFileContext): string => {
+  const date = context.date || new Date();
+  const values: Record<string, string> = {
+    slug: context.slug,
+    title: context.title,
+    hostname: getHostname(context.url),
+    tag: context.tags[0] || '',
+    date: formatFrontmatterDate(date, 'YYYY-MM-DD'),
+    time: formatFrontmatterDate(date, 'HH-mm-ss'),
+    year: formatFrontmatterDate(date, 'YYYY'),
+    month: formatFrontmatterDate(date, 'MM'),
+    day: formatFrontmatterDate(date, 'DD'),
+  };
+
+  const rendered = template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? sanitizeFilename(values[name]) : match,
+  );
+  return sanitizePath(rendered);
+};
+
+// 第一条匹配的路由规则决定子文件夹：域名规则同时匹配子域名，标签规则忽略大小写和开头的 #
+export const resolveRoutingFolder = (rules: DownloadRoutingRule[], context: DownloadFileContext): string => {
+  const hostname = getHostname(context.url);
+  const tags = context.tags.map(tag => tag.replace(/^#/, '').toLowerCase());
+
+  const rule = rules.find(item => {
+    const pattern = item.pattern.trim().replace(/^#/, '').toLowerCase();
+    if (!item.enabled || !pattern) return false;
+    return item.type === 'hostname'
+      ? hostname === pattern.replace(/^www\./, '') || hostname.endsWith(`.${pattern}`)
+      : tags.includes(pattern);
+  });
+
+  return rule ? sanitizePath(rule.folder) : '';
+};
+
+/**
+ * 按下载设置生成文件的相对路径：路由文件夹 + 文件名模板 + 扩展名。
+ */
+export const buildDownloadFilename = (
+  settings: Pick<DownloadSettings, 'filenameTemplate' | 'routingRules'>,
+  context: DownloadFileContext,
+  extension: string,
+): string => {
+  const name =
+    renderFilenameTemplate(settings.filenameTemplate || '{slug}', context) ||
+    sanitizeFilename(context.slug) ||
+    'untitled';
+  const folder = resolveRoutingFolder(settings.routingRules || [], context);
+  return [folder, `${name}.${extension}`].filter(Boolean).join('/');
+};
@@ -1,17 +1,57 @@
+import {
+  compareComposedPosition,
+  containsComposed,
+  getAccessibleDocuments,
+  getComposedFirstChild,
+  getComposedParent,
+  getDeepEventTarget,
+  getTopLevelRect,
+  isDocumentRootElement,
+  querySelectorAllDeep,
+} from './deep-dom.js';
 import { MarkdownConverter } from './markdown-converter.js';
+import { absolutizeUrls, fetchPageDocument, findNextPageUrl } from './pagination.js';
+import { ReadabilityExtractor } from './readability-extractor.js';
+import { generateStableSelectors, resolveSelectorWithFallbacks } from './selector-generator.js';
+import type {
+  FrontmatterTemplate,
+  LinkHandlingSettings,
+  TurndownRulesSettings,
+  UrlCleaningSettings,
+} from '@extension/storage';
 
 export interface ElementSelectionResult {
   html: string;
   markdown: string;
+  // 标题、slug、来源地址和标签取自转换器，不依赖 frontmatter 的格式和字段名
+  title: string;
   slug: string;
+  url: string;
+  tags: string[];
   element: Element;
+  // 多选时按文档顺序排列的全部元素
+  elements: Element[];
   domPath: string;
+  // 主路径失效时依次尝试的备用选择器（最后一个为 XPath）
+  fallbackPaths: string[];
 }
 
 export interface SitePreset {
   patterns: string[];
   selectors: string[];
   priority?: number;
+  nextPageSelector?: string;
+}
+
+// 智能选择策略：heuristic 为预设+内容评分，readability 为仿 Readability 的正文提取
+export type SmartSelectStrategy = 'heuristic' | 'readability';
+
+export interface StrategyCandidate {
+  strategy: SmartSelectStrategy;
+  domPath: string;
+  tagName: string;
+  textLength: number;
+  preview: string;
 }
 
 export interface ElementSelectorOptions {
@@ -20,6 +60,10 @@ export interface ElementSelectorOptions {
   highlightColor?: string;
   highlightOpacity?: number;
   sitePresets?: SitePreset[];
+  frontmatterTemplate?: FrontmatterTemplate;
+  turndownRules?: TurndownRulesSettings;
+  linkHandling?: LinkHandlingSettings;
+  urlCleaning?: UrlCleaningSettings;
 }
 
 export class ElementSelector {
@@ -28,6 +72,13 @@ export class ElementSelector {
   private isNavigatingMode = false;
   private markdownUpdateTimer: NodeJS.Timeout | null = null;
   private originalStyles = new Map<Element, { outline: string; backgroundColor: string }>();
+  // 多选集合（Shift+点击或导航模式下按 A 键加入）
+  private multiSelectedElements: Element[] = [];
+  private multiSelectStyles = new Map<Element, { outline: string; backgroundColor: string }>();
+  private selectionBadges: HTMLElement[] = [];
+  // Readability 策略选中的元素及其清理后的正文
+  private readabilityArticle: { element: Element; article: Element } | null = null;
+  private readabilityExtractor = new ReadabilityExtractor();
   // 记录父节点最后访问的子节点，用于导航时返回原位置
   private lastVisitedChild = new WeakMap<Element, Element>();
 
@@ -36,6 +87,8 @@ export class ElementSelector {
   private clickHandler?: (e: MouseEvent) => void;
   private keyDownHandler?: (e: KeyboardEvent) => void;
   private navigationKeyDownHandler?: (e: KeyboardEvent) => void;
+  // 注册了事件的文档：顶层文档及同源 iframe 文档
+  private eventDocuments: Document[] = [document];
 
   private markdownConverter: MarkdownConverter;
   private options: ElementSelectorOptions;
@@ -95,14 +148,22 @@ export class ElementSelector {
       sitePresets: mergedPresets,
     };
 
-    this.markdownConverter = new MarkdownConverter();
+    this.markdownConverter = new MarkdownConverter({
+      frontmatterTemplate: options.frontmatterTemplate,
+      turndownRules: options.turndownRules,
+      linkHandling: options.linkHandling,
+      urlCleaning: options.urlCleaning,
+    });
   }
 
   startSelection(): void {
     if (this.isSelecting) return;
 
     this.isSelecting = true;
-    document.body.style.cursor = 'crosshair';
+    this.eventDocuments = getAccessibleDocuments();
+    this.eventDocuments.forEach(doc => doc.body && (doc.body.style.cursor = 'crosshair'));
+    this.clearMultiSelection();
+    this.readabilityArticle = null;
 
     // 存储事件处理器的引用
     this.mouseOverHandler = this.handleMouseOver.bind(this);
@@ -110,13 +171,13 @@ export class ElementSelector {
     this.clickHandler = this.handleClick.bind(this);
     this.keyDownHandler = this.handleKeyDown.bind(this);
 
-    document.addEventListener('mouseover', this.mouseOverHandler);
-    document.addEventListener('mouseout', this.mouseOutHandler);
-    document.addEventListener('click', this.clickHandler);
-    document.addEventListener('keydown', this.keyDownHandler);
+    this.addDocumentListener('mouseover', this.mouseOverHandler);
+    this.addDocumentListener('mouseout', this.mouseOutHandler);
+    this.addDocumentListener('click', this.clickHandler);
+    this.addDocumentListener('keydown', this.keyDownHandler);
 
     if (this.options.showStatusMessages) {
-      this.showStatusMessage('鼠标悬停选择元素，点击确认，按ESC取消');
+      this.showStatusMessage('鼠标悬停选择元素，点击确认，Shift+点击多选，按ESC取消');
     }
   }
 
@@ -125,26 +186,27 @@ export class ElementSelector {
 
     this.isSelecting = false;
     this.isNavigatingMode = false;
-    document.body.style.cursor = '';
+    this.eventDocuments.forEach(doc => doc.body && (doc.body.style.cursor = ''));
 
     // 移除事件监听器
     if (this.mouseOverHandler) {
-      document.removeEventListener('mouseover', this.mouseOverHandler);
+      this.removeDocumentListener('mouseover', this.mouseOverHandler);
     }
     if (this.mouseOutHandler) {
-      document.removeEventListener('mouseout', this.mouseOutHandler);
+      this.removeDocumentListener('mouseout', this.mouseOutHandler);
     }
     if (this.clickHandler) {
-      document.removeEventListener('click', this.clickHandler);
+      this.removeDocumentListener('click', this.clickHandler);
     }
     if (this.keyDownHandler) {
-      document.removeEventListener('keydown', this.keyDownHandler);
+      this.removeDocumentListener('keydown', this.keyDownHandler);
     }
     if (this.navigationKeyDownHandler) {
-      document.removeEventListener('keydown', this.navigationKeyDownHandler);
+      this.removeDocumentListener('keydown', this.navigationKeyDownHandler);
     }
 
     this.removeHighlight();
+    this.removeMultiSelectionMarks();
     this.hideStatusMessage();
 
     if (this.markdownUpdateTimer) {
@@ -156,10 +218,11 @@ export class ElementSelector {
   exitNavigationMode(): void {
     this.isNavigatingMode = false;
     if (this.navigationKeyDownHandler) {
-      document.removeEventListener('keydown', this.navigationKeyDownHandler);
+      this.removeDocumentListener('keydown', this.navigationKeyDownHandler);
       this.navigationKeyDownHandler = undefined;
     }
     this.removeHighlight();
+    this.removeMultiSelectionMarks();
     this.hideStatusMessage();
 
     if (this.markdownUpdateTimer) {
@@ -168,14 +231,27 @@ export class ElementSelector {
     }
   }
 
+  // 在所有可访问的文档上注册事件，shadow root 内的事件会冒泡到所在文档
+  private addDocumentListener(type: string, handler: ((e: MouseEvent) => void) | ((e: KeyboardEvent) => void)): void {
+    this.eventDocuments.forEach(doc => doc.addEventListener(type, handler as EventListener));
+  }
+
+  private removeDocumentListener(
+    type: string,
+    handler: ((e: MouseEvent) => void) | ((e: KeyboardEvent) => void),
+  ): void {
+    this.eventDocuments.forEach(doc => doc.removeEventListener(type, handler as EventListener));
+  }
+
   private handleMouseOver(e: MouseEvent): void {
     if (!this.isSelecting) return;
 
     e.preventDefault();
     e.stopPropagation();
 
+    const target = getDeepEventTarget(e);
     this.removeHighlight();
-    this.highlightElement(e.target as Element);
+    if (target) this.highlightElement(target);
   }
 
   private handleMouseOut(e: MouseEvent): void {
@@ -191,7 +267,20 @@ export class ElementSelector {
     e.preventDefault();
     e.stopPropagation();
 
-    this.selectedElement = e.target as Element;
+    // 穿透开放的 shadow root 取得真实点击目标
+    const target = getDeepEventTarget(e);
+    if (!target) return;
+
+    // Shift+点击：加入/移出多选集合，继续选择
+    if (e.shiftKey) {
+      this.removeHighlight();
+      this.toggleMultiSelection(target);
+      this.highlightElement(target);
+      this.sendElementDataWithDebounce();
+      return;
+    }
+
+    this.selectedElement = target;
 
     if (this.options.enableNavigation) {
       this.enterNavigationMode();
@@ -207,6 +296,7 @@ export class ElementSelector {
     if (e.key === 'Escape') {
       e.preventDefault();
       this.stopSelection();
+      this.clearMultiSelection();
       this.onSelectionCancelled();
     }
   }
@@ -217,27 +307,27 @@ export class ElementSelector {
 
     // 移除悬停监听，添加导航监听
     if (this.mouseOverHandler) {
-      document.removeEventListener('mouseover', this.mouseOverHandler);
+      this.removeDocumentListener('mouseover', this.mouseOverHandler);
     }
     if (this.mouseOutHandler) {
-      document.removeEventListener('mouseout', this.mouseOutHandler);
+      this.removeDocumentListener('mouseout', this.mouseOutHandler);
     }
     if (this.clickHandler) {
-      document.removeEventListener('click', this.clickHandler);
+      this.removeDocumentListener('click', this.clickHandler);
     }
     if (this.keyDownHandler) {
-      document.removeEventListener('keydown', this.keyDownHandler);
+      this.removeDocumentListener('keydown', this.keyDownHandler);
     }
 
     this.navigationKeyDownHandler = this.handleNavigationKeyDown.bind(this);
-    document.addEventListener('keydown', this.navigationKeyDownHandler);
+    this.addDocumentListener('keydown', this.navigationKeyDownHandler);
 
     // 保持高亮并发送初始数据
     this.highlightSelectedElement();
     this.sendElementDataWithDebounce();
 
     if (this.options.showStatusMessages) {
-      this.showStatusMessage('使用方向键导航元素，回车/ESC退出');
+      this.showStatusMessage('使用方向键导航元素，A键加入/移出多选，回车/ESC退出');
     }
   }
 
@@ -251,7 +341,11 @@ export class ElementSelector {
 
     switch (e.key) {
       case 'ArrowUp':
-        newElement = this.selectedElement.parentElement;
+        newElement = getComposedParent(this.selectedElement);
+        // iframe 的 body/html 不可选，直接跳到 iframe 元素
+        while (newElement && newElement.ownerDocument !== document && isDocumentRootElement(newElement)) {
+          newElement = getComposedParent(newElement);
+        }
         // 记录当前节点作为父节点的最后访问子节点
         if (newElement) {
           this.lastVisitedChild.set(newElement, this.selectedElement);
@@ -260,11 +354,11 @@ export class ElementSelector {
       case 'ArrowDown': {
         // 优先返回之前记录的子节点，如果没有则返回第一个子节点
         const lastChild = this.lastVisitedChild.get(this.selectedElement);
-        if (lastChild && this.selectedElement.contains(lastChild)) {
+        if (lastChild && containsComposed(this.selectedElement, lastChild)) {
           // 确保记录的子节点仍然是当前元素的子节点
           newElement = lastChild;
         } else {
-          newElement = this.selectedElement.firstElementChild;
+          newElement = getComposedFirstChild(this.selectedElement);
         }
         break;
       }
@@ -276,15 +370,23 @@ export class ElementSelector {
         break;
       case 'Escape':
         this.stopSelection();
+        this.clearMultiSelection();
         this.onSelectionCancelled();
         return;
       case 'Enter':
         this.exitNavigationMode();
         this.onElementSelected(this.selectedElement);
         return;
+      case 'a':
+      case 'A':
+        this.removeHighlight();
+        this.toggleMultiSelection(this.selectedElement);
+        this.highlightSelectedElement();
+        this.sendElementDataWithDebounce();
+        return;
     }
 
-    if (newElement && newElement !== document.body && newElement !== document.documentElement) {
+    if (newElement && !isDocumentRootElement(newElement)) {
       this.selectedElement = newElement;
       this.highlightSelectedElement();
       this.sendElementDataWithDebounce();
@@ -292,9 +394,9 @@ export class ElementSelector {
   }
 
   private highlightElement(element: Element): void {
-    if (!element || element === document.body || element === document.documentElement) return;
+    if (!element || isDocumentRootElement(element)) return;
 
-    const computedStyle = window.getComputedStyle(element);
+    const computedStyle = (element.ownerDocument.defaultView || window).getComputedStyle(element);
     this.originalStyles.set(element, {
       outline: computedStyle.outline,
       backgroundColor: computedStyle.backgroundColor,
@@ -320,84 +422,133 @@ export class ElementSelector {
     }
 
     this.markdownUpdateTimer = setTimeout(() => {
-      if (this.selectedElement) {
-        this.onElementDataUpdate(this.selectedElement);
+      const element = this.selectedElement || this.multiSelectedElements[0];
+      if (element) {
+        this.onElementDataUpdate(element);
       }
     }, 100);
   }
 
-  private generateElementData(element: Element): ElementSelectionResult {
-    const html = this.markdownConverter.getCleanHTML(element);
-    const markdown = this.markdownConverter.convertToMarkdown(html, element);
-    const slug = this.extractSlugFromMarkdown(markdown);
-    const domPath = this.generateDOMPath(element);
-
-    return {
-      html,
-      markdown,
-      slug,
-      element,
-      domPath,
-    };
-  }
-
-  private extractSlugFromMarkdown(markdown: string): string {
-    // 从markdown的frontmatter中提取slug
-    const frontmatterMatch = markdown.match(/^---\s*\n([\s\S]*?)\n---/);
-
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1];
-      const slugMatch = frontmatter.match(/slug:\s*(.+)/);
-
-      if (slugMatch) {
-        return slugMatch[1].trim();
+  private toggleMultiSelection(element: Element): void {
+    if (!element || isDocumentRootElement(element)) return;
+
+    const index = this.multiSelectedElements.indexOf(element);
+    if (index >= 0) {
+      this.multiSelectedElements.splice(index, 1);
+      const styles = this.multiSelectStyles.get(element);
+      if (styles) {
+        (element as HTMLElement).style.outline = styles.outline;
+        (element as HTMLElement).style.backgroundColor = styles.backgroundColor;
+        this.multiSelectStyles.delete(element);
       }
+    } else {
+      this.multiSelectedElements.push(element);
+      const el = element as HTMLElement;
+      this.multiSelectStyles.set(element, {
+        outline: el.style.outline,
+        backgroundColor: el.style.backgroundColor,
+      });
+      el.style.outline = `2px dashed ${this.options.highlightColor}`;
+      el.style.backgroundColor = `rgba(59, 130, 246, ${this.options.highlightOpacity})`;
     }
 
-    // 如果没有找到slug，生成一个默认的
-    return `content-${Date.now()}`;
+    this.renderSelectionBadges();
   }
 
-  private generateDOMPath(element: Element): string {
-    const path: string[] = [];
-    let current = element;
+  // 需要捕获的元素：多选集合加上当前元素，按文档顺序排列，并去掉被其他元素包含的元素
+  private getCaptureTargets(element: Element): Element[] {
+    const candidates = Array.from(new Set([...this.multiSelectedElements, element]));
 
-    while (current && current !== document.body && current !== document.documentElement) {
-      let selector = current.tagName.toLowerCase();
+    return candidates
+      .filter(candidate => !candidates.some(other => other !== candidate && containsComposed(other, candidate)))
+      .sort(compareComposedPosition);
+  }
 
-      // 添加ID
-      if (current.id) {
-        selector += `#${current.id}`;
-      }
+  // 在多选元素左上角显示序号（按合并后的文档顺序）
+  private renderSelectionBadges(): void {
+    this.selectionBadges.forEach(badge => badge.remove());
+    this.selectionBadges = [];
+
+    if (this.multiSelectedElements.length === 0) return;
+
+    const ordered = this.getCaptureTargets(this.multiSelectedElements[0]);
+    ordered
+      .filter(element => this.multiSelectedElements.includes(element))
+      .forEach(element => {
+        const rect = getTopLevelRect(element);
+        const badge = document.createElement('div');
+        badge.className = 'lovpensider-multi-badge';
+        badge.style.cssText = `
+          position: absolute;
+          top: ${rect.top + window.scrollY - 10}px;
+          left: ${rect.left + window.scrollX - 10}px;
+          min-width: 20px;
+          height: 20px;
+          padding: 0 4px;
+          border-radius: 10px;
+          background: ${this.options.highlightColor};
+          color: white;
+          font-size: 12px;
+          font-weight: 600;
+          line-height: 20px;
+          text-align: center;
+          z-index: 10001;
+          pointer-events: none;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        `;
+        badge.textContent = String(ordered.indexOf(element) + 1);
+        document.body.appendChild(badge);
+        this.selectionBadges.push(badge);
+      });
+  }
 
-      // 添加主要的类名（最多3个）
-      if (current.className && typeof current.className === 'string') {
-        const classes = current.className
-          .split(' ')
-          .filter(cls => cls.trim())
-          .slice(0, 3);
-        if (classes.length > 0) {
-          selector += `.${classes.join('.')}`;
-        }
-      }
+  private removeMultiSelectionMarks(): void {
+    this.multiSelectStyles.forEach((styles, element) => {
+      const el = element as HTMLElement;
+      el.style.outline = styles.outline;
+      el.style.backgroundColor = styles.backgroundColor;
+    });
+    this.multiSelectStyles.clear();
+    this.selectionBadges.forEach(badge => badge.remove());
+    this.selectionBadges = [];
+  }
 
-      // 如果有兄弟元素，添加nth-child
-      if (current.parentElement) {
-        const siblings = Array.from(current.parentElement.children).filter(
-          sibling => sibling.tagName === current.tagName,
-        );
+  private clearMultiSelection(): void {
+    this.removeMultiSelectionMarks();
+    this.multiSelectedElements = [];
+  }
 
-        if (siblings.length > 1) {
-          const index = siblings.indexOf(current as Element) + 1;
-          selector += `:nth-child(${index})`;
-        }
-      }
+  private generateElementData(element: Element): ElementSelectionResult {
+    const elements = this.getCaptureTargets(element);
+
+    // 多个元素合并为一段HTML统一转换，保证只有一个frontmatter
+    const html = elements
+      .map(el =>
+        this.markdownConverter.getCleanHTML(
+          this.readabilityArticle?.element === el ? this.readabilityArticle.article : el,
+        ),
+      )
+      .join('\n');
+    const markdown = this.markdownConverter.convertToMarkdown(html, elements[0]);
+    const selectors = elements.map(el => generateStableSelectors(el));
+    const domPath = selectors.map(list => list[0]).join(', ');
+    // 多选时备用路径为各元素最后一个备用选择器（通常是 XPath）组成的列表
+    const fallbackPaths =
+      selectors.length > 1 ? [selectors.map(list => list[list.length - 1]).join(', ')] : selectors[0].slice(1);
 
-      path.unshift(selector);
-      current = current.parentElement as Element;
-    }
+    return {
+      html,
+      markdown,
+      ...this.markdownConverter.getDocumentInfo(),
+      element: elements[0],
+      elements,
+      domPath,
+      fallbackPaths,
+    };
+  }
 
-    return path.join(' > ');
+  private generateDOMPath(element: Element): string {
+    return generateStableSelectors(element)[0];
   }
 
   private showStatusMessage(message: string): void {
@@ -445,12 +596,24 @@ export class ElementSelector {
   }
 
   // 智能选择功能
-  smartSelect(): void {
-    console.log('[ElementSelector] 开始智能选择');
-    const mainContent = this.findMainContentElement();
+  smartSelect(strategy: SmartSelectStrategy = 'heuristic'): void {
+    console.log('[ElementSelector] 开始智能选择，策略:', strategy);
+    this.readabilityArticle = null;
+
+    let mainContent: Element | null;
+    if (strategy === 'readability') {
+      const result = this.readabilityExtractor.extract();
+      mainContent = result?.element || null;
+      if (result) {
+        this.readabilityArticle = { element: result.element, article: result.article };
+      }
+    } else {
+      mainContent = this.findMainContentElement();
+    }
 
     if (mainContent) {
       console.log('[ElementSelector] 智能选择成功，选中元素:', mainContent);
+      this.clearMultiSelection();
       this.selectedElement = mainContent;
 
       if (this.options.enableNavigation) {
@@ -464,6 +627,27 @@ export class ElementSelector {
     }
   }
 
+  // 对比两种策略选中的元素
+  compareStrategies(): StrategyCandidate[] {
+    const describe = (strategy: SmartSelectStrategy, element: Element | null | undefined, text?: string) => {
+      if (!element) return null;
+      const content = (text ?? element.textContent ?? '').trim().replace(/\s+/g, ' ');
+      return {
+        strategy,
+        domPath: this.generateDOMPath(element),
+        tagName: element.tagName.toLowerCase(),
+        textLength: content.length,
+        preview: content.substring(0, 120),
+      };
+    };
+
+    const readability = this.readabilityExtractor.extract();
+    return [
+      describe('heuristic', this.findMainContentElement()),
+      describe('readability', readability?.element, readability?.article.textContent || ''),
+    ].filter((candidate): candidate is StrategyCandidate => candidate !== null);
+  }
+
   private findMainContentElement(): Element | null {
     // 首先尝试使用网站预设
     const presetElement = this.findElementByPresets();
@@ -537,6 +721,13 @@ export class ElementSelector {
     return null;
   }
 
+  // 当前 URL 匹配的最高优先级预设
+  private getMatchedPreset(): SitePreset | null {
+    const currentUrl = window.location.href;
+    const sortedPresets = [...(this.options.sitePresets || [])].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+    return sortedPresets.find(preset => preset.patterns.some(pattern => currentUrl.includes(pattern))) || null;
+  }
+
   private getContentCandidates(): Element[] {
     const candidates: Element[] = [];
 
@@ -555,8 +746,9 @@ export class ElementSelector {
       '#post',
     ];
 
+    // 包括开放 shadow root 和同源 iframe 中的元素
     semanticSelectors.forEach(selector => {
-      const elements = document.querySelectorAll(selector);
+      const elements = querySelectorAllDeep(document, selector);
       elements.forEach(el => candidates.push(el));
     });
 
@@ -575,7 +767,7 @@ export class ElementSelector {
     ];
 
     contentClassNames.forEach(className => {
-      const elements = document.querySelectorAll(`[class*="${className}"]`);
+      const elements = querySelectorAllDeep(document, `[class*="${className}"]`);
       elements.forEach(el => {
         if (this.isValidContentElement(el)) {
           candidates.push(el);
@@ -813,7 +1005,7 @@ export class ElementSelector {
 
   private findTextDenseElements(): Element[] {
     const candidates: Element[] = [];
-    const allElements = document.querySelectorAll('div, section, article, main');
+    const allElements = querySelectorAllDeep(document, 'div, section, article, main');
 
     allElements.forEach(element => {
       const textDensity = this.calculateTextDensity(element);
@@ -834,7 +1026,7 @@ export class ElementSelector {
     if (textContent.length < 50) return false;
 
     // 检查是否可见
-    const style = window.getComputedStyle(element);
+    const style = (element.ownerDocument.defaultView || window).getComputedStyle(element);
     if (style.display === 'none' || style.visibility === 'hidden') return false;
 
     return true;
@@ -846,8 +1038,87 @@ export class ElementSelector {
   }
 
   getSelectedElementData(): ElementSelectionResult | null {
-    if (!this.selectedElement) return null;
-    return this.generateElementData(this.selectedElement);
+    const element = this.selectedElement || this.multiSelectedElements[0];
+    if (!element) return null;
+    return this.generateElementData(element);
+  }
+
+  // 静默捕获：已有选中元素时直接生成数据，否则自动选中正文，不进入导航模式也不触发选中回调
+  captureMainContent(): ElementSelectionResult | null {
+    if (!this.selectedElement && this.multiSelectedElements.length === 0) {
+      const mainContent = this.findMainContentElement();
+      if (!mainContent) return null;
+      this.setSelectedElement(mainContent);
+    }
+    return this.getSelectedElementData();
+  }
+
+  // 转换指定元素但不选中它（页面监控使用）
+  captureElement(element: Element): ElementSelectionResult {
+    return this.generateElementData(element);
+  }
+
+  /**
+   * 沿“下一页”链接抓取后续分页，用同一选择器提取正文，合并为只有一个 frontmatter 的文档。
+   */
+  async captureAllPages(maxPages = 10): Promise<(ElementSelectionResult & { pageCount: number }) | null> {
+    const first = this.captureMainContent();
+    if (!first) return null;
+
+    // 当前元素命中预设选择器时优先使用它，否则使用当前元素的稳定选择器
+    const preset = this.getMatchedPreset();
+    const presetSelector = preset?.selectors.find(selector => {
+      try {
+        return first.element.matches(selector);
+      } catch {
+        return false;
+      }
+    });
+    const selectors = [presetSelector, first.domPath, ...first.fallbackPaths].filter((s): s is string => !!s);
+
+    const pages = [first.html];
+    const visited = new Set([window.location.href.split('#')[0]]);
+    let nextUrl = findNextPageUrl(document, window.location.href, { selector: preset?.nextPageSelector, visited });
+
+    while (nextUrl && pages.length < maxPages) {
+      const pageUrl = nextUrl;
+      visited.add(pageUrl);
+
+      let doc: Document;
+      try {
+        doc = await fetchPageDocument(pageUrl);
+      } catch (error) {
+        console.error('抓取分页失败:', pageUrl, error);
+        break;
+      }
+
+      const resolved = resolveSelectorWithFallbacks(selectors, doc);
+      if (!resolved) break;
+
+      const html = resolved.elements
+        .map(element => {
+          absolutizeUrls(element, pageUrl);
+          return this.markdownConverter.getCleanHTML(element);
+        })
+        .join('\n');
+      // 部分网站忽略无效页码并返回相同内容
+      if (pages.includes(html)) break;
+
+      pages.push(html);
+      nextUrl = findNextPageUrl(doc, pageUrl, { selector: preset?.nextPageSelector, visited });
+    }
+
+    if (pages.length === 1) return { ...first, pageCount: 1 };
+
+    const html = pages.join('\n');
+    const markdown = this.markdownConverter.convertToMarkdown(html, first.element);
+    return {
+      ...first,
+      html,
+      markdown,
+      ...this.markdownConverter.getDocumentInfo(),
+      pageCount: pages.length,
+    };
   }
 
   isCurrentlySelecting(): boolean {
@@ -858,11 +1129,57 @@ export class ElementSelector {
     return this.isNavigatingMode;
   }
 
+  // 更新frontmatter模板（用于外部调用）
+  setFrontmatterTemplate(template: FrontmatterTemplate | undefined): void {
+    this.options.frontmatterTemplate = template;
+    this.markdownConverter.setFrontmatterTemplate(template);
+  }
+
+  // 更新站点转换规则（用于外部调用）
+  setTurndownRules(settings: TurndownRulesSettings | undefined): void {
+    this.options.turndownRules = settings;
+    this.markdownConverter.setTurndownRules(settings);
+  }
+
+  // 更新链接处理方式，并重新生成当前选中元素的数据
+  setLinkHandling(settings: LinkHandlingSettings | undefined): void {
+    this.options.linkHandling = settings;
+    this.markdownConverter.setLinkHandling(settings);
+    if (this.selectedElement || this.multiSelectedElements.length > 0) {
+      this.sendElementDataWithDebounce();
+    }
+  }
+
+  // 更新网址清理设置（影响 frontmatter 中的来源网址）
+  setUrlCleaning(settings: UrlCleaningSettings | undefined): void {
+    this.options.urlCleaning = settings;
+    this.markdownConverter.setUrlCleaning(settings);
+  }
+
   // 设置选中的元素（用于外部调用）
   setSelectedElement(element: Element): void {
+    this.clearMultiSelection();
+    this.readabilityArticle = null;
     this.selectedElement = element;
   }
 
+  // 设置多个选中的元素（用于恢复多选的DOM路径）
+  setSelectedElements(elements: Element[]): void {
+    this.clearMultiSelection();
+    this.readabilityArticle = null;
+    if (elements.length === 0) return;
+
+    this.selectedElement = elements[elements.length - 1];
+    if (elements.length > 1) {
+      elements.forEach(element => this.toggleMultiSelection(element));
+    }
+  }
+
+  getSelectedElements(): Element[] {
+    const element = this.selectedElement || this.multiSelectedElements[0];
+    return element ? this.getCaptureTargets(element) : [];
+  }
+
   // 高亮选中的元素（用于外部调用）
   public highlightSelectedElement(): void {
     this.removeHighlight();
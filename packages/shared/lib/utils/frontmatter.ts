@@ -0,0 +1,142 @@
+import type { FrontmatterFormat } from '@extension/storage';
+
+const YAML_RESERVED = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+const NUMBER_LIKE = /^[-+]?(\d[\d_]*(\.\d*)?|\.\d+)([eE][-+]?\d+)?$|^0x[0-9a-f]+$|^[-+]?\.(inf|nan)$/i;
+const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// 判断 YAML 字符串是否需要加引号，避免冒号、引号等字符导致解析失败
+const needsYamlQuotes = (value: string): boolean =>
+  value === '' ||
+  value !== value.trim() ||
+  /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+  /: |\s#|:$/.test(value) ||
+  /\p{Cc}/u.test(value) ||
+  YAML_RESERVED.test(value) ||
+  NUMBER_LIKE.test(value);
+
+// JSON 字符串同时是合法的 YAML 双引号字符串和 TOML 基本字符串
+const quote = (value: string): string => JSON.stringify(value);
+
+const yamlScalar = (value: string): string => (needsYamlQuotes(value) ? quote(value) : value);
+
+const serializeYaml = (entries: FrontmatterEntry[]): string => {
+  const lines = entries.map(({ key, value }) => {
+    const yamlKey = BARE_KEY.test(key) ? key : quote(key);
+    if (Array.isArray(value)) {
+      return value.length === 0
+        ? `${yamlKey}: []`
+        : `${yamlKey}:\n${value.map(item => `  - ${yamlScalar(item)}`).join('\n')}`;
+    }
+    return `${yamlKey}: ${yamlScalar(value)}`;
+  });
+
+  return `---\n${lines.join('\n')}\n---\n\n`;
+};
+
+const serializeToml = (entries: FrontmatterEntry[]): string => {
+  const lines = entries.map(({ key, value, isDate }) => {
+    const tomlKey = BARE_KEY.test(key) ? key : quote(key);
+    if (Array.isArray(value)) {
+      return `${tomlKey} = [${value.map(quote).join(', ')}]`;
+    }
+    // ISO 格式的日期使用 TOML 原生日期类型
+    return `${tomlKey} = ${isDate && ISO_DATE.test(value) ? value : quote(value)}`;
+  });
+
+  return `+++\n${lines.join('\n')}\n+++\n\n`;
+};
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+export interface FrontmatterEntry {
+  key: string;
+  value: string | string[];
+  isDate?: boolean;
+}
+
+/**
+ * 格式化日期：'ISO' 输出 ISO 8601，其余按 YYYY/MM/DD/HH/mm/ss 占位符替换（本地时间）。
+ */
+export const formatFrontmatterDate = (date: Date, format: string): string => {
+  if (!format || format === 'ISO') {
+    return date.toISOString();
+  }
+
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+};
+
+export const serializeFrontmatter = (entries: FrontmatterEntry[], format: FrontmatterFormat): string => {
+  if (format === 'none' || entries.length === 0) return '';
+  return format === 'toml' ? serializeToml(entries) : serializeYaml(entries);
+};
+
+// 从 YAML（---）或 TOML（+++）frontmatter 中读取字符串字段
+export const parseFrontmatterField = (markdown: string, field: string): string | null => {
+  const match = markdown.match(/^(---|\+\+\+)\s*\n([\s\S]*?)\n\1/);
+  if (!match) return null;
+
+  const separator = match[1] === '+++' ? '\\s*=' : ':';
+  const escapedField = field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const fieldMatch = match[2].match(new RegExp(`^["']?${escapedField}["']?${separator}\\s*(.+)$`, 'm'));
+  if (!fieldMatch) return null;
+
+  const value = unquote(fieldMatch[1]);
+  return value || null;
+};
+
+// 读取列表字段：YAML 块列表（- item）、YAML / TOML 行内数组（[a, b]），单个值视为一项
+export const parseFrontmatterList = (markdown: string, field: string): string[] => {
+  const match = markdown.match(/^(---|\+\+\+)\s*\n([\s\S]*?)\n\1/);
+  if (!match) return [];
+
+  const separator = match[1] === '+++' ? '\\s*=' : ':';
+  const escapedField = field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const fieldMatch = match[2].match(
+    new RegExp(`^["']?${escapedField}["']?${separator}[ \\t]*(.*)((?:\\n[ \\t]*-[^\\n]*)*)`, 'm'),
+  );
+  if (!fieldMatch) return [];
+
+  const inline = fieldMatch[1].trim();
+  if (inline.startsWith('[')) {
+    return inline
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(unquote)
+      .filter(Boolean);
+  }
+  if (inline) {
+    return [unquote(inline)].filter(Boolean);
+  }
+
+  const items = fieldMatch[2].split('\n').map(line => unquote(line.replace(/^\s*-\s*/, '')));
+  return items.filter(Boolean);
+};
+
+// 去掉开头的 frontmatter 及其后的空行
+export const stripFrontmatter = (markdown: string): string => markdown.replace(/^(---|\+\+\+)\s*\n[\s\S]*?\n\1\n*/, '');
+
+export { needsYamlQuotes };
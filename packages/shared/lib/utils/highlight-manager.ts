@@ -0,0 +1,112 @@
+import { anchorSelectors, describeRange, getHighlightPageUrl, unwrapHighlight, wrapRange } from './highlights.js';
+import type { HighlightData } from '../types/database.js';
+
+export interface HighlightManagerOptions {
+  color?: string;
+  // 保存新高亮，返回其 id；保存失败时返回 null，不绘制
+  onHighlightCreated: (highlight: HighlightData) => Promise<string | null>;
+}
+
+/**
+ * 页面高亮：高亮模式下将选中文本保存为高亮，并在再次访问时按定位器重新绘制。
+ */
+export class HighlightManager {
+  private enabled = false;
+  private color: string;
+  private onHighlightCreated: HighlightManagerOptions['onHighlightCreated'];
+  private mouseUpHandler = (e: MouseEvent) => this.handleMouseUp(e);
+
+  constructor(options: HighlightManagerOptions) {
+    this.color = options.color || '#fde68a';
+    this.onHighlightCreated = options.onHighlightCreated;
+  }
+
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+    document.addEventListener('mouseup', this.mouseUpHandler, true);
+  }
+
+  disable(): void {
+    this.enabled = false;
+    document.removeEventListener('mouseup', this.mouseUpHandler, true);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  private async handleMouseUp(e: MouseEvent): Promise<void> {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    // 忽略输入框和扩展自身界面中的选择
+    const target = e.target as Element | null;
+    if (target?.closest('input, textarea, [contenteditable="true"], [id^="lovpen"]')) return;
+
+    const range = selection.getRangeAt(0);
+    const selectors = describeRange(range, document.body);
+    const text = range.toString().trim();
+    if (!text) return;
+
+    const id = await this.onHighlightCreated({
+      url: getHighlightPageUrl(window.location.href),
+      title: document.title,
+      text,
+      selectors,
+      color: this.color,
+      timestamp: Date.now(),
+    });
+    if (!id) return;
+
+    wrapRange(range, id, this.color);
+    selection.removeAllRanges();
+  }
+
+  /**
+   * 绘制已保存的高亮，返回未能定位的高亮（页面内容可能尚未加载）。
+   */
+  paint(highlights: HighlightData[]): HighlightData[] {
+    return highlights.filter(highlight => {
+      if (!highlight.id) return false;
+      if (this.getMarks(highlight.id).length > 0) return false;
+
+      const range = anchorSelectors(highlight.selectors, document.body);
+      if (!range) return true;
+
+      const marks = wrapRange(range, highlight.id, highlight.color || this.color);
+      marks.forEach(mark => (mark.title = highlight.note || ''));
+      return false;
+    });
+  }
+
+  remove(id: string): void {
+    unwrapHighlight(document, id);
+  }
+
+  clear(): void {
+    unwrapHighlight(document);
+  }
+
+  // 笔记显示为悬停提示
+  updateNote(id: string, note: string): void {
+    this.getMarks(id).forEach(mark => (mark.title = note));
+  }
+
+  // 滚动到高亮并短暂闪烁
+  focus(id: string): boolean {
+    const marks = this.getMarks(id);
+    if (marks.length === 0) return false;
+
+    marks[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+    marks.forEach(mark => (mark.style.outline = '2px solid #f59e0b'));
+    setTimeout(() => marks.forEach(mark => (mark.style.outline = '')), 1500);
+    return true;
+  }
+
+  private getMarks(id: string): HTMLElement[] {
+    return Array.from(
+      document.querySelectorAll<HTMLElement>(`mark.lovpensider-highlight[data-highlight-id="${CSS.escape(id)}"]`),
+    );
+  }
+}
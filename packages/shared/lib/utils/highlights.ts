@@ -0,0 +1,265 @@
+import type { HighlightData, HighlightSelector, TextPositionSelector, TextQuoteSelector } from '../types/database.js';
+
+// 引用前后保存的上下文长度
+const CONTEXT_LENGTH = 32;
+// 不计入正文文本的元素
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA', 'TEMPLATE']);
+
+interface TextIndex {
+  text: string;
+  nodes: Array<{ node: Text; start: number }>;
+}
+
+// 根元素下所有可见文本节点及其在拼接文本中的起始偏移
+const buildTextIndex = (root: Element): TextIndex => {
+  const nodes: TextIndex['nodes'] = [];
+  let text = '';
+
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node =>
+      node.parentElement &&
+      !IGNORED_TAGS.has(node.parentElement.tagName) &&
+      !node.parentElement.closest('[id^="lovpen"]')
+        ? NodeFilter.FILTER_ACCEPT
+        : NodeFilter.FILTER_REJECT,
+  });
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push({ node, start: text.length });
+    text += node.data;
+  }
+
+  return { text, nodes };
+};
+
+// 边界点在拼接文本中的偏移
+const getOffset = (index: TextIndex, container: Node, offset: number): number => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = index.nodes.find(item => item.node === container);
+    if (entry) return entry.start + offset;
+  }
+
+  // 元素边界：取边界之后第一个文本节点的起点
+  const boundary = container.ownerDocument!.createRange();
+  boundary.setStart(container, offset);
+  const next = index.nodes.find(item => boundary.comparePoint(item.node, 0) >= 0);
+  return next ? next.start : index.text.length;
+};
+
+// 偏移对应的文本节点位置；起点落在节点末尾时移到下一个节点
+const getPoint = (index: TextIndex, offset: number, isEnd: boolean): { node: Text; offset: number } | null => {
+  for (const { node, start } of index.nodes) {
+    const end = start + node.data.length;
+    if (isEnd ? offset > start && offset <= end : offset >= start && offset < end) {
+      return { node, offset: offset - start };
+    }
+  }
+  return null;
+};
+
+const toRange = (index: TextIndex, root: Element, start: number, end: number): Range | null => {
+  const startPoint = getPoint(index, start, false);
+  const endPoint = getPoint(index, end, true);
+  if (!startPoint || !endPoint) return null;
+
+  const range = root.ownerDocument.createRange();
+  range.setStart(startPoint.node, startPoint.offset);
+  range.setEnd(endPoint.node, endPoint.offset);
+  return range;
+};
+
+const commonPrefixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const commonSuffixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+// 在文本中查找引用，按上下文吻合程度和与原位置的距离选出最佳匹配
+const findQuote = (
+  text: string,
+  quote: Pick<TextQuoteSelector, 'exact' | 'prefix' | 'suffix'>,
+  hint: number,
+): number | null => {
+  if (!quote.exact) return null;
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let start = text.indexOf(quote.exact); start !== -1; start = text.indexOf(quote.exact, start + 1)) {
+    const end = start + quote.exact.length;
+    const score =
+      commonSuffixLength(text.slice(Math.max(0, start - quote.prefix.length), start), quote.prefix) +
+      commonPrefixLength(text.slice(end, end + quote.suffix.length), quote.suffix);
+    const distance = Math.abs(start - hint);
+
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance };
+    }
+  }
+
+  return best ? best.start : null;
+};
+
+// 合并连续空白后的文本，以及每个字符对应的原文偏移
+const collapseWhitespace = (text: string): { text: string; map: number[] } => {
+  let collapsed = '';
+  const map: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace && collapsed.endsWith(' ')) continue;
+    collapsed += isSpace ? ' ' : text[i];
+    map.push(i);
+  }
+
+  map.push(text.length);
+  return { text: collapsed, map };
+};
+
+/**
+ * 为选区生成定位器：引用原文及上下文（TextQuoteSelector）和字符偏移（TextPositionSelector）。
+ */
+export const describeRange = (range: Range, root: Element): HighlightSelector[] => {
+  const index = buildTextIndex(root);
+  const start = getOffset(index, range.startContainer, range.startOffset);
+  const end = getOffset(index, range.endContainer, range.endOffset);
+
+  return [
+    {
+      type: 'TextQuoteSelector',
+      exact: index.text.slice(start, end),
+      prefix: index.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+      suffix: index.text.slice(end, end + CONTEXT_LENGTH),
+    },
+    { type: 'TextPositionSelector', start, end },
+  ];
+};
+
+/**
+ * 按定位器在页面中重新找到选区：偏移处文本未变时直接使用，否则按引用和上下文搜索，
+ * 最后忽略空白差异再搜索一次，以容忍页面结构的小幅变化。
+ */
+export const anchorSelectors = (selectors: HighlightSelector[], root: Element): Range | null => {
+  const quote = selectors.find((s): s is TextQuoteSelector => s.type === 'TextQuoteSelector');
+  const position = selectors.find((s): s is TextPositionSelector => s.type === 'TextPositionSelector');
+  const index = buildTextIndex(root);
+
+  if (!quote) {
+    return position && position.end <= index.text.length ? toRange(index, root, position.start, position.end) : null;
+  }
+
+  if (position && index.text.slice(position.start, position.end) === quote.exact) {
+    return toRange(index, root, position.start, position.end);
+  }
+
+  const hint = position?.start ?? 0;
+  const start = findQuote(index.text, quote, hint);
+  if (start !== null) {
+    return toRange(index, root, start, start + quote.exact.length);
+  }
+
+  const collapsed = collapseWhitespace(index.text);
+  const collapsedQuote = {
+    exact: collapseWhitespace(quote.exact).text.trim(),
+    prefix: collapseWhitespace(quote.prefix).text,
+    suffix: collapseWhitespace(quote.suffix).text,
+  };
+  const collapsedHint = collapsed.map.findIndex(offset => offset >= hint);
+  const collapsedStart = findQuote(collapsed.text, collapsedQuote, collapsedHint);
+  if (collapsedStart === null) return null;
+
+  // 映射回原文偏移
+  const end = collapsed.map[collapsedStart + collapsedQuote.exact.length - 1] + 1;
+  return toRange(index, root, collapsed.map[collapsedStart], end);
+};
+
+/**
+ * 用 mark 元素包裹选区内的文本，跨越多个元素时逐段包裹。
+ */
+export const wrapRange = (range: Range, id: string, color: string): HTMLElement[] => {
+  const root = range.commonAncestorContainer;
+  const element = root.nodeType === Node.ELEMENT_NODE ? (root as Element) : root.parentElement;
+  if (!element) return [];
+
+  const segments = buildTextIndex(element)
+    .nodes.map(({ node }) => node)
+    .filter(node => range.intersectsNode(node))
+    .map(node => ({
+      node,
+      start: node === range.startContainer ? range.startOffset : 0,
+      end: node === range.endContainer ? range.endOffset : node.data.length,
+    }))
+    // 跳过块元素之间的空白节点，避免破坏表格、列表结构
+    .filter(({ node, start, end }) => start < end && node.data.slice(start, end).trim());
+
+  return segments.map(({ node, start, end }) => {
+    if (end < node.data.length) node.splitText(end);
+    const target = start > 0 ? node.splitText(start) : node;
+
+    const mark = node.ownerDocument.createElement('mark');
+    mark.className = 'lovpensider-highlight';
+    mark.dataset.highlightId = id;
+    mark.style.backgroundColor = color;
+    mark.style.color = 'inherit';
+    target.parentNode!.insertBefore(mark, target);
+    mark.appendChild(target);
+    return mark;
+  });
+};
+
+// 移除高亮标记并恢复原始文本节点
+export const unwrapHighlight = (root: Document | Element, id?: string): void => {
+  const selector = id ? `mark.lovpensider-highlight[data-highlight-id="${id}"]` : 'mark.lovpensider-highlight';
+
+  root.querySelectorAll(selector).forEach(mark => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+};
+
+// 高亮以页面地址（不含 hash）归档
+export const getHighlightPageUrl = (url: string): string => url.split('#')[0];
+
+// 指向原文段落的文本片段链接（#:~:text=），长引用只取首尾
+export const getTextFragmentUrl = (url: string, text: string): string => {
+  const encode = (value: string) => encodeURIComponent(value).replace(/-/g, '%2D').replace(/,/g, '%2C');
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return url;
+
+  const fragment =
+    normalized.length <= 80
+      ? encode(normalized)
+      : `${encode(normalized.slice(0, 30).trim())},${encode(normalized.slice(-30).trim())}`;
+  return `${getHighlightPageUrl(url)}#:~:text=${fragment}`;
+};
+
+/**
+ * 将页面的全部高亮导出为 Markdown：每条高亮为一个引用块，附原文链接和笔记。
+ */
+export const highlightsToMarkdown = (highlights: HighlightData[], page: { url: string; title?: string }): string => {
+  const header = [`# ${page.title || page.url}`, '', `来源：<${page.url}>`];
+
+  const blocks = highlights.map(highlight => {
+    const quote = highlight.text
+      .trim()
+      .split('\n')
+      .map(line => `> ${line.trim()}`.trimEnd())
+      .join('\n');
+    const lines = [quote, '>', `> — [原文](${getTextFragmentUrl(page.url, highlight.text)})`];
+
+    if (highlight.note?.trim()) {
+      lines.push('', `**笔记：** ${highlight.note.trim()}`);
+    }
+    return lines.join('\n');
+  });
+
+  return [...header, '', ...blocks.flatMap(block => [block, ''])].join('\n').trimEnd() + '\n';
+};
@@ -4,7 +4,25 @@ export * from './init-app-with-shadow.js';
 export type * from './types.js';
 export type * from '../types/form-filler.js';
 export * from './markdown-converter.js';
+export * from './frontmatter.js';
+export * from './download-path.js';
+export * from './copy-template.js';
+export * from './clipboard-html.js';
+export * from './tab-list.js';
+export * from './turndown-rules.js';
+export * from './code-block.js';
+export * from './math-converter.js';
+export * from './automation-rules.js';
 export * from './element-selector.js';
+export * from './readability-extractor.js';
+export * from './selector-generator.js';
+export * from './deep-dom.js';
+export * from './pagination.js';
+export * from './url-cleaner.js';
+export * from './highlights.js';
+export * from './highlight-manager.js';
+export * from './line-diff.js';
+export * from './table-extractor.js';
 export * from './form-detector.js';
 export * from './form-filler.js';
 export * from './element-marker.js';
@@ -15,19 +33,29 @@ export * from './floating-badge-v3.js';
 export * from './floating-badge-v4.js';
 export * from './floating-badge-simple.js';
 export * from '../commands/command-processor.js';
+export * from '../exporters/index.js';
 
 // 导出storage相关功能，但不导出类型以避免冲突
 export { dbManager } from '../storage/database-manager.js';
 export { syncManager } from '../storage/sync-manager.js';
+export { saveCaptureToLibrary } from '../storage/capture-library.js';
 
 // 显式重导出数据库类型，避免重复导出
 export type {
   DatabaseFormTemplateData,
   DatabaseFormDefinitionData,
   CaptureData,
+  HighlightData,
+  HighlightSelector,
+  TextQuoteSelector,
+  TextPositionSelector,
   TextProcessingData,
   UserSettings,
   SyncQueueItem,
   UserStats,
   SyncStatus,
+  SearchDocumentType,
+  SearchOptions,
+  SearchResult,
+  SearchSnippetSegment,
 } from '../types/database.js';
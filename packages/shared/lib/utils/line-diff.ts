@@ -0,0 +1,110 @@
+// 基于最长公共子序列的逐行差异
+
+// 超过该规模（行数乘积）时不再计算 LCS，直接视为整体替换
+const MAX_LCS_CELLS = 4_000_000;
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// 折叠后的差异块：连续未变化的行合并为 skipped
+export type DiffHunkLine = DiffLine | { type: 'skipped'; count: number };
+
+/**
+ * 比较两段文本，返回逐行差异（equal / added / removed）。
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // 先去掉相同的首尾行，缩小比较范围
+  let head = 0;
+  while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) head++;
+
+  let tail = 0;
+  while (
+    tail < oldLines.length - head &&
+    tail < newLines.length - head &&
+    oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const a = oldLines.slice(head, oldLines.length - tail);
+  const b = newLines.slice(head, newLines.length - tail);
+  const middle: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    middle.push(...a.map(text => ({ type: 'removed' as const, text })));
+    middle.push(...b.map(text => ({ type: 'added' as const, text })));
+  } else {
+    // lengths[i][j] 为 a[i:] 与 b[j:] 的最长公共子序列长度
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ type: 'equal', text: a[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        middle.push({ type: 'removed', text: a[i++] });
+      } else {
+        middle.push({ type: 'added', text: b[j++] });
+      }
+    }
+    while (i < a.length) middle.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) middle.push({ type: 'added', text: b[j++] });
+  }
+
+  return [
+    ...oldLines.slice(0, head).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - tail).map(text => ({ type: 'equal' as const, text })),
+  ];
+};
+
+// 统计新增和删除的行数
+export const summarizeDiff = (diff: DiffLine[]): { added: number; removed: number } => ({
+  added: diff.filter(line => line.type === 'added').length,
+  removed: diff.filter(line => line.type === 'removed').length,
+});
+
+/**
+ * 只保留变化行及其前后 context 行，其余未变化的行折叠。
+ */
+export const foldDiff = (diff: DiffLine[], context = 2): DiffHunkLine[] => {
+  const keep = diff.map(line => line.type !== 'equal');
+  diff.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let offset = -context; offset <= context; offset++) {
+      if (diff[index + offset]) keep[index + offset] = true;
+    }
+  });
+
+  const result: DiffHunkLine[] = [];
+  diff.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+      return;
+    }
+
+    const last = result[result.length - 1];
+    if (last?.type === 'skipped') {
+      last.count++;
+    } else {
+      result.push({ type: 'skipped', count: 1 });
+    }
+  });
+
+  return result;
+};
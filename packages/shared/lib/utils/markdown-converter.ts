@@ -1,7 +1,45 @@
+import { normalizeCodeBlocks } from './code-block.js';
+import { cloneComposed } from './deep-dom.js';
+import { formatFrontmatterDate, serializeFrontmatter } from './frontmatter.js';
+import { extractMathSource, formatMath, isMathNode, preserveMathSource } from './math-converter.js';
+import { absolutizeUrls } from './pagination.js';
+import { TurndownRuleRegistry } from './turndown-rules.js';
+import { resolveCleanUrl, stripTrackingParams } from './url-cleaner.js';
 import TurndownService from 'turndown';
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import { gfm } from 'turndown-plugin-gfm';
+import type { FrontmatterEntry } from './frontmatter.js';
+import type { SiteTurndownRule } from './turndown-rules.js';
+import type {
+  FrontmatterField,
+  FrontmatterTemplate,
+  LinkHandlingSettings,
+  TurndownRulesSettings,
+  UrlCleaningSettings,
+} from '@extension/storage';
+
+// 未配置模板时的默认字段
+const DEFAULT_FIELDS: FrontmatterField[] = [
+  { id: 'title', key: 'title', source: 'title', enabled: true },
+  { id: 'slug', key: 'slug', source: 'slug', enabled: true },
+  { id: 'source', key: 'source', source: 'source', enabled: true },
+  { id: 'datetime', key: 'datetime', source: 'datetime', enabled: true },
+];
+
+// 未配置时的链接处理方式，与存储默认值一致
+const DEFAULT_LINK_HANDLING: LinkHandlingSettings = {
+  style: 'inlined',
+  resolveRelative: true,
+  stripTracking: true,
+  removeEmptyLinks: true,
+};
+
+// 页内锚点、空地址和 javascript: 链接在页面外没有意义
+const isDeadHref = (href: string): boolean => !href || href.startsWith('#') || /^javascript:/i.test(href);
+
+// 标题旁的永久链接符号，去掉链接后也不需要保留
+const ANCHOR_SYMBOL_PATTERN = /^[\s#¶§🔗]*$/u;
 
 export interface MarkdownConverterOptions {
   includeImages?: boolean;
@@ -10,11 +48,30 @@ export interface MarkdownConverterOptions {
   includeCodeBlocks?: boolean;
   customTitle?: string;
   customSlug?: string;
+  frontmatterTemplate?: FrontmatterTemplate;
+  turndownRules?: TurndownRulesSettings;
+  linkHandling?: LinkHandlingSettings;
+  urlCleaning?: UrlCleaningSettings;
+}
+
+// 一次转换的文档信息，与 frontmatter 的格式和字段名无关，供下载命名和资料库使用
+export interface DocumentInfo {
+  title: string;
+  slug: string;
+  url: string;
+  tags: string[];
 }
 
 export class MarkdownConverter {
   private options: MarkdownConverterOptions;
   private turndownService: TurndownService;
+  private ruleRegistry = new TurndownRuleRegistry();
+  // 当前页面生效的站点规则，每次转换前更新
+  private activeRules: SiteTurndownRule[] = [];
+  // 引用 / 脚注样式下收集的链接，转换结束后追加到文末
+  private linkReferences: { url: string; title: string }[] = [];
+  // 最近一次转换的文档信息
+  private documentInfo: DocumentInfo = { title: '', slug: '', url: '', tags: [] };
 
   constructor(options: MarkdownConverterOptions = {}) {
     this.options = {
@@ -45,45 +102,237 @@ export class MarkdownConverter {
   }
 
   convertToMarkdown(html: string, element?: Element): string {
-    // 生成frontmatter
-    const frontmatter = this.generateFrontmatter(element);
+    // 记录文档信息并生成frontmatter
+    this.documentInfo = this.createDocumentInfo(element);
+    const frontmatter = this.generateFrontmatter(this.documentInfo);
+
+    // 按当前网站启用对应的转换规则
+    this.activeRules = this.ruleRegistry.getRulesForUrl(window.location.href);
+    this.linkReferences = [];
 
     // 使用 Turndown 转换
-    const markdownContent = this.turndownService.turndown(html);
+    const markdownContent = this.turndownService.turndown(html) + this.formatLinkReferences();
 
     // 组合frontmatter和内容
     return frontmatter + markdownContent;
   }
 
+  getDocumentInfo(): DocumentInfo {
+    return this.documentInfo;
+  }
+
+  setFrontmatterTemplate(template: FrontmatterTemplate | undefined): void {
+    this.options.frontmatterTemplate = template;
+  }
+
+  setTurndownRules(settings: TurndownRulesSettings | undefined): void {
+    this.options.turndownRules = settings;
+    this.ruleRegistry.applySettings(settings);
+  }
+
+  setLinkHandling(settings: LinkHandlingSettings | undefined): void {
+    this.options.linkHandling = settings;
+  }
+
+  setUrlCleaning(settings: UrlCleaningSettings | undefined): void {
+    this.options.urlCleaning = settings;
+  }
+
+  getRuleRegistry(): TurndownRuleRegistry {
+    return this.ruleRegistry;
+  }
+
   getCleanHTML(element: Element): string {
-    const clone = element.cloneNode(true) as Element;
+    // 展开开放的 shadow root 和同源 iframe 的内容
+    const clone = cloneComposed(element) as Element;
+
+    // 保留公式源码（MathJax v2 的源码在 script 标签中）
+    preserveMathSource(clone);
 
     // 移除script和style标签
     clone.querySelectorAll('script, style').forEach(el => el.remove());
 
+    // 识别代码块语言，去掉行号和复制按钮
+    normalizeCodeBlocks(clone);
+
     // 移除事件处理器属性
     this.removeEventAttributes(clone);
 
+    // 补全相对地址、清理跟踪参数和无效链接
+    this.processLinks(clone, element.ownerDocument?.baseURI || window.location.href);
+
     return clone.outerHTML;
   }
 
-  private setupCustomRules(): void {}
+  private setupCustomRules(): void {
+    // 公式：恢复 TeX 源码输出为 $...$ / $$...$$
+    this.turndownService.addRule('math', {
+      filter: node => isMathNode(node) && !!extractMathSource(node),
+      replacement: (content, node) => {
+        const source = extractMathSource(node as Element);
+        return source ? formatMath(source) : content;
+      },
+    });
+
+    // 引用 / 脚注样式的链接
+    this.turndownService.addRule('linkReferences', {
+      filter: node =>
+        this.getLinkHandling().style !== 'inlined' && node.nodeName === 'A' && !!node.getAttribute('href'),
+      replacement: (content, node) => {
+        if (!content.trim()) return content;
+
+        const element = node as HTMLElement;
+        const index = this.addLinkReference(element.getAttribute('href') || '', element.getAttribute('title') || '');
+        return this.getLinkHandling().style === 'footnote' ? `${content}[^${index}]` : `[${content}][${index}]`;
+      },
+    });
+
+    this.ruleRegistry.applySettings(this.options.turndownRules);
+
+    // 统一的站点规则入口：后添加的规则优先于内置规则
+    const findRule = (node: HTMLElement) => this.activeRules.find(rule => rule.filter(node));
+    this.turndownService.addRule('siteRules', {
+      filter: node => !!findRule(node),
+      replacement: (content, node) =>
+        findRule(node as HTMLElement)?.replacement(content, node as HTMLElement) ?? content,
+    });
+  }
+
+  // 来源网址：按网址清理设置使用规范链接并去掉跟踪参数
+  private getSourceUrl(): string {
+    const settings = this.options.urlCleaning;
+    if (!settings?.cleanFrontmatterUrl) return window.location.href;
 
-  private generateFrontmatter(element?: Element): string {
-    const now = new Date();
-    const datetime = now.toISOString();
-    const source = window.location.href;
+    const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"][href]')?.href;
+    return resolveCleanUrl(window.location.href, settings, canonical);
+  }
+
+  private getLinkHandling(): LinkHandlingSettings {
+    return { ...DEFAULT_LINK_HANDLING, ...this.options.linkHandling };
+  }
+
+  private processLinks(clone: Element, baseUrl: string): void {
+    const settings = this.getLinkHandling();
+
+    if (settings.resolveRelative) {
+      absolutizeUrls(clone, baseUrl);
+    }
+
+    clone.querySelectorAll('a').forEach(link => {
+      const href = (link.getAttribute('href') || '').trim();
+
+      if (settings.removeEmptyLinks) {
+        const text = link.textContent || '';
+        const hasMedia = !!link.querySelector('img, picture, video, svg');
+        // 没有内容或只有锚点符号的链接整个删除，其余只去掉链接保留文字
+        if (!hasMedia && (!text.trim() || (isDeadHref(href) && ANCHOR_SYMBOL_PATTERN.test(text)))) {
+          link.remove();
+          return;
+        }
+        if (isDeadHref(href)) {
+          link.replaceWith(...Array.from(link.childNodes));
+          return;
+        }
+      }
+
+      if (settings.stripTracking && href) {
+        link.setAttribute('href', stripTrackingParams(href));
+      }
+    });
+  }
+
+  // 相同地址只记录一次，返回编号
+  private addLinkReference(url: string, title: string): number {
+    const existing = this.linkReferences.findIndex(reference => reference.url === url);
+    if (existing >= 0) return existing + 1;
+
+    this.linkReferences.push({ url, title });
+    return this.linkReferences.length;
+  }
+
+  private formatLinkReferences(): string {
+    if (this.linkReferences.length === 0) return '';
+
+    const footnote = this.getLinkHandling().style === 'footnote';
+    const definitions = this.linkReferences.map(({ url, title }, index) => {
+      // 地址中有空格时用尖括号包裹，否则定义无法解析
+      const destination = /\s/.test(url) ? `<${url}>` : url;
+      if (footnote) {
+        return `[^${index + 1}]: ${title ? `${title} ` : ''}${destination}`;
+      }
+      return `[${index + 1}]: ${destination}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''}`;
+    });
+
+    return `\n\n${definitions.join('\n')}`;
+  }
+
+  private createDocumentInfo(element?: Element): DocumentInfo {
     const title = this.options.customTitle || this.extractTitle(element);
-    const slug = this.options.customSlug || this.generateSlug(title);
+    return {
+      title,
+      slug: this.options.customSlug || this.generateSlug(title),
+      url: this.getSourceUrl(),
+      tags: (this.options.frontmatterTemplate?.tags || []).filter(tag => tag.trim()),
+    };
+  }
 
-    return `---
-title: ${title}
-slug: ${slug}
-source: ${source}
-datetime: ${datetime}
----
+  private generateFrontmatter({ title, slug, url, tags }: DocumentInfo): string {
+    const template = this.options.frontmatterTemplate;
+    const format = template?.format || 'yaml';
+    if (format === 'none') return '';
+
+    const fields = (template?.fields || DEFAULT_FIELDS).filter(field => field.enabled && field.key.trim());
+
+    const entries: FrontmatterEntry[] = [];
+    fields.forEach(field => {
+      const key = field.key.trim();
+      switch (field.source) {
+        case 'title':
+          entries.push({ key, value: title });
+          break;
+        case 'slug':
+          entries.push({ key, value: slug });
+          break;
+        case 'source':
+          entries.push({ key, value: url });
+          break;
+        case 'datetime':
+          entries.push({ key, value: formatFrontmatterDate(new Date(), template?.dateFormat || 'ISO'), isDate: true });
+          break;
+        case 'domain':
+          entries.push({ key, value: window.location.hostname });
+          break;
+        case 'tags':
+          entries.push({ key, value: tags });
+          break;
+        case 'author': {
+          // 页面中没有的信息不输出
+          const author = this.extractMetaContent(['meta[name="author"]', 'meta[property="article:author"]']);
+          if (author) entries.push({ key, value: author });
+          break;
+        }
+        case 'description': {
+          const description = this.extractMetaContent(['meta[name="description"]', 'meta[property="og:description"]']);
+          if (description) entries.push({ key, value: description });
+          break;
+        }
+        case 'static':
+          entries.push({ key, value: field.value || '' });
+          break;
+      }
+    });
+
+    return serializeFrontmatter(entries, format);
+  }
 
-`;
+  private extractMetaContent(selectors: string[]): string | null {
+    for (const selector of selectors) {
+      const meta = document.querySelector(selector) as HTMLMetaElement | null;
+      if (meta?.content?.trim()) {
+        return meta.content.trim().replace(/\s+/g, ' ');
+      }
+    }
+    return null;
   }
 
   private extractTitle(element?: Element): string {
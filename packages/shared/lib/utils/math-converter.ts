@@ -0,0 +1,129 @@
+interface MathSource {
+  tex: string;
+  display: boolean;
+}
+
+// MathJax v3 页面脚本中的公式项
+interface MathJaxItem {
+  math?: string;
+  display?: boolean;
+  typesetRoot?: Element | null;
+}
+
+// KaTeX、MathJax v3、Wikipedia、MathML 以及带 TeX 属性的公式节点
+const MATH_SELECTOR = [
+  '.katex-display',
+  '.katex',
+  'mjx-container',
+  '.mwe-math-element',
+  'math',
+  '.ztext-math',
+  '[data-tex]',
+  '[data-latex]',
+  '[data-math-tex]',
+].join(', ');
+
+// MathJax v2 渲染结果，源码保存在 script[type^="math/tex"] 中
+const MATHJAX_V2_RENDERED = [
+  '.MathJax_Preview',
+  'span.MathJax',
+  'div.MathJax_Display',
+  'span.MathJax_SVG',
+  'div.MathJax_SVG_Display',
+  'span.MathJax_CHTML',
+  'div.MathJax_CHTML',
+  '.MJX_Assistive_MathML',
+].join(', ');
+
+// 去掉 Wikipedia 等渲染器添加的 {\displaystyle ...} 包裹
+const unwrapStyle = (tex: string): string => {
+  const match = tex.match(/^\{\\(?:displaystyle|textstyle)\s*([\s\S]*)\}$/);
+  return (match ? match[1] : tex).trim();
+};
+
+const isDisplayMath = (node: Element): boolean =>
+  node.classList.contains('katex-display') ||
+  node.getAttribute('data-math-display') === 'true' ||
+  ['true', 'block'].includes(node.getAttribute('display') || '') ||
+  !!node.querySelector('.katex-display, math[display="block"], .mwe-math-fallback-image-display');
+
+/**
+ * MathJax v2 的源码在 script 标签中，清理 HTML 前先转换为带 data-tex 的节点，并移除重复的渲染结果。
+ */
+export const preserveMathSource = (root: Element): void => {
+  const scripts = root.querySelectorAll('script[type^="math/tex"]');
+  if (scripts.length === 0) return;
+
+  root.querySelectorAll(MATHJAX_V2_RENDERED).forEach(el => el.remove());
+
+  scripts.forEach(script => {
+    const placeholder = script.ownerDocument.createElement('span');
+    placeholder.setAttribute('data-tex', script.textContent || '');
+    if ((script.getAttribute('type') || '').includes('mode=display')) {
+      placeholder.setAttribute('data-math-display', 'true');
+    }
+    script.replaceWith(placeholder);
+  });
+};
+
+export const isMathNode = (node: Element): boolean => {
+  try {
+    return node.matches(MATH_SELECTOR);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * MathJax v3 的 TeX 源码只保存在页面脚本的 MathJax.startup.document 中，内容脚本读取不到。
+ * 通过 chrome.scripting.executeScript 在页面环境（MAIN world）中执行，把源码写入 mjx-container 的 data-tex，返回写入的数量。
+ * 注入时只序列化函数体，不能引用模块中的其他变量。
+ */
+export const annotateMathJaxSources = (): number => {
+  const mathJax = (window as unknown as { MathJax?: { startup?: { document?: { math?: Iterable<MathJaxItem> } } } })
+    .MathJax;
+  const items = mathJax?.startup?.document?.math;
+  if (!items) return 0;
+
+  let count = 0;
+  for (const item of items) {
+    const root = item.typesetRoot;
+    if (!root || !item.math || root.hasAttribute('data-tex')) continue;
+
+    root.setAttribute('data-tex', item.math);
+    if (item.display) root.setAttribute('data-math-display', 'true');
+    count++;
+  }
+  return count;
+};
+
+/**
+ * 页面中有未写入源码的 MathJax v3 公式时，请后台在页面环境中执行 annotateMathJaxSources。
+ */
+export const requestMathJaxSources = async (root: ParentNode = document): Promise<void> => {
+  if (!root.querySelector('mjx-container:not([data-tex])')) return;
+
+  try {
+    await chrome.runtime.sendMessage({ action: 'annotateMathSources' });
+  } catch (error) {
+    console.warn('读取 MathJax 公式源码失败:', error);
+  }
+};
+
+// 依次从属性、TeX 注释、MathML alttext、回退图片的 alt 中恢复 TeX 源码
+export const extractMathSource = (node: Element): MathSource | null => {
+  const attributeTex =
+    node.getAttribute('data-tex') || node.getAttribute('data-latex') || node.getAttribute('data-math-tex');
+  const annotationTex = node.querySelector('annotation[encoding="application/x-tex"]')?.textContent;
+  const mathElement = node.nodeName.toLowerCase() === 'math' ? node : node.querySelector('math');
+  const altTex =
+    mathElement?.getAttribute('alttext') ||
+    node.querySelector('img.mwe-math-fallback-image-inline, img.mwe-math-fallback-image-display')?.getAttribute('alt');
+
+  const tex = unwrapStyle(attributeTex || annotationTex || altTex || '');
+  if (!tex) return null;
+
+  return { tex, display: isDisplayMath(node) };
+};
+
+export const formatMath = ({ tex, display }: MathSource): string => (display ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`);
@@ -0,0 +1,180 @@
+// 分页文章的“下一页”检测与后续页面抓取
+
+// 常见的“下一页”链接文本
+const NEXT_TEXT_PATTERN = /^(?:下一页|下一頁|下页|后一页|next(?:\s*page)?|older\s+posts?|[›»→>])\s*[›»→>]*$/i;
+const NEXT_HINT_PATTERN = /(?:^|[\s_-])next(?:$|[\s_-])|下一页|下一頁/i;
+const PAGINATION_CONTAINERS =
+  '.pagination, .pager, .paging, .page-nav, .page-navigation, .pagenavi, .pages, [class*="pagination"], [class*="pager"], nav[aria-label*="page" i]';
+// URL 中的页码：查询参数 page=2 或路径 /page/2、_2.html
+const PAGE_PARAM_PATTERN = /([?&](?:page|p|pn|pg|paged)=)(\d+)/i;
+const PAGE_PATH_PATTERN = /(\/page\/|_)(\d+)(\.s?html?|\/)?$/i;
+// 抓取后重写为绝对地址的属性
+const URL_ATTRIBUTES = ['href', 'src', 'data-src', 'poster'];
+
+// 去掉 hash 后的地址，用于判断是否访问过
+const normalizeUrl = (url: string): string => url.split('#')[0];
+
+const toAbsoluteUrl = (href: string | null, baseUrl: string): string | null => {
+  if (!href || /^(?:javascript|mailto|tel):/i.test(href.trim())) return null;
+
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return null;
+  }
+};
+
+// 忽略 www. / m. 前缀的主机名，桌面版和移动版镜像视为同一站点
+const getSiteHost = (url: string): string => new URL(url).hostname.replace(/^(?:www|m)\./, '');
+
+// 只接受同站点、未访问且不是当前页的地址
+const isCandidateUrl = (url: string | null, currentUrl: string, visited: Set<string>): url is string => {
+  if (!url) return false;
+
+  try {
+    if (getSiteHost(url) !== getSiteHost(currentUrl)) return false;
+  } catch {
+    return false;
+  }
+
+  const normalized = normalizeUrl(url);
+  return normalized !== normalizeUrl(currentUrl) && !visited.has(normalized);
+};
+
+const getLinkUrl = (element: Element, baseUrl: string): string | null =>
+  toAbsoluteUrl(
+    element.getAttribute('href') || element.getAttribute('data-href') || element.getAttribute('data-url'),
+    baseUrl,
+  );
+
+// 页码加一后的地址，无法识别页码时返回 null
+const getIncrementedUrl = (url: string): string | null => {
+  const pathUrl = normalizeUrl(url);
+
+  if (PAGE_PARAM_PATTERN.test(pathUrl)) {
+    return pathUrl.replace(PAGE_PARAM_PATTERN, (_, prefix: string, page: string) => `${prefix}${Number(page) + 1}`);
+  }
+
+  const [path, query = ''] = pathUrl.split('?');
+  if (PAGE_PATH_PATTERN.test(path)) {
+    const nextPath = path.replace(
+      PAGE_PATH_PATTERN,
+      (_, prefix: string, page: string, suffix = '') => `${prefix}${Number(page) + 1}${suffix}`,
+    );
+    return query ? `${nextPath}?${query}` : nextPath;
+  }
+
+  return null;
+};
+
+// 从 Content-Type 或 meta 标签中识别编码，避免 GBK 等页面乱码
+const detectCharset = (buffer: ArrayBuffer, contentType: string | null): string => {
+  const headerCharset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (headerCharset) return headerCharset;
+
+  const head = new TextDecoder('latin1').decode(buffer.slice(0, 2048));
+  return head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+};
+
+/**
+ * 查找下一页地址，依次尝试：预设选择器、rel="next"、分页区域中的“下一页”链接、页码加一的链接。
+ */
+export const findNextPageUrl = (
+  doc: Document,
+  currentUrl: string,
+  options: { selector?: string; visited?: Set<string> } = {},
+): string | null => {
+  const visited = options.visited || new Set<string>();
+  const accept = (url: string | null) => (isCandidateUrl(url, currentUrl, visited) ? url : null);
+
+  // 1. 预设中配置的选择器
+  if (options.selector) {
+    try {
+      const element = doc.querySelector(options.selector);
+      const url = element && accept(getLinkUrl(element, currentUrl));
+      if (url) return url;
+    } catch {
+      console.error('下一页选择器无效:', options.selector);
+    }
+  }
+
+  // 2. rel="next"
+  for (const element of Array.from(doc.querySelectorAll('link[rel~="next" i], a[rel~="next" i]'))) {
+    const url = accept(getLinkUrl(element, currentUrl));
+    if (url) return url;
+  }
+
+  // 3. “下一页”文本或 next 类名，分页区域内的链接优先
+  const anchors = Array.from(doc.querySelectorAll('a[href]'));
+  const inPagination = (element: Element) => !!element.closest(PAGINATION_CONTAINERS);
+  const isNextLink = (element: Element) => {
+    const text = element.textContent?.replace(/\s+/g, ' ').trim() || '';
+    if (NEXT_TEXT_PATTERN.test(text)) return true;
+
+    const hints = [element.getAttribute('aria-label'), element.getAttribute('title'), element.className]
+      .filter(Boolean)
+      .join(' ');
+    return NEXT_HINT_PATTERN.test(hints);
+  };
+
+  const nextLinks = anchors.filter(isNextLink).sort((a, b) => Number(inPagination(b)) - Number(inPagination(a)));
+  for (const element of nextLinks) {
+    const url = accept(getLinkUrl(element, currentUrl));
+    if (url) return url;
+  }
+
+  // 4. 页面中存在页码加一的链接
+  const incremented = accept(getIncrementedUrl(currentUrl));
+  if (incremented && anchors.some(element => normalizeUrl(getLinkUrl(element, currentUrl) || '') === incremented)) {
+    return incremented;
+  }
+
+  return null;
+};
+
+/**
+ * 抓取页面 HTML 并按页面编码解码，携带当前登录状态。
+ * 在后台运行，使用扩展的主机权限，不受页面 CORS 限制。
+ */
+export const fetchPageHtml = async (url: string): Promise<string> => {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const buffer = await response.arrayBuffer();
+  const charset = detectCharset(buffer, response.headers.get('content-type'));
+
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+};
+
+/**
+ * 通过后台抓取并解析页面。
+ */
+export const fetchPageDocument = async (url: string): Promise<Document> => {
+  const response = await chrome.runtime.sendMessage({ action: 'fetchPageHtml', url });
+  if (!response?.success) {
+    throw new Error(response?.error || '抓取页面失败');
+  }
+
+  return new DOMParser().parseFromString(response.html, 'text/html');
+};
+
+// 抓取页面中的相对地址需要按该页地址解析，否则会指向当前页
+export const absolutizeUrls = (element: Element, baseUrl: string): void => {
+  const elements = [element, ...Array.from(element.querySelectorAll('*'))];
+
+  elements.forEach(el => {
+    URL_ATTRIBUTES.forEach(attribute => {
+      const value = el.getAttribute(attribute);
+      if (!value || value.startsWith('#') || value.startsWith('data:')) return;
+
+      const absolute = toAbsoluteUrl(value, baseUrl);
+      if (absolute) el.setAttribute(attribute, absolute);
+    });
+  });
+};
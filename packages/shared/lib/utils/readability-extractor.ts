@@ -0,0 +1,237 @@
+import { preserveMathSource } from './math-converter.js';
+
+// 参考 Mozilla Readability 的正则
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const TAGS_TO_SCORE = new Set(['SECTION', 'H2', 'H3', 'H4', 'H5', 'H6', 'P', 'TD', 'PRE']);
+const BLOCK_TAGS = 'a, blockquote, dl, div, img, ol, p, pre, table, ul, section, article';
+const BOILERPLATE_SELECTOR =
+  'script, style, noscript, form, iframe, button, input, select, textarea, nav, aside, footer';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const TOP_CANDIDATE_COUNT = 5;
+
+export interface ReadabilityResult {
+  // 页面中被选中的正文元素
+  element: Element;
+  // 清理后的正文 DOM（克隆，不影响页面）
+  article: Element;
+  score: number;
+}
+
+export class ReadabilityExtractor {
+  private scores = new Map<Element, number>();
+
+  /**
+   * 对段落打分并向祖先节点传播，选出得分最高的正文节点，再生成清理后的正文 DOM。
+   */
+  extract(root: Element = document.body): ReadabilityResult | null {
+    this.scores.clear();
+
+    const paragraphs = this.collectParagraphs(root);
+    paragraphs.forEach(paragraph => this.scoreParagraph(paragraph));
+
+    if (this.scores.size === 0) return null;
+
+    // 按链接密度修正最终得分
+    const candidates = Array.from(this.scores.entries())
+      .map(([element, score]) => ({ element, score: score * (1 - this.getLinkDensity(element)) }))
+      .sort((a, b) => b.score - a.score);
+
+    let topCandidate = candidates[0];
+    const alternatives = candidates.slice(1, TOP_CANDIDATE_COUNT).filter(c => c.score >= topCandidate.score * 0.75);
+
+    // 多个高分候选共享祖先时，说明正文被拆分在多个容器中，提升到公共祖先
+    if (alternatives.length >= 2) {
+      let parent = topCandidate.element.parentElement;
+      while (parent && parent !== root.parentElement) {
+        const containedCount = alternatives.filter(c => parent!.contains(c.element)).length;
+        if (containedCount >= 2) {
+          topCandidate = { element: parent, score: this.scores.get(parent) || topCandidate.score };
+          break;
+        }
+        parent = parent.parentElement;
+      }
+    }
+
+    return {
+      element: topCandidate.element,
+      article: this.buildArticle(topCandidate.element),
+      score: topCandidate.score,
+    };
+  }
+
+  private collectParagraphs(root: Element): Element[] {
+    const paragraphs: Element[] = [];
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+    let node = walker.currentNode as Element | null;
+
+    while (node) {
+      if (node !== root && this.isUnlikelyCandidate(node)) {
+        // 跳过整个子树
+        node = this.nextSkippingChildren(walker);
+        continue;
+      }
+
+      // 没有块级子元素的 div 视为段落
+      if (TAGS_TO_SCORE.has(node.tagName) || (node.tagName === 'DIV' && !node.querySelector(BLOCK_TAGS))) {
+        paragraphs.push(node);
+      }
+
+      node = walker.nextNode() as Element | null;
+    }
+
+    return paragraphs;
+  }
+
+  private nextSkippingChildren(walker: TreeWalker): Element | null {
+    let next = walker.nextSibling();
+    while (!next && walker.parentNode()) {
+      next = walker.nextSibling();
+    }
+    return next as Element | null;
+  }
+
+  private isUnlikelyCandidate(element: Element): boolean {
+    if (['BODY', 'ARTICLE', 'MAIN'].includes(element.tagName)) return false;
+    if (element.getAttribute('aria-hidden') === 'true' || (element as HTMLElement).hidden) return true;
+
+    const role = element.getAttribute('role');
+    if (role && ['menu', 'menubar', 'complementary', 'navigation', 'alert', 'alertdialog', 'dialog'].includes(role)) {
+      return true;
+    }
+
+    const matchString = `${element.className} ${element.id}`;
+    return UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString);
+  }
+
+  private scoreParagraph(paragraph: Element): void {
+    const text = this.getInnerText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // 基础分 + 逗号数 + 每 100 字符 1 分（最多 3 分）
+    const contentScore = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parentElement;
+    for (let level = 0; ancestor && level < 3; level++) {
+      if (!ancestor.tagName || ancestor === document.documentElement) break;
+
+      if (!this.scores.has(ancestor)) {
+        this.scores.set(ancestor, this.getInitialScore(ancestor));
+      }
+
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      this.scores.set(ancestor, this.scores.get(ancestor)! + contentScore / divider);
+      ancestor = ancestor.parentElement;
+    }
+  }
+
+  private getInitialScore(element: Element): number {
+    let score = this.getClassWeight(element);
+
+    switch (element.tagName) {
+      case 'DIV':
+        score += 5;
+        break;
+      case 'PRE':
+      case 'TD':
+      case 'BLOCKQUOTE':
+        score += 3;
+        break;
+      case 'ADDRESS':
+      case 'OL':
+      case 'UL':
+      case 'DL':
+      case 'DD':
+      case 'DT':
+      case 'LI':
+      case 'FORM':
+        score -= 3;
+        break;
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6':
+      case 'TH':
+        score -= 5;
+        break;
+    }
+
+    return score;
+  }
+
+  private getClassWeight(element: Element): number {
+    let weight = 0;
+    [element.className, element.id].forEach(value => {
+      if (typeof value !== 'string' || !value) return;
+      if (NEGATIVE.test(value)) weight -= 25;
+      if (POSITIVE.test(value)) weight += 25;
+    });
+    return weight;
+  }
+
+  private getInnerText(element: Element): string {
+    return (element.textContent || '').trim().replace(/\s{2,}/g, ' ');
+  }
+
+  private getLinkDensity(element: Element): number {
+    const textLength = this.getInnerText(element).length;
+    if (textLength === 0) return 0;
+
+    let linkLength = 0;
+    element.querySelectorAll('a').forEach(link => {
+      const href = link.getAttribute('href');
+      // 页内锚点链接权重较低
+      const coefficient = href && href.startsWith('#') ? 0.3 : 1;
+      linkLength += this.getInnerText(link).length * coefficient;
+    });
+
+    return linkLength / textLength;
+  }
+
+  // 克隆正文节点并移除样板内容
+  private buildArticle(element: Element): Element {
+    const article = element.cloneNode(true) as Element;
+
+    // 移除 script 前先保留 MathJax 公式源码
+    preserveMathSource(article);
+    article.querySelectorAll(BOILERPLATE_SELECTOR).forEach(el => el.remove());
+
+    article.querySelectorAll('*').forEach(el => {
+      if (!article.contains(el)) return;
+      const matchString = `${typeof el.className === 'string' ? el.className : ''} ${el.id}`;
+      if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+        el.remove();
+      }
+    });
+
+    // 条件清理：权重为负或链接密度高且内容较少的容器
+    article.querySelectorAll('div, section, ul, ol, table').forEach(el => {
+      if (!article.contains(el) || el.parentElement?.closest('pre, code')) return;
+
+      const text = this.getInnerText(el);
+      const isBoilerplate = this.getClassWeight(el) < 0 || (this.getLinkDensity(el) > 0.5 && text.length < 200);
+
+      // 保留包含公式、代码或图片的节点
+      if (isBoilerplate && !el.querySelector('img, pre, code, math, .katex, mjx-container')) {
+        el.remove();
+      }
+    });
+
+    // 移除空段落
+    article.querySelectorAll('p').forEach(p => {
+      if (!this.getInnerText(p) && !p.querySelector('img, embed, object, video, math')) {
+        p.remove();
+      }
+    });
+
+    return article;
+  }
+}
@@ -0,0 +1,308 @@
+import { getFrameDocument, getRootChain } from './deep-dom.js';
+import type { QueryRoot } from './deep-dom.js';
+
+// 按优先级尝试的稳定属性
+const STABLE_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'data-cy', 'itemprop', 'aria-label', 'role', 'name'];
+
+// CSS-in-JS、CSS Modules 等生成的类名前缀
+const GENERATED_CLASS_PREFIX = /^(?:css|sc|jsx|emotion|styled|svelte|tw)-/i;
+// Tailwind 等原子类
+const UTILITY_CLASS =
+  /^-?(?:[pm][xytblr]?|w|h|min-w|max-w|min-h|max-h|gap|space-[xy]|z|top|left|right|bottom|inset|text|bg|border|rounded|shadow|font|leading|tracking|opacity|order|col|row|basis|grow|shrink)-(?:\d|px|auto|full|screen|xs|sm|md|lg|xl|\d?xl|none|[a-z]+-\d{2,3}$)/;
+const LAYOUT_CLASS =
+  /^(?:flex|grid|block|inline|inline-block|inline-flex|hidden|relative|absolute|fixed|sticky|container|clearfix)$/;
+
+const MAX_CLASSES_PER_STEP = 2;
+const MAX_SELECTORS = 5;
+
+// 路径中跨越 shadow root / iframe 的分隔符，例如 `my-app >>shadow>> article`
+const SHADOW_HOP = ' >>shadow>> ';
+const FRAME_HOP = ' >>frame>> ';
+const HOP_PATTERN = / >>(shadow|frame)>> /;
+
+const escapeAttributeValue = (value: string) => value.replace(/["\\]/g, '\\$&');
+
+// 判断 id、类名等标识是否稳定（排除哈希、长数字、原子类以及扩展自身添加的类）
+const isStableToken = (value: string): boolean => {
+  if (!value || value.length > 40) return false;
+  if (value.startsWith('lovpensider')) return false;
+  if (/\d{3,}/.test(value) || /[:[\]/]/.test(value)) return false;
+  if (GENERATED_CLASS_PREFIX.test(value) || UTILITY_CLASS.test(value) || LAYOUT_CLASS.test(value)) return false;
+  // 同时包含字母和数字的长片段，通常是构建工具生成的哈希，例如 title_a1b2c
+  return !value.split(/[-_]+/).some(segment => segment.length >= 5 && /\d/.test(segment) && /[a-z]/i.test(segment));
+};
+
+const getStableClasses = (element: Element): string[] =>
+  Array.from(element.classList).filter(isStableToken).slice(0, MAX_CLASSES_PER_STEP);
+
+// 元素所在的文档或 shadow root，唯一性只在该范围内校验
+const getQueryRoot = (element: Element): QueryRoot => {
+  const root = element.getRootNode();
+  return root.nodeType === Node.DOCUMENT_NODE || root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? (root as QueryRoot)
+    : element.ownerDocument;
+};
+
+const isDocumentRoot = (root: QueryRoot): root is Document => root.nodeType === Node.DOCUMENT_NODE;
+
+const isUnique = (selector: string, element: Element): boolean => {
+  try {
+    const matches = getQueryRoot(element).querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch {
+    return false;
+  }
+};
+
+// 元素自身可用于唯一定位的选择器，按稳定程度排序
+const getIdentitySelectors = (element: Element): string[] => {
+  const tag = element.tagName.toLowerCase();
+  const selectors: string[] = [];
+
+  if (element.id && isStableToken(element.id)) {
+    selectors.push(`#${CSS.escape(element.id)}`);
+  }
+
+  STABLE_ATTRIBUTES.forEach(attribute => {
+    const value = element.getAttribute(attribute);
+    if (value && value.length <= 80 && !/\d{3,}/.test(value)) {
+      selectors.push(`${tag}[${attribute}="${escapeAttributeValue(value)}"]`);
+    }
+  });
+
+  const classes = getStableClasses(element);
+  if (classes.length > 0) {
+    selectors.push(`${tag}${classes.map(cls => `.${CSS.escape(cls)}`).join('')}`);
+  }
+
+  return selectors;
+};
+
+const getNthOfType = (element: Element): number | null => {
+  // shadow root 顶层元素没有 parentElement；html 元素在文档中唯一
+  const parent = element.parentNode as ParentNode | null;
+  if (!parent || parent.nodeType === Node.DOCUMENT_NODE) return null;
+
+  const siblings = Array.from(parent.children).filter(sibling => sibling.tagName === element.tagName);
+  return siblings.length > 1 ? siblings.indexOf(element) + 1 : null;
+};
+
+// 路径中的一级：标签 + 稳定类名 + 同类型序号
+const getPathStep = (element: Element, withClasses: boolean): string => {
+  let step = element.tagName.toLowerCase();
+  if (withClasses) {
+    step += getStableClasses(element)
+      .map(cls => `.${CSS.escape(cls)}`)
+      .join('');
+  }
+
+  const index = getNthOfType(element);
+  return index ? `${step}:nth-of-type(${index})` : step;
+};
+
+// 向上查找最近的可唯一定位的祖先，作为相对路径的锚点
+const findAnchor = (element: Element): { ancestor: Element; selector: string } | null => {
+  let ancestor = element.parentElement;
+
+  // shadow root 顶层的 parentElement 为 null，自然停止
+  while (ancestor && ancestor !== element.ownerDocument.body) {
+    const selector = getIdentitySelectors(ancestor).find(candidate => isUnique(candidate, ancestor!));
+    if (selector) return { ancestor, selector };
+    ancestor = ancestor.parentElement;
+  }
+
+  return null;
+};
+
+// from 为 null 时一直构建到所在根的顶层
+const buildChildPath = (from: Element | null, to: Element, withClasses: boolean): string => {
+  const steps: string[] = [];
+  let current: Element | null = to;
+
+  while (current && current !== from) {
+    steps.unshift(getPathStep(current, withClasses));
+    current = current.parentElement;
+  }
+
+  return steps.join(' > ');
+};
+
+const isXPath = (selector: string) => selector.startsWith('/') || selector.startsWith('(');
+
+// 按顶层逗号拆分选择器列表，忽略引号、方括号和圆括号内的逗号
+const splitSelectorList = (path: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(path.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  items.push(path.slice(start).trim());
+  return items.filter(Boolean);
+};
+
+// 在单个根中解析 CSS 选择器或 XPath（XPath 仅支持文档根）
+const resolveInRoot = (selector: string, root: QueryRoot): Element[] => {
+  if (!isXPath(selector)) return Array.from(root.querySelectorAll(selector));
+  if (!isDocumentRoot(root)) return [];
+
+  const snapshot = root.evaluate(selector, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+  const elements: Element[] = [];
+  for (let i = 0; i < snapshot.snapshotLength; i++) {
+    const node = snapshot.snapshotItem(i);
+    if (node && node.nodeType === Node.ELEMENT_NODE) elements.push(node as Element);
+  }
+  return elements;
+};
+
+// 逐跳解析带 shadow/frame 分隔符的路径
+const resolvePath = (path: string, root: QueryRoot): Element[] => {
+  // split 结果为 [选择器, 跳转类型, 选择器, ...]
+  const parts = path.split(HOP_PATTERN);
+  let roots: QueryRoot[] = [root];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const elements = roots.flatMap(current => resolveInRoot(parts[i].trim(), current));
+    const hop = parts[i + 1];
+    if (!hop) return elements;
+
+    roots = elements
+      .map(element => (hop === 'shadow' ? element.shadowRoot : getFrameDocument(element)))
+      .filter((next): next is QueryRoot => !!next);
+  }
+
+  return [];
+};
+
+// 在元素所在的根（文档或 shadow root）内生成选择器
+const generateLocalSelectors = (element: Element): string[] => {
+  const root = getQueryRoot(element);
+  const candidates: string[] = [...getIdentitySelectors(element)];
+  const body = element.ownerDocument.body;
+
+  const anchor = findAnchor(element);
+  if (anchor) {
+    candidates.push(`${anchor.selector} ${getPathStep(element, true)}`);
+    candidates.push(`${anchor.selector} > ${buildChildPath(anchor.ancestor, element, true)}`);
+  }
+
+  // 仅依赖标签和位置的结构路径，类名变化时仍然有效
+  const structuralPath = isDocumentRoot(root)
+    ? element !== body && body.contains(element)
+      ? `body > ${buildChildPath(body, element, false)}`
+      : ''
+    : buildChildPath(null, element, false);
+  if (structuralPath) {
+    candidates.push(structuralPath);
+  }
+
+  const selectors = Array.from(new Set(candidates))
+    .filter(selector => isUnique(selector, element))
+    .slice(0, MAX_SELECTORS - 1);
+
+  if (isDocumentRoot(root)) {
+    selectors.push(generateXPath(element));
+  } else if (selectors.length === 0) {
+    // shadow root 中无法使用 XPath，没有唯一选择器时退回结构路径
+    selectors.push(structuralPath);
+  }
+
+  return selectors;
+};
+
+/**
+ * 生成元素的 XPath，优先从最近的带稳定 id 的祖先开始。
+ */
+export const generateXPath = (element: Element): string => {
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.nodeType === Node.ELEMENT_NODE) {
+    if (current.id && isStableToken(current.id) && !current.id.includes('"')) {
+      steps.unshift(`//*[@id="${current.id}"]`);
+      return steps.join('/');
+    }
+
+    const tag = current.tagName.toLowerCase();
+    const index = getNthOfType(current);
+    // SVG 等非 HTML 命名空间的元素需要用 local-name() 匹配
+    const name = current.namespaceURI === 'http://www.w3.org/1999/xhtml' ? tag : `*[local-name()="${tag}"]`;
+    steps.unshift(index ? `${name}[${index}]` : name);
+    current = current.parentElement;
+  }
+
+  return `/${steps.join('/')}`;
+};
+
+/**
+ * 为元素生成经过唯一性校验的选择器列表，按稳定程度排序：
+ * 自身标识（id、data-testid、aria-*、role、稳定类名）→ 锚点相对路径 → 结构路径 → XPath。
+ * 位于 shadow root 或同源 iframe 中时，以外层宿主的最佳选择器加分隔符作为前缀。
+ */
+export const generateStableSelectors = (element: Element): string[] => {
+  const chain = getRootChain(element);
+
+  // chain[i] 位于 shadow root 中时宿主 chain[i + 1] 之后是 shadow 跳转，否则是 iframe 跳转
+  let prefix = '';
+  for (let i = chain.length - 1; i > 0; i--) {
+    const hop = chain[i - 1].getRootNode().nodeType === Node.DOCUMENT_FRAGMENT_NODE ? SHADOW_HOP : FRAME_HOP;
+    prefix += `${generateLocalSelectors(chain[i])[0]}${hop}`;
+  }
+
+  return generateLocalSelectors(element).map(selector => `${prefix}${selector}`);
+};
+
+export const isSelectorList = (path: string): boolean => splitSelectorList(path).length > 1;
+
+/**
+ * 解析 CSS 选择器、XPath（以 / 或 ( 开头）或带 shadow/frame 分隔符的路径，支持逗号分隔的列表。
+ */
+export const resolveSelector = (path: string, root: Document = document): Element[] => {
+  if (!path.trim()) return [];
+
+  try {
+    const items = splitSelectorList(path);
+
+    // 纯 CSS 选择器列表直接查询，保持文档顺序
+    if (!HOP_PATTERN.test(path) && !items.some(isXPath)) {
+      return Array.from(root.querySelectorAll(path));
+    }
+
+    const elements = items.flatMap(item => resolvePath(item, root));
+    return Array.from(new Set(elements));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 依次尝试主选择器和备用选择器，返回第一个匹配成功的结果。
+ */
+export const resolveSelectorWithFallbacks = (
+  selectors: string[],
+  root: Document = document,
+): { selector: string; elements: Element[] } | null => {
+  for (const selector of selectors) {
+    const elements = resolveSelector(selector, root);
+    if (elements.length > 0) {
+      return { selector, elements };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,76 @@
+import { markdownSnippetToHtml } from './clipboard-html.js';
+import { renderCopyTemplate } from './copy-template.js';
+import { tableToCSV } from './table-extractor.js';
+import type { TabListOptions, TabListStyle } from '@extension/storage';
+
+// 复制标签页列表：每个标签页按复制格式渲染，再组合为列表
+
+// 浏览器内部页面和扩展页面
+const INTERNAL_URL_PATTERN = /^(?:chrome|chrome-extension|chrome-search|edge|about|devtools|view-source|file):/i;
+
+export interface TabListEntry {
+  title: string;
+  url: string;
+}
+
+/**
+ * 按选项过滤标签页：跳过浏览器内部页面，按网址去重（忽略 #hash），保留原有顺序。
+ */
+export const filterTabList = (
+  tabs: TabListEntry[],
+  options: Pick<TabListOptions, 'dedupe' | 'skipInternal'>,
+): TabListEntry[] => {
+  const seen = new Set<string>();
+  return tabs.filter(tab => {
+    if (!tab.url) return false;
+    if (options.skipInternal && INTERNAL_URL_PATTERN.test(tab.url)) return false;
+    if (!options.dedupe) return true;
+
+    const key = tab.url.replace(/#.*$/, '');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * 生成标签页列表的纯文本和 HTML。CSV 包含标题、网址和按格式渲染的文本三列，没有 HTML。
+ */
+export const renderTabList = (
+  tabs: TabListEntry[],
+  template: string,
+  style: TabListStyle,
+): { text: string; html: string } => {
+  // 列表项必须是单行
+  const lines = tabs.map(tab =>
+    renderCopyTemplate(template, { title: tab.title, url: tab.url })
+      .replace(/\s*\n\s*/g, ' ')
+      .trim(),
+  );
+  const items = lines.map(line => `<li>${markdownSnippetToHtml(line)}</li>`);
+
+  switch (style) {
+    case 'numbered':
+      return {
+        text: lines.map((line, index) => `${index + 1}. ${line}`).join('\n'),
+        html: `<ol>${items.join('')}</ol>`,
+      };
+    case 'html': {
+      const html = `<ul>\n${items.map(item => `  ${item}`).join('\n')}\n</ul>`;
+      return { text: html, html };
+    }
+    case 'csv':
+      return {
+        text: tableToCSV({
+          headers: ['title', 'url', 'text'],
+          rows: tabs.map((tab, index) => [tab.title, tab.url, lines[index]]),
+        }),
+        html: '',
+      };
+    default:
+      return {
+        text: lines.map(line => `- ${line}`).join('\n'),
+        html: `<ul>${items.join('')}</ul>`,
+      };
+  }
+};
@@ -0,0 +1,197 @@
+// 表格提取：展开合并单元格、识别表头，导出为 CSV / TSV / JSON
+
+const TABLE_SELECTOR = 'table, [role="grid"], [role="table"], [role="treegrid"]';
+const ARIA_CELL_SELECTOR = '[role="cell"], [role="gridcell"], [role="columnheader"], [role="rowheader"]';
+// 货币符号、千分位、括号负数等格式的数字
+const NUMERIC_PATTERN = /^[([]?[-+−]?\s*[$€£¥￥]?\s*[-+−]?\d[\d,\s]*(?:\.\d+)?\s*%?[)\]]?$/;
+
+interface SourceCell {
+  text: string;
+  isHeader: boolean;
+  rowSpan: number;
+  colSpan: number;
+}
+
+const isAriaTable = (table: Element) => table.tagName !== 'TABLE';
+
+const getSpan = (cell: Element, attribute: string, ariaAttribute: string): number => {
+  const value = parseInt(cell.getAttribute(attribute) || cell.getAttribute(ariaAttribute) || '1', 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, 1000) : 1;
+};
+
+// 单元格文本：换行和嵌套内容合并为单行
+const getCellText = (cell: Element): string => {
+  const clone = cell.cloneNode(true) as Element;
+  clone.querySelectorAll('script, style, [hidden], [aria-hidden="true"]').forEach(el => el.remove());
+  clone.querySelectorAll('br').forEach(br => br.replaceWith(' '));
+  // 块级内容和嵌套表格的单元格前后加空格，避免文字粘连
+  clone.querySelectorAll('table, td, th, li, p, div').forEach(el => {
+    el.prepend(' ');
+    el.append(' ');
+  });
+  return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// 只取属于该表格的行和单元格，忽略嵌套表格
+const getSourceRows = (table: Element): SourceCell[][] => {
+  const aria = isAriaTable(table);
+  const rows = Array.from(table.querySelectorAll(aria ? '[role="row"]' : 'tr')).filter(
+    row => row.parentElement?.closest(TABLE_SELECTOR) === table,
+  );
+
+  return rows.map(row => {
+    const cells = aria
+      ? Array.from(row.querySelectorAll(ARIA_CELL_SELECTOR)).filter(cell => cell.closest('[role="row"]') === row)
+      : Array.from(row.children).filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH');
+
+    return cells.map(cell => ({
+      text: getCellText(cell),
+      isHeader:
+        cell.tagName === 'TH' ||
+        cell.getAttribute('role') === 'columnheader' ||
+        cell.parentElement?.parentElement?.tagName === 'THEAD',
+      rowSpan: getSpan(cell, 'rowspan', 'aria-rowspan'),
+      colSpan: getSpan(cell, 'colspan', 'aria-colspan'),
+    }));
+  });
+};
+
+// 展开 rowspan / colspan：合并单元格的内容复制到其覆盖的每个位置
+const expandCells = (sourceRows: SourceCell[][]): SourceCell[][] => {
+  const grid: SourceCell[][] = [];
+
+  sourceRows.forEach((cells, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let column = 0;
+
+    cells.forEach(cell => {
+      while (grid[rowIndex][column]) column++;
+
+      for (let r = 0; r < cell.rowSpan && rowIndex + r < sourceRows.length; r++) {
+        grid[rowIndex + r] = grid[rowIndex + r] || [];
+        for (let c = 0; c < cell.colSpan; c++) {
+          grid[rowIndex + r][column + c] = cell;
+        }
+      }
+      column += cell.colSpan;
+    });
+  });
+
+  const width = Math.max(0, ...grid.map(row => row.length));
+  const empty: SourceCell = { text: '', isHeader: false, rowSpan: 1, colSpan: 1 };
+  return grid.map(row => Array.from({ length: width }, (_, index) => row[index] || empty));
+};
+
+// 首行全是表头单元格，或首行没有数字而下方某列全是数字时，视为表头
+const countHeaderRows = (grid: SourceCell[][]): number => {
+  let count = 0;
+  while (count < grid.length - 1 && grid[count].every(cell => cell.isHeader || !cell.text)) count++;
+  if (count > 0) return count;
+
+  if (grid.length < 2) return 0;
+  const [first, ...rest] = grid;
+  const firstHasNumbers = first.some(cell => cell.text && isNumericCell(cell.text));
+  const hasNumericColumn = first.some((_, column) =>
+    rest.every(row => !row[column].text || isNumericCell(row[column].text)),
+  );
+  return !firstHasNumbers && hasNumericColumn && first.every(cell => cell.text) ? 1 : 0;
+};
+
+// 多行表头按列合并，重复的合并单元格只保留一次
+const mergeHeaderRows = (rows: SourceCell[][]): string[] =>
+  rows[0].map((_, column) => {
+    const parts: string[] = [];
+    rows.forEach(row => {
+      const text = row[column].text;
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    });
+    return parts.join(' / ') || `列${column + 1}`;
+  });
+
+const toRows = (table: TableData): string[][] => (table.headers ? [table.headers, ...table.rows] : table.rows);
+
+const escapeCsvCell = (value: string): string => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export type TableExportFormat = 'csv' | 'tsv' | 'json';
+
+export interface TableData {
+  headers: string[] | null;
+  rows: string[][];
+}
+
+export const isNumericCell = (value: string): boolean => NUMERIC_PATTERN.test(value.trim());
+
+/**
+ * 去掉货币符号和千分位，括号负数转为负号，便于表格软件识别为数字。
+ */
+export const cleanNumericCell = (value: string): string => {
+  const trimmed = value.trim();
+  if (!isNumericCell(trimmed)) return value;
+
+  const negative = /^[([]/.test(trimmed) || /^[[(]?\s*[$€£¥￥]?\s*[-−]/.test(trimmed);
+  const percent = trimmed.includes('%');
+  const digits = trimmed.replace(/[^\d.]/g, '');
+  return `${negative ? '-' : ''}${digits}${percent ? '%' : ''}`;
+};
+
+/**
+ * 查找元素所在或包含的表格（包括 ARIA grid / table）。
+ */
+export const findTableElement = (element: Element | null): Element | null =>
+  element ? element.closest(TABLE_SELECTOR) || element.querySelector(TABLE_SELECTOR) : null;
+
+export const extractTable = (table: Element, options: { cleanNumbers?: boolean } = {}): TableData => {
+  const grid = expandCells(getSourceRows(table));
+  const headerCount = countHeaderRows(grid);
+  const clean = (text: string) => (options.cleanNumbers ? cleanNumericCell(text) : text);
+
+  return {
+    headers: headerCount > 0 ? mergeHeaderRows(grid.slice(0, headerCount)) : null,
+    rows: grid
+      .slice(headerCount)
+      .map(row => row.map(cell => clean(cell.text)))
+      .filter(row => row.some(Boolean)),
+  };
+};
+
+export const tableToCSV = (table: TableData): string =>
+  toRows(table)
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+
+// TSV 单元格内不能有制表符和换行，粘贴到表格软件时才不会错位
+export const tableToTSV = (table: TableData): string =>
+  toRows(table)
+    .map(row => row.map(cell => cell.replace(/[\t\r\n]+/g, ' ')).join('\t'))
+    .join('\n');
+
+/**
+ * 有表头时输出对象数组，否则输出二维数组；纯数字单元格转为数字。
+ */
+export const tableToJSON = (table: TableData): string => {
+  const toValue = (cell: string) => (/^-?\d+(\.\d+)?$/.test(cell) ? Number(cell) : cell);
+
+  if (!table.headers) {
+    return JSON.stringify(
+      table.rows.map(row => row.map(toValue)),
+      null,
+      2,
+    );
+  }
+
+  // 重复的表头加序号，避免对象键被覆盖
+  const seen = new Map<string, number>();
+  const headers = table.headers.map(header => {
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header}_${count}` : header;
+  });
+  return JSON.stringify(
+    table.rows.map(row => Object.fromEntries(headers.map((header, index) => [header, toValue(row[index] ?? '')]))),
+    null,
+    2,
+  );
+};
+
+export const formatTable = (table: TableData, format: TableExportFormat): string =>
+  format === 'csv' ? tableToCSV(table) : format === 'tsv' ? tableToTSV(table) : tableToJSON(table);
@@ -0,0 +1,142 @@
+import type { CustomTurndownRule, TurndownRulesSettings } from '@extension/storage';
+
+const removeNode = () => '';
+
+const escapeMarkdownAlt = (alt: string) => alt.replace(/[[\]]/g, '\\$&');
+
+const matchesSelector = (node: HTMLElement, selector: string): boolean => {
+  try {
+    return node.matches(selector);
+  } catch {
+    return false;
+  }
+};
+
+const renderTemplate = (template: string, content: string, node: HTMLElement): string =>
+  template
+    .replace(/\{content\}/g, content)
+    .replace(/\{text\}/g, node.textContent?.trim() || '')
+    .replace(/\{attr:([\w-]+)\}/g, (_match, name: string) => node.getAttribute(name) || '');
+
+// 将用户自定义规则转换为站点规则
+const toSiteRule = (rule: CustomTurndownRule): SiteTurndownRule => ({
+  id: rule.id,
+  name: rule.name,
+  patterns: rule.patterns.filter(pattern => pattern.trim()),
+  filter: node => !!rule.selector && matchesSelector(node, rule.selector),
+  replacement: (content, node) => {
+    switch (rule.action) {
+      case 'remove':
+        return '';
+      case 'unwrap':
+        return content;
+      case 'template':
+        return renderTemplate(rule.template || '{content}', content, node);
+    }
+  },
+});
+
+// 站点转换规则：URL 匹配 + 节点过滤 + 替换
+export interface SiteTurndownRule {
+  id: string;
+  name: string;
+  patterns: string[]; // URL包含任一模式时生效，空数组表示所有网站
+  filter: (node: HTMLElement) => boolean;
+  replacement: (content: string, node: HTMLElement) => string;
+}
+
+// 内置规则：处理常见网站的结构问题
+export const BUILT_IN_TURNDOWN_RULES: SiteTurndownRule[] = [
+  {
+    id: 'wechat-lazy-image',
+    name: '微信公众号懒加载图片',
+    patterns: ['mp.weixin.qq.com'],
+    filter: node => node.nodeName === 'IMG' && !!node.getAttribute('data-src'),
+    replacement: (_content, node) => {
+      const alt = escapeMarkdownAlt(node.getAttribute('alt') || '');
+      return `![${alt}](${node.getAttribute('data-src')})`;
+    },
+  },
+  {
+    id: 'zhihu-formula',
+    name: '知乎公式图片',
+    patterns: ['zhihu.com'],
+    filter: node =>
+      node.nodeName === 'IMG' &&
+      (node.classList.contains('ztext-math') ||
+        node.hasAttribute('data-formula') ||
+        (node.getAttribute('src') || '').includes('zhihu.com/equation')),
+    replacement: (_content, node) => {
+      const formula = node.getAttribute('data-formula') || node.getAttribute('alt') || '';
+      return formula ? `$${formula.trim()}$` : '';
+    },
+  },
+  {
+    id: 'zhihu-noscript',
+    name: '知乎重复图片',
+    patterns: ['zhihu.com'],
+    filter: node => node.nodeName === 'NOSCRIPT',
+    replacement: removeNode,
+  },
+  {
+    id: 'github-anchor',
+    name: 'GitHub 标题锚点图标',
+    patterns: ['github.com'],
+    filter: node =>
+      (node.nodeName === 'A' && (node.classList.contains('anchor') || node.getAttribute('aria-hidden') === 'true')) ||
+      (node.nodeName === 'svg' && node.classList.contains('octicon')),
+    replacement: removeNode,
+  },
+  {
+    id: 'juejin-code-toolbar',
+    name: '掘金代码块工具栏',
+    patterns: ['juejin.cn', 'juejin.im'],
+    filter: node =>
+      matchesSelector(node, '.code-block-extension-header, .code-block-extension-copyCodeBtn, .copy-code-btn'),
+    replacement: removeNode,
+  },
+];
+
+/**
+ * 转换规则注册表：保存内置规则和用户规则，按当前 URL 筛选生效的规则。
+ */
+export class TurndownRuleRegistry {
+  private rules = new Map<string, SiteTurndownRule>();
+  private disabledRuleIds = new Set<string>();
+  private customRuleIds = new Set<string>();
+
+  constructor(rules: SiteTurndownRule[] = BUILT_IN_TURNDOWN_RULES) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  register(rule: SiteTurndownRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  unregister(id: string): void {
+    this.rules.delete(id);
+  }
+
+  // 应用用户设置：替换全部自定义规则并更新禁用列表
+  applySettings(settings: TurndownRulesSettings | undefined): void {
+    this.customRuleIds.forEach(id => this.unregister(id));
+    this.customRuleIds.clear();
+
+    (settings?.customRules || [])
+      .filter(rule => rule.enabled)
+      .forEach(rule => {
+        this.register(toSiteRule(rule));
+        this.customRuleIds.add(rule.id);
+      });
+
+    this.disabledRuleIds = new Set(settings?.disabledBuiltInRules || []);
+  }
+
+  // 获取当前 URL 下生效的规则，自定义规则优先
+  getRulesForUrl(url: string): SiteTurndownRule[] {
+    return Array.from(this.rules.values())
+      .filter(rule => !this.disabledRuleIds.has(rule.id))
+      .filter(rule => rule.patterns.length === 0 || rule.patterns.some(pattern => url.includes(pattern)))
+      .sort((a, b) => Number(this.customRuleIds.has(b.id)) - Number(this.customRuleIds.has(a.id)));
+  }
+}
@@ -0,0 +1,148 @@
+// 链接中的跟踪参数清理
+
+import type { UrlCleaningRule, UrlCleaningSettings } from '@extension/storage';
+
+// 广告投放、分享来源等与页面内容无关的参数
+const TRACKING_PARAM_PATTERNS = [
+  /^utm_/i,
+  /^(?:fbclid|gclid|dclid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok)$/i,
+  /^(?:spm|scm|share_source|share_medium|share_from|share_plat|share_tag|vd_source|from_source|ref_src)$/i,
+];
+
+// 参数名匹配，结尾的 * 表示前缀匹配，忽略大小写
+const matchesParam = (name: string, patterns: string[]): boolean => {
+  const lower = name.toLowerCase();
+  return patterns.some(pattern => {
+    const normalized = pattern.trim().toLowerCase();
+    if (!normalized) return false;
+    return normalized.endsWith('*') ? lower.startsWith(normalized.slice(0, -1)) : lower === normalized;
+  });
+};
+
+const matchesHostname = (hostname: string, ruleHostname: string): boolean => {
+  const target = ruleHostname
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, '');
+  return !!target && (hostname === target || hostname.endsWith(`.${target}`));
+};
+
+const isHttpUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+export const isTrackingParam = (name: string): boolean => TRACKING_PARAM_PATTERNS.some(pattern => pattern.test(name));
+
+/**
+ * 去掉 URL 中的跟踪参数；没有可去掉的参数或无法解析时原样返回。
+ */
+export const stripTrackingParams = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const trackingKeys = Array.from(parsed.searchParams.keys()).filter(isTrackingParam);
+  if (trackingKeys.length === 0) return url;
+
+  trackingKeys.forEach(key => parsed.searchParams.delete(key));
+  return parsed.href;
+};
+
+// 内置的站点规则：分享、推荐位等参数
+export const BUILTIN_URL_CLEANING_RULES: UrlCleaningRule[] = [
+  {
+    id: 'bilibili',
+    hostname: 'bilibili.com',
+    mode: 'remove',
+    params: [
+      'spm_id_from',
+      'from_spmid',
+      'vd_source',
+      'share_*',
+      'unique_k',
+      'bbid',
+      'ts',
+      'timestamp',
+      'buvid',
+      'mid',
+      'up_id',
+      'seid',
+      'from',
+      'is_story_h5',
+    ],
+    enabled: true,
+  },
+  // 商品页由 id 确定；只作用于商品页域名，搜索等页面的查询参数不受影响
+  { id: 'taobao', hostname: 'item.taobao.com', mode: 'keep', params: ['id'], enabled: true },
+  { id: 'tmall', hostname: 'detail.tmall.com', mode: 'keep', params: ['id', 'skuId'], enabled: true },
+  // 公众号文章由 __biz、mid、idx、sn 唯一确定，其余是会话和分享参数
+  { id: 'wechat', hostname: 'mp.weixin.qq.com', mode: 'keep', params: ['__biz', 'mid', 'idx', 'sn'], enabled: true },
+  {
+    id: 'zhihu',
+    hostname: 'zhihu.com',
+    mode: 'remove',
+    params: [
+      'utm_*',
+      'share_code',
+      'search_source',
+      'hybrid_search_source',
+      'hybrid_search_extra',
+      'zhida_source',
+      'edition',
+      'ab_signature',
+    ],
+    enabled: true,
+  },
+];
+
+/**
+ * 当前生效的规则：未停用的内置规则和启用的自定义规则。
+ */
+export const getActiveUrlCleaningRules = (
+  settings: Pick<UrlCleaningSettings, 'disabledBuiltinRules' | 'rules'>,
+): UrlCleaningRule[] => [
+  ...BUILTIN_URL_CLEANING_RULES.filter(rule => !settings.disabledBuiltinRules.includes(rule.id)),
+  ...settings.rules.filter(rule => rule.enabled),
+];
+
+/**
+ * 按内置跟踪参数、全局参数和匹配域名的规则清理 URL。
+ * 有 keep 规则时只保留其中列出的参数；没有可去掉的参数或无法解析时原样返回。
+ */
+export const cleanUrl = (
+  url: string,
+  settings: Pick<UrlCleaningSettings, 'globalParams' | 'disabledBuiltinRules' | 'rules'>,
+): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  const rules = getActiveUrlCleaningRules(settings).filter(rule => matchesHostname(hostname, rule.hostname));
+  const keepRules = rules.filter(rule => rule.mode === 'keep');
+  const removeParams = rules.filter(rule => rule.mode === 'remove').flatMap(rule => rule.params);
+
+  const removedKeys = Array.from(new Set(parsed.searchParams.keys())).filter(
+    key =>
+      isTrackingParam(key) ||
+      matchesParam(key, settings.globalParams) ||
+      matchesParam(key, removeParams) ||
+      (keepRules.length > 0 && !keepRules.some(rule => matchesParam(key, rule.params))),
+  );
+  if (removedKeys.length === 0) return url;
+
+  removedKeys.forEach(key => parsed.searchParams.delete(key));
+  return parsed.href;
+};
+
+/**
+ * 复制或捕获前确定页面网址：开启优先规范链接且页面声明了 http(s) 规范链接时使用它，再按规则清理。
+ */
+export const resolveCleanUrl = (url: string, settings: UrlCleaningSettings, canonical?: string): string => {
+  const target = settings.preferCanonical && canonical && isHttpUrl(canonical) ? canonical : url;
+  return cleanUrl(target, settings);
+};
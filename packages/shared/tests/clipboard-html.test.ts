@@ -0,0 +1,39 @@
+import { markdownSnippetToHtml } from '../lib/utils/clipboard-html.js';
+import { describe, expect, it } from 'vitest';
+
+describe('markdownSnippetToHtml', () => {
+  it('converts links, images, bold and inline code', () => {
+    expect(
+      markdownSnippetToHtml('**Read** [the *docs*](https://a.com/x?a=1&b=2) ![logo](https://a.com/l.png) `a<b`'),
+    ).toBe(
+      '<strong>Read</strong> <a href="https://a.com/x?a=1&amp;b=2">the *docs*</a> ' +
+        '<img src="https://a.com/l.png" alt="logo"> <code>a&lt;b</code>',
+    );
+  });
+
+  it('renders inline syntax inside link text and bold', () => {
+    expect(markdownSnippetToHtml('[**Title**](https://a.com)')).toBe(
+      '<a href="https://a.com"><strong>Title</strong></a>',
+    );
+    expect(markdownSnippetToHtml('**see [here](https://a.com)**')).toBe(
+      '<strong>see <a href="https://a.com">here</a></strong>',
+    );
+  });
+
+  it('links autolinks and bare urls', () => {
+    expect(markdownSnippetToHtml('<https://a.com> and https://b.com/path.')).toBe(
+      '<a href="https://a.com">https://a.com</a> and <a href="https://b.com/path.">https://b.com/path.</a>',
+    );
+  });
+
+  it('unescapes markdown escapes and escapes HTML', () => {
+    expect(markdownSnippetToHtml('\\[not a link\\] \\*x\\* <b>&')).toBe('[not a link] *x* &lt;b&gt;&amp;');
+    expect(markdownSnippetToHtml('[a \\] b](https://a.com)')).toBe('<a href="https://a.com">a ] b</a>');
+  });
+
+  it('joins lines with breaks and groups quoted lines into one blockquote', () => {
+    expect(markdownSnippetToHtml('> quoted **text**\n> second\n\n— [Source](https://a.com)')).toBe(
+      '<blockquote>quoted <strong>text</strong><br>second</blockquote><br><br>— <a href="https://a.com">Source</a>',
+    );
+  });
+});
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { detectCodeLanguage, guessCodeLanguage, normalizeCodeBlocks } from '../lib/utils/code-block.js';
+import { describe, expect, it } from 'vitest';
+
+const render = (html: string): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+};
+
+// 规范化后的代码块：[语言类名, 代码文本]
+const normalize = (html: string): [string, string][] => {
+  const root = render(html);
+  normalizeCodeBlocks(root);
+  return Array.from(root.querySelectorAll('pre > code')).map(code => [code.className, code.textContent || '']);
+};
+
+describe('detectCodeLanguage', () => {
+  it('reads declared languages from classes and data attributes', () => {
+    const cases: Record<string, string> = {
+      '<pre><code class="language-typescript">x</code></pre>': 'typescript',
+      '<pre class="lang-rb">x</pre>': 'rb',
+      '<div class="highlight highlight-source-python"><pre>x</pre></div>': 'python',
+      '<pre data-lang="Go">x</pre>': 'go',
+      '<pre class="brush: js;">x</pre>': 'js',
+      '<pre><code class="hljs kotlin">x</code></pre>': 'kotlin',
+      '<figure class="highlight yaml"><pre>x</pre></figure>': 'yaml',
+    };
+    Object.entries(cases).forEach(([html, language]) =>
+      expect(detectCodeLanguage(render(html).firstElementChild!), html).toBe(language),
+    );
+  });
+
+  it('treats plain-text languages as undeclared without guessing', () => {
+    const block = render('<pre><code class="language-text">const a = 1;</code></pre>').firstElementChild!;
+    expect(detectCodeLanguage(block)).toBe('');
+  });
+
+  it('falls back to guessing from the code', () => {
+    const block = render('<pre><code class="hljs">def main():\n    pass</code></pre>').firstElementChild!;
+    expect(detectCodeLanguage(block)).toBe('python');
+  });
+});
+
+describe('guessCodeLanguage', () => {
+  it('recognizes common languages by content', () => {
+    const cases: Record<string, string> = {
+      '{"a": [1, 2]}': 'json',
+      '<?php echo 1;': 'php',
+      '<div class="a"><span>x</span></div>': 'html',
+      '#include <iostream>\nint main() { std::cout << 1; }': 'cpp',
+      '#include <stdio.h>\nint main() { return 0; }': 'c',
+      'package main\n\nfunc main() {}': 'go',
+      'fn main() {\n    println!("hi");\n}': 'rust',
+      'public class App {}': 'java',
+      'from os import path': 'python',
+      'interface User {\n  name: string;\n}': 'typescript',
+      'const add = (a, b) => a + b;': 'javascript',
+      'SELECT id FROM users WHERE id = 1': 'sql',
+      '$ pnpm install': 'bash',
+      '.card > h2 {\n  color: red;\n}': 'css',
+    };
+    Object.entries(cases).forEach(([code, language]) => expect(guessCodeLanguage(code), code).toBe(language));
+  });
+
+  it('returns nothing for prose and broken JSON', () => {
+    expect(guessCodeLanguage('Just some words.')).toBe('');
+    expect(guessCodeLanguage('{ not json')).toBe('');
+    expect(guessCodeLanguage('  ')).toBe('');
+  });
+});
+
+describe('normalizeCodeBlocks', () => {
+  it('strips Prism line numbers and toolbars', () => {
+    expect(
+      normalize(
+        '<div class="code-toolbar"><pre class="language-js line-numbers"><code>let a = 1;\nlet b = 2;' +
+          '<span class="line-numbers-rows"><span></span><span></span></span></code></pre>' +
+          '<div class="toolbar"><button>Copy</button></div></div>',
+      ),
+    ).toEqual([['language-js', 'let a = 1;\nlet b = 2;']]);
+  });
+
+  it('keeps only the code column of line-number tables', () => {
+    expect(
+      normalize(
+        '<figure class="highlight python"><figcaption>main.py</figcaption><table><tr>' +
+          '<td class="gutter"><pre><span class="line">1</span><br><span class="line">2</span></pre></td>' +
+          '<td class="code"><pre><span class="line">import os</span><br><span class="line">print(os.sep)</span></pre></td>' +
+          '</tr></table></figure>',
+      ),
+    ).toEqual([['language-python', 'import os\nprint(os.sep)']]);
+  });
+
+  it('joins per-line elements and drops data-line-number cells', () => {
+    expect(
+      normalize(
+        '<pre><table>' +
+          '<tr><td data-line-number="1"></td><td>SELECT *</td></tr>' +
+          '<tr><td data-line-number="2"></td><td>FROM users;</td></tr>' +
+          '</table></pre>',
+      ),
+    ).toEqual([['language-sql', 'SELECT *\nFROM users;']]);
+  });
+
+  it('cleans non-breaking and zero-width spaces and guesses the language', () => {
+    expect(normalize('<pre>\n\u200bconst\u00a0a = 1;\n\n</pre>')).toEqual([['language-javascript', 'const a = 1;']]);
+  });
+
+  it('normalizes the root when it is the code block', () => {
+    const root = render('<pre class="language-go"><span class="lineno">1</span>x := 1</pre>').firstElementChild!;
+    normalizeCodeBlocks(root);
+    expect(root.outerHTML).toBe('<pre class="language-go"><code class="language-go">x := 1</code></pre>');
+  });
+});
@@ -0,0 +1,56 @@
+import { renderCopyTemplate } from '../lib/utils/copy-template.js';
+import { describe, expect, it } from 'vitest';
+import type { CopyTemplateContext } from '../lib/utils/copy-template.js';
+
+const context: CopyTemplateContext = {
+  title: 'Hello [World]',
+  url: 'https://www.example.com/a?b=1',
+  date: new Date(2024, 0, 5, 9, 8),
+  meta: { description: 'A page', 'og:image': 'https://example.com/cover.png' },
+};
+
+describe('renderCopyTemplate', () => {
+  it('renders built-in variables', () => {
+    expect(renderCopyTemplate('[{title}]({url})', context)).toBe('[Hello [World]](https://www.example.com/a?b=1)');
+    expect(renderCopyTemplate('{hostname} {date} {time}', context)).toBe('www.example.com 2024-01-05 09:08');
+  });
+
+  it('falls back to the page URL for {canonical}', () => {
+    expect(renderCopyTemplate('{canonical}', context)).toBe(context.url);
+    expect(renderCopyTemplate('{canonical}', { ...context, canonical: 'https://example.com/a' })).toBe(
+      'https://example.com/a',
+    );
+  });
+
+  it('reads meta and property tags', () => {
+    expect(renderCopyTemplate('{meta:description}|{og:image}|{meta:missing}', context)).toBe(
+      'A page|https://example.com/cover.png|',
+    );
+  });
+
+  it('keeps unknown variables as written', () => {
+    expect(renderCopyTemplate('{unknown} {title|upper}', context)).toBe('{unknown} HELLO [WORLD]');
+  });
+
+  it('applies filters in order and ignores unknown filters', () => {
+    expect(renderCopyTemplate('{title|slug}', context)).toBe('hello-world');
+    expect(renderCopyTemplate('{title|escape_md}', context)).toBe('Hello \\[World\\]');
+    expect(renderCopyTemplate('{title|truncate:5}', context)).toBe('Hello…');
+    expect(renderCopyTemplate('{title|nope|lower}', context)).toBe('hello [world]');
+    expect(renderCopyTemplate('{selection|default:无}', context)).toBe('无');
+    expect(renderCopyTemplate('{url|encode}', context)).toBe('https%3A%2F%2Fwww.example.com%2Fa%3Fb%3D1');
+  });
+
+  it('renders conditionals with else and negation', () => {
+    const template = '{#if selection}> {selection}{else}{title}{/if}';
+    expect(renderCopyTemplate(template, context)).toBe('Hello [World]');
+    expect(renderCopyTemplate(template, { ...context, selection: 'quoted' })).toBe('> quoted');
+    expect(renderCopyTemplate('{#if !meta:description}none{/if}', context)).toBe('');
+  });
+
+  it('supports nested conditionals and closes unterminated ones at the end', () => {
+    const template = '{#if title}A{#if selection}B{else}C{/if}D{/if}';
+    expect(renderCopyTemplate(template, context)).toBe('ACD');
+    expect(renderCopyTemplate('{#if title}open', context)).toBe('open');
+  });
+});
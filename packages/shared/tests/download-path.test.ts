@@ -0,0 +1,108 @@
+import {
+  buildDownloadFilename,
+  renderFilenameTemplate,
+  resolveRoutingFolder,
+  sanitizeFilename,
+} from '../lib/utils/download-path.js';
+import { describe, expect, it } from 'vitest';
+import type { DownloadFileContext } from '../lib/utils/download-path.js';
+import type { DownloadRoutingRule } from '@extension/storage';
+
+const context: DownloadFileContext = {
+  title: 'Hello: World',
+  slug: 'hello-world',
+  url: 'https://www.example.com/posts/1',
+  tags: ['#Reading', 'dev'],
+  date: new Date(2024, 0, 5, 9, 8, 7),
+};
+
+const rule = (overrides: Partial<DownloadRoutingRule>): DownloadRoutingRule => ({
+  id: 'rule',
+  type: 'hostname',
+  pattern: '',
+  folder: '',
+  enabled: true,
+  ...overrides,
+});
+
+describe('sanitizeFilename', () => {
+  it('replaces illegal characters and drops link syntax', () => {
+    expect(sanitizeFilename('a<b>:c|d?*e')).toBe('a-b-c-d-e');
+    expect(sanitizeFilename('[[Note]] #tag ^ref')).toBe('Note tag ref');
+  });
+
+  it('trims leading and trailing dots and spaces', () => {
+    expect(sanitizeFilename('  ..hidden.  ')).toBe('hidden');
+  });
+
+  it('prefixes Windows reserved names', () => {
+    expect(sanitizeFilename('con')).toBe('_con');
+    expect(sanitizeFilename('LPT1.txt')).toBe('_LPT1.txt');
+  });
+
+  it('limits the length of a segment', () => {
+    expect(sanitizeFilename('a'.repeat(200))).toHaveLength(120);
+  });
+});
+
+describe('renderFilenameTemplate', () => {
+  it('fills placeholders with sanitized values', () => {
+    expect(renderFilenameTemplate('{date}-{title}', context)).toBe('2024-01-05-Hello- World');
+    expect(renderFilenameTemplate('{year}/{month}/{day}-{time}', context)).toBe('2024/01/05-09-08-07');
+  });
+
+  it('uses slashes in the template as folders but not slashes inside values', () => {
+    expect(renderFilenameTemplate('{hostname}/{slug}', context)).toBe('example.com/hello-world');
+    expect(renderFilenameTemplate('{title}', { ...context, title: 'a/b' })).toBe('a-b');
+  });
+
+  it('keeps unknown placeholders and removes path traversal', () => {
+    expect(renderFilenameTemplate('{unknown}', context)).toBe('{unknown}');
+    expect(renderFilenameTemplate('../{slug}', context)).toBe('hello-world');
+  });
+
+  it('uses the first tag for {tag}', () => {
+    expect(renderFilenameTemplate('{tag}/{slug}', context)).toBe('Reading/hello-world');
+    expect(renderFilenameTemplate('{tag}/{slug}', { ...context, tags: [] })).toBe('hello-world');
+  });
+});
+
+describe('resolveRoutingFolder', () => {
+  it('matches hostnames including subdomains', () => {
+    const rules = [rule({ pattern: 'example.com', folder: 'Example' })];
+    expect(resolveRoutingFolder(rules, context)).toBe('Example');
+    expect(resolveRoutingFolder(rules, { ...context, url: 'https://blog.example.com/' })).toBe('Example');
+    expect(resolveRoutingFolder(rules, { ...context, url: 'https://notexample.com/' })).toBe('');
+  });
+
+  it('matches tags ignoring case and a leading #', () => {
+    const rules = [rule({ type: 'tag', pattern: '#reading', folder: 'Reading/Inbox' })];
+    expect(resolveRoutingFolder(rules, context)).toBe('Reading/Inbox');
+  });
+
+  it('uses the first enabled matching rule', () => {
+    const rules = [
+      rule({ id: 'a', pattern: 'example.com', folder: 'Disabled', enabled: false }),
+      rule({ id: 'b', type: 'tag', pattern: 'dev', folder: 'Dev' }),
+      rule({ id: 'c', pattern: 'example.com', folder: 'Example' }),
+    ];
+    expect(resolveRoutingFolder(rules, context)).toBe('Dev');
+  });
+});
+
+describe('buildDownloadFilename', () => {
+  it('joins the routing folder, rendered name and extension', () => {
+    const settings = {
+      filenameTemplate: '{date}-{slug}',
+      routingRules: [rule({ pattern: 'example.com', folder: 'Web' })],
+    };
+    expect(buildDownloadFilename(settings, context, 'md')).toBe('Web/2024-01-05-hello-world.md');
+  });
+
+  it('falls back to the slug and then to untitled', () => {
+    expect(buildDownloadFilename({ filenameTemplate: '', routingRules: [] }, context, 'md')).toBe('hello-world.md');
+    expect(
+      buildDownloadFilename({ filenameTemplate: '{tag}', routingRules: [] }, { ...context, tags: [], slug: '' }, 'md'),
+    ).toBe('untitled.md');
+  });
+});
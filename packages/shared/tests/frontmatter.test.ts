@@ -0,0 +1,112 @@
+import {
+  formatFrontmatterDate,
+  needsYamlQuotes,
+  parseFrontmatterField,
+  parseFrontmatterList,
+  serializeFrontmatter,
+  stripFrontmatter,
+} from '../lib/utils/frontmatter.js';
+import { describe, expect, it } from 'vitest';
+import type { FrontmatterEntry } from '../lib/utils/frontmatter.js';
+
+const entries: FrontmatterEntry[] = [
+  { key: 'title', value: 'Vue: "Composition" API # notes' },
+  { key: 'slug', value: 'vue-composition-api' },
+  { key: 'tags', value: ['web', 'yes', '#frontend'] },
+  { key: 'source url', value: 'https://example.com/a?b=1' },
+  { key: 'datetime', value: '2024-01-05T09:08:07.000Z', isDate: true },
+];
+
+describe('needsYamlQuotes', () => {
+  it('leaves plain strings bare', () => {
+    expect(needsYamlQuotes('Hello world')).toBe(false);
+    expect(needsYamlQuotes('https://example.com/a')).toBe(false);
+    expect(needsYamlQuotes('中文标题')).toBe(false);
+  });
+
+  it('quotes strings YAML would misread', () => {
+    ['', ' padded', 'key: value', 'ends with:', 'a #comment', '"quoted"', "'single'", '- item', '[list]', '&anchor']
+      .concat(['yes', 'No', 'null', '~', '42', '1e3', '0x1F', '.inf', 'line\nbreak'])
+      .forEach(value => expect(needsYamlQuotes(value), value).toBe(true));
+  });
+});
+
+describe('serializeFrontmatter', () => {
+  it('writes YAML with quoted scalars and block lists', () => {
+    expect(serializeFrontmatter(entries, 'yaml')).toBe(
+      [
+        '---',
+        'title: "Vue: \\"Composition\\" API # notes"',
+        'slug: vue-composition-api',
+        'tags:',
+        '  - web',
+        '  - "yes"',
+        '  - "#frontend"',
+        '"source url": https://example.com/a?b=1',
+        'datetime: 2024-01-05T09:08:07.000Z',
+        '---',
+        '',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes TOML with basic strings, arrays and native dates', () => {
+    expect(serializeFrontmatter(entries, 'toml')).toBe(
+      [
+        '+++',
+        'title = "Vue: \\"Composition\\" API # notes"',
+        'slug = "vue-composition-api"',
+        'tags = ["web", "yes", "#frontend"]',
+        '"source url" = "https://example.com/a?b=1"',
+        'datetime = 2024-01-05T09:08:07.000Z',
+        '+++',
+        '',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes empty lists and nothing for the none format', () => {
+    expect(serializeFrontmatter([{ key: 'tags', value: [] }], 'yaml')).toBe('---\ntags: []\n---\n\n');
+    expect(serializeFrontmatter(entries, 'none')).toBe('');
+    expect(serializeFrontmatter([], 'yaml')).toBe('');
+  });
+});
+
+describe('parsing frontmatter', () => {
+  it.each(['yaml', 'toml'] as const)('reads back what %s serialization wrote', format => {
+    const markdown = `${serializeFrontmatter(entries, format)}# Body`;
+
+    expect(parseFrontmatterField(markdown, 'title')).toBe('Vue: "Composition" API # notes');
+    expect(parseFrontmatterField(markdown, 'slug')).toBe('vue-composition-api');
+    expect(parseFrontmatterField(markdown, 'source url')).toBe('https://example.com/a?b=1');
+    expect(parseFrontmatterList(markdown, 'tags')).toEqual(['web', 'yes', '#frontend']);
+    expect(stripFrontmatter(markdown)).toBe('# Body');
+  });
+
+  it('returns nothing when there is no frontmatter', () => {
+    const markdown = `${serializeFrontmatter(entries, 'none')}# Body`;
+
+    expect(parseFrontmatterField(markdown, 'title')).toBeNull();
+    expect(parseFrontmatterList(markdown, 'tags')).toEqual([]);
+    expect(stripFrontmatter(markdown)).toBe('# Body');
+  });
+
+  it('reads single values and single-quoted YAML as lists', () => {
+    const markdown = "---\ntags: reading\nauthor: 'O''Brien'\n---\n";
+
+    expect(parseFrontmatterList(markdown, 'tags')).toEqual(['reading']);
+    expect(parseFrontmatterField(markdown, 'author')).toBe("O'Brien");
+    expect(parseFrontmatterList(markdown, 'missing')).toEqual([]);
+  });
+});
+
+describe('formatFrontmatterDate', () => {
+  it('formats ISO and token patterns', () => {
+    const date = new Date(2024, 0, 5, 9, 8, 7);
+
+    expect(formatFrontmatterDate(date, 'ISO')).toBe(date.toISOString());
+    expect(formatFrontmatterDate(date, 'YYYY/MM/DD HH:mm:ss')).toBe('2024/01/05 09:08:07');
+  });
+});
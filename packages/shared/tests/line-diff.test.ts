@@ -0,0 +1,39 @@
+import { diffLines, foldDiff, summarizeDiff } from '../lib/utils/line-diff.js';
+import { describe, expect, it } from 'vitest';
+
+describe('diffLines', () => {
+  it('marks every line equal when nothing changed', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ]);
+  });
+
+  it('reports removed lines before added lines for a replacement', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+    ]);
+  });
+
+  it('keeps the longest common subsequence between insertions and deletions', () => {
+    const diff = diffLines('a\nb\nc\nd', 'b\nc\ne\nd\nf');
+    expect(diff.filter(line => line.type === 'equal').map(line => line.text)).toEqual(['b', 'c', 'd']);
+    expect(summarizeDiff(diff)).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('foldDiff', () => {
+  it('collapses unchanged lines outside the context', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7'].join('\n');
+    const newText = ['1', '2', '3', '4', '5', '6', 'x'].join('\n');
+    expect(foldDiff(diffLines(oldText, newText), 1)).toEqual([
+      { type: 'skipped', count: 5 },
+      { type: 'equal', text: '6' },
+      { type: 'removed', text: '7' },
+      { type: 'added', text: 'x' },
+    ]);
+  });
+});
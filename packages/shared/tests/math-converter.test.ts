@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import {
+  annotateMathJaxSources,
+  extractMathSource,
+  formatMath,
+  isMathNode,
+  preserveMathSource,
+} from '../lib/utils/math-converter.js';
+import { afterEach, describe, expect, it } from 'vitest';
+
+const render = (html: string): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+};
+
+afterEach(() => {
+  delete (window as { MathJax?: unknown }).MathJax;
+});
+
+describe('KaTeX', () => {
+  it('reads the TeX annotation and detects display math', () => {
+    const root = render(`
+      <span class="katex-display"><span class="katex"><span class="katex-mathml">
+        <math><semantics><mrow></mrow><annotation encoding="application/x-tex">\\frac{a}{b}</annotation></semantics></math>
+      </span><span class="katex-html">garbled</span></span></span>`);
+    const node = root.querySelector('.katex-display')!;
+
+    expect(isMathNode(node)).toBe(true);
+    expect(extractMathSource(node)).toEqual({ tex: '\\frac{a}{b}', display: true });
+  });
+});
+
+describe('MathJax v2', () => {
+  it('replaces rendered output with the script source', () => {
+    const root = render(`
+      <span class="MathJax_Preview">x</span><span class="MathJax">garbled</span>
+      <script type="math/tex">x^2</script>
+      <div class="MathJax_Display">garbled</div><script type="math/tex; mode=display">\\sum_i x_i</script>`);
+    preserveMathSource(root);
+
+    const nodes = Array.from(root.querySelectorAll('[data-tex]'));
+    expect(root.querySelector('.MathJax, .MathJax_Display, .MathJax_Preview, script')).toBeNull();
+    expect(nodes.map(node => extractMathSource(node))).toEqual([
+      { tex: 'x^2', display: false },
+      { tex: '\\sum_i x_i', display: true },
+    ]);
+  });
+});
+
+describe('MathJax v3', () => {
+  it('has no source without the page math items', () => {
+    const root = render('<mjx-container class="MathJax"><mjx-math>garbled</mjx-math></mjx-container>');
+    expect(extractMathSource(root.querySelector('mjx-container')!)).toBeNull();
+  });
+
+  it('writes sources from MathJax.startup.document back to the containers', () => {
+    const root = render(`
+      <mjx-container class="MathJax"><mjx-math>garbled</mjx-math></mjx-container>
+      <mjx-container class="MathJax" display="true"><mjx-math>garbled</mjx-math></mjx-container>`);
+    document.body.appendChild(root);
+    const [inline, block] = Array.from(root.querySelectorAll('mjx-container'));
+    (window as { MathJax?: unknown }).MathJax = {
+      startup: {
+        document: {
+          math: [
+            { math: 'e^{i\\pi}', display: false, typesetRoot: inline },
+            { math: '\\int_0^1 f', display: true, typesetRoot: block },
+          ],
+        },
+      },
+    };
+
+    expect(annotateMathJaxSources()).toBe(2);
+    expect(extractMathSource(inline)).toEqual({ tex: 'e^{i\\pi}', display: false });
+    expect(extractMathSource(block)).toEqual({ tex: '\\int_0^1 f', display: true });
+    expect(annotateMathJaxSources()).toBe(0);
+    root.remove();
+  });
+
+  it('does nothing on pages without MathJax', () => {
+    expect(annotateMathJaxSources()).toBe(0);
+  });
+});
+
+describe('other sources', () => {
+  it('reads the data-tex of Zhihu formulas', () => {
+    const root = render('<span class="ztext-math" data-eeimg="1" data-tex="a+b"><img alt="a+b"></span>');
+    const node = root.querySelector('.ztext-math')!;
+
+    expect(isMathNode(node)).toBe(true);
+    expect(extractMathSource(node)).toEqual({ tex: 'a+b', display: false });
+  });
+
+  it('unwraps \\displaystyle from MathML alttext', () => {
+    const root = render('<math alttext="{\\displaystyle E=mc^{2}}" display="block"></math>');
+    expect(extractMathSource(root.querySelector('math')!)).toEqual({ tex: 'E=mc^{2}', display: true });
+  });
+});
+
+describe('formatMath', () => {
+  it('wraps inline and display math', () => {
+    expect(formatMath({ tex: 'x', display: false })).toBe('$x$');
+    expect(formatMath({ tex: 'x', display: true })).toBe('\n\n$$\nx\n$$\n\n');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  buildSnippet,
+  getQueryTerms,
+  markdownToPlainText,
+  scoreBm25,
+  stemWord,
+  tokenize,
+} from '../lib/storage/search-tokenizer.js';
+import { describe, expect, it } from 'vitest';
+
+const terms = (text: string, forQuery = false) => tokenize(text, forQuery).map(token => token.term);
+
+describe('stemWord', () => {
+  it('follows the Porter stemmer', () => {
+    const cases: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      agreed: 'agre',
+      motoring: 'motor',
+      hopping: 'hop',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      generalization: 'gener',
+      electrical: 'electr',
+      adjustment: 'adjust',
+      controlling: 'control',
+      yelling: 'yell',
+    };
+    Object.entries(cases).forEach(([word, stem]) => expect(stemWord(word), word).toBe(stem));
+  });
+
+  it('leaves short, numeric and non-Latin words alone', () => {
+    expect(stemWord('is')).toBe('is');
+    expect(stemWord('2024')).toBe('2024');
+    expect(stemWord('café')).toBe('café');
+  });
+});
+
+describe('tokenize', () => {
+  it('lowercases, drops stop words and stems with source offsets', () => {
+    expect(tokenize('The Running Dogs')).toEqual([
+      { term: 'run', start: 4, end: 11 },
+      { term: 'dog', start: 12, end: 16 },
+    ]);
+  });
+
+  it('indexes CJK text as unigrams and bigrams', () => {
+    expect(terms('全文检索')).toEqual(['全', '全文', '文', '文检', '检', '检索', '索']);
+  });
+
+  it('queries multi-character CJK text by bigrams only', () => {
+    expect(terms('全文检索', true)).toEqual(['全文', '文检', '检索']);
+    expect(terms('索', true)).toEqual(['索']);
+  });
+
+  it('splits mixed scripts and normalizes full-width characters', () => {
+    expect(terms('Ｒｅａｃｔ组件')).toEqual(['react', '组', '组件', '件']);
+    expect(getQueryTerms('react React 组件')).toEqual(['react', '组件']);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('removes frontmatter and markdown syntax', () => {
+    expect(markdownToPlainText('---\ntitle: x\n---\n\n# Title\n\n- **bold** [link](https://a.com) ![img](b.png)')).toBe(
+      'Title\n\nbold link img',
+    );
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights matched words', () => {
+    expect(buildSnippet('Cats are running fast', getQueryTerms('run cat'))).toEqual([
+      { text: 'Cats', highlight: true },
+      { text: ' are ', highlight: false },
+      { text: 'running', highlight: true },
+      { text: ' fast', highlight: false },
+    ]);
+  });
+
+  it('merges overlapping CJK matches into one highlight', () => {
+    expect(buildSnippet('支持全文检索功能', getQueryTerms('全文检索'))).toEqual([
+      { text: '支持', highlight: false },
+      { text: '全文检索', highlight: true },
+      { text: '功能', highlight: false },
+    ]);
+  });
+
+  it('centres the window on the densest matches and marks trimmed text', () => {
+    const text = `${'lorem '.repeat(40)}needle here${' ipsum'.repeat(40)}`;
+    const segments = buildSnippet(text, ['needl'], 40);
+
+    expect(segments[0]).toEqual({ text: '…', highlight: false });
+    expect(segments[segments.length - 1]).toEqual({ text: '…', highlight: false });
+    expect(segments.filter(segment => segment.highlight).map(segment => segment.text)).toEqual(['needle']);
+  });
+
+  it('returns the beginning when nothing matches', () => {
+    expect(buildSnippet('abcdef', ['zzz'], 3)).toEqual([{ text: 'abc…', highlight: false }]);
+  });
+});
+
+describe('scoreBm25', () => {
+  const corpus = { documentCount: 10, totalLength: 1000 };
+
+  it('ranks higher term frequency higher', () => {
+    const once = scoreBm25([{ frequency: 1, documentFrequency: 2 }], 100, corpus);
+    const twice = scoreBm25([{ frequency: 2, documentFrequency: 2 }], 100, corpus);
+    expect(twice).toBeGreaterThan(once);
+  });
+
+  it('ranks shorter documents higher for the same frequency', () => {
+    const short = scoreBm25([{ frequency: 1, documentFrequency: 2 }], 50, corpus);
+    const long = scoreBm25([{ frequency: 1, documentFrequency: 2 }], 200, corpus);
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it('weights rare terms more than common ones and sums query terms', () => {
+    const rare = scoreBm25([{ frequency: 1, documentFrequency: 1 }], 100, corpus);
+    const common = scoreBm25([{ frequency: 1, documentFrequency: 9 }], 100, corpus);
+    expect(rare).toBeGreaterThan(common);
+    expect(
+      scoreBm25(
+        [
+          { frequency: 1, documentFrequency: 1 },
+          { frequency: 1, documentFrequency: 9 },
+        ],
+        100,
+        corpus,
+      ),
+    ).toBeCloseTo(rare + common);
+  });
+});
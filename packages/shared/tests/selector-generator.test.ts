@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import {
+  generateStableSelectors,
+  generateXPath,
+  isSelectorList,
+  resolveSelector,
+  resolveSelectorWithFallbacks,
+} from '../lib/utils/selector-generator.js';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// jsdom 未实现 CSS.escape，按 CSSOM 规范补上
+const cssEscape = (value: string): string =>
+  Array.from(value)
+    .map((char, index) => {
+      const code = char.charCodeAt(0);
+      if (code === 0) return '\ufffd';
+      if ((code >= 0x1 && code <= 0x1f) || code === 0x7f) return `\\${code.toString(16)} `;
+      if (/\d/.test(char) && (index === 0 || (index === 1 && value[0] === '-'))) return `\\${code.toString(16)} `;
+      if (char === '-' && value.length === 1) return '\\-';
+      if (code >= 0x80 || /[\w-]/.test(char)) return char;
+      return `\\${char}`;
+    })
+    .join('');
+
+beforeAll(() => {
+  vi.stubGlobal('CSS', { escape: cssEscape });
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+// 每个选择器都应只解析到原元素
+const expectAllResolveTo = (element: Element) => {
+  const selectors = generateStableSelectors(element);
+  expect(selectors.length).toBeGreaterThan(0);
+  selectors.forEach(selector => expect(resolveSelector(selector), selector).toEqual([element]));
+  return selectors;
+};
+
+describe('generateStableSelectors', () => {
+  it('prefers stable ids and test attributes', () => {
+    document.body.innerHTML = '<main><div id="content"></div><button data-testid="save">Save</button></main>';
+
+    expect(generateStableSelectors(document.getElementById('content')!)[0]).toBe('#content');
+    expect(generateStableSelectors(document.querySelector('button')!)[0]).toBe('button[data-testid="save"]');
+  });
+
+  it('skips generated ids and classes', () => {
+    document.body.innerHTML =
+      '<section><div id="ember1234" class="css-1x2y3z title_a1b2c3 flex p-4 lovpensider-selected">x</div></section>';
+    const selectors = expectAllResolveTo(document.querySelector('section > div')!);
+
+    selectors.forEach(selector => expect(selector).not.toMatch(/ember|css-|a1b2c3|flex|p-4|lovpensider/));
+  });
+
+  it('only returns selectors that match the element alone', () => {
+    document.body.innerHTML = `
+      <article class="post"><p class="note">a</p><p class="note">b</p></article>
+      <article class="post"><p class="note">c</p><p class="note">d</p></article>`;
+    const target = document.querySelectorAll('p')[3];
+    const selectors = expectAllResolveTo(target);
+
+    expect(selectors).not.toContain('p.note');
+    expect(selectors).toContain('body > article:nth-of-type(2) > p:nth-of-type(2)');
+  });
+
+  it('anchors relative paths on the nearest unique ancestor', () => {
+    document.body.innerHTML = '<div id="sidebar"><ul><li>a</li><li>b</li></ul></div><ul><li>c</li></ul>';
+    const selectors = expectAllResolveTo(document.querySelectorAll('#sidebar li')[1]);
+
+    expect(selectors).toContain('#sidebar li:nth-of-type(2)');
+  });
+
+  it('ends with an XPath for document elements', () => {
+    document.body.innerHTML = '<div id="app"><span></span><span></span></div>';
+    const target = document.querySelectorAll('span')[1];
+
+    expect(generateXPath(target)).toBe('//*[@id="app"]/span[2]');
+    expect(generateStableSelectors(target).at(-1)).toBe('//*[@id="app"]/span[2]');
+  });
+
+  it('prefixes elements inside shadow roots with the host and a shadow hop', () => {
+    document.body.innerHTML = '<my-app id="root"></my-app><my-app></my-app>';
+    document.querySelectorAll('my-app').forEach(host => {
+      host.attachShadow({ mode: 'open' }).innerHTML = '<article><h1 class="headline">t</h1><p>a</p><p>b</p></article>';
+    });
+    const target = document.getElementById('root')!.shadowRoot!.querySelectorAll('p')[1];
+    const selectors = expectAllResolveTo(target);
+
+    selectors.forEach(selector => expect(selector.startsWith('#root >>shadow>> ')).toBe(true));
+    selectors.forEach(selector => expect(selector).not.toMatch(/^\/|>>shadow>> \//));
+  });
+
+  it('prefixes elements inside same-origin iframes with the frame and a frame hop', () => {
+    document.body.innerHTML = '<iframe id="preview"></iframe>';
+    const frameDocument = (document.getElementById('preview') as HTMLIFrameElement).contentDocument!;
+    frameDocument.body.innerHTML = '<div class="card"><h2 class="card-title">t</h2></div>';
+    const selectors = expectAllResolveTo(frameDocument.querySelector('h2')!);
+
+    expect(selectors[0]).toBe('#preview >>frame>> h2.card-title');
+    expect(selectors.at(-1)).toBe('#preview >>frame>> /html/body/div/h2');
+  });
+});
+
+describe('resolveSelector', () => {
+  it('resolves CSS selectors, XPath and selector lists in document order', () => {
+    document.body.innerHTML = '<h1>a</h1><p>b</p><h2>c</h2>';
+    const [h1, p, h2] = Array.from(document.body.children);
+
+    expect(resolveSelector('h2, h1')).toEqual([h1, h2]);
+    expect(resolveSelector('/html/body/p')).toEqual([p]);
+    expect(resolveSelector('h2, /html/body/p')).toEqual([h2, p]);
+    expect(resolveSelector('[data-x="a,b"]')).toEqual([]);
+  });
+
+  it('follows frame and shadow hops across nested roots', () => {
+    document.body.innerHTML = '<iframe></iframe>';
+    const frameDocument = document.querySelector('iframe')!.contentDocument!;
+    frameDocument.body.innerHTML = '<x-shell></x-shell>';
+    const shadow = frameDocument.querySelector('x-shell')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p class="a">1</p><p class="b">2</p>';
+    const [first, second] = Array.from(shadow.querySelectorAll('p'));
+
+    expect(resolveSelector('iframe >>frame>> x-shell >>shadow>> p.b')).toEqual([second]);
+    expect(resolveSelector('/html/body/iframe >>frame>> x-shell >>shadow>> p:first-child')).toEqual([first]);
+    // XPath 无法在 shadow root 中求值
+    expect(resolveSelector('iframe >>frame>> x-shell >>shadow>> //p')).toEqual([]);
+    expect(resolveSelector('iframe >>shadow>> p')).toEqual([]);
+    expect(expectAllResolveTo(second)[0]).toBe('body > iframe >>frame>> body > x-shell >>shadow>> p.b');
+  });
+
+  it('returns nothing for empty or invalid selectors', () => {
+    expect(resolveSelector('  ')).toEqual([]);
+    expect(resolveSelector('div[')).toEqual([]);
+  });
+
+  it('tries fallbacks in order', () => {
+    document.body.innerHTML = '<p class="b">x</p>';
+
+    expect(resolveSelectorWithFallbacks(['.a', '.b'])).toEqual({
+      selector: '.b',
+      elements: [document.querySelector('p')],
+    });
+    expect(resolveSelectorWithFallbacks(['.a'])).toBeNull();
+  });
+
+  it('detects top-level selector lists', () => {
+    expect(isSelectorList('h1, h2')).toBe(true);
+    expect(isSelectorList('a[title="x, y"]:is(b, i)')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { filterTabList, renderTabList } from '../lib/utils/tab-list.js';
+import { describe, expect, it } from 'vitest';
+import type { TabListEntry } from '../lib/utils/tab-list.js';
+
+const tabs: TabListEntry[] = [
+  { title: 'Docs & "Guides"', url: 'https://example.com/docs' },
+  { title: 'Issue #1, part 2', url: 'https://github.com/a/b/issues/1' },
+];
+
+const LINK_TEMPLATE = '[{title}]({url})';
+
+describe('filterTabList', () => {
+  const all: TabListEntry[] = [
+    { title: 'A', url: 'https://a.com/page#intro' },
+    { title: 'New tab', url: 'chrome://newtab/' },
+    { title: 'A again', url: 'https://a.com/page#usage' },
+    { title: 'Extension', url: 'chrome-extension://abc/side-panel/index.html' },
+    { title: 'Empty', url: '' },
+    { title: 'B', url: 'https://b.com/' },
+  ];
+
+  it('skips internal pages and duplicates ignoring the hash', () => {
+    expect(filterTabList(all, { dedupe: true, skipInternal: true }).map(tab => tab.title)).toEqual(['A', 'B']);
+  });
+
+  it('keeps everything with a url when both options are off', () => {
+    expect(filterTabList(all, { dedupe: false, skipInternal: false }).map(tab => tab.title)).toEqual([
+      'A',
+      'New tab',
+      'A again',
+      'Extension',
+      'B',
+    ]);
+  });
+});
+
+describe('renderTabList', () => {
+  it('renders a markdown bullet list with a linked HTML list', () => {
+    expect(renderTabList(tabs, LINK_TEMPLATE, 'markdown')).toEqual({
+      text: '- [Docs & "Guides"](https://example.com/docs)\n- [Issue #1, part 2](https://github.com/a/b/issues/1)',
+      html:
+        '<ul><li><a href="https://example.com/docs">Docs &amp; &quot;Guides&quot;</a></li>' +
+        '<li><a href="https://github.com/a/b/issues/1">Issue #1, part 2</a></li></ul>',
+    });
+  });
+
+  it('renders a numbered list', () => {
+    const { text, html } = renderTabList(tabs, LINK_TEMPLATE, 'numbered');
+
+    expect(text).toBe(
+      '1. [Docs & "Guides"](https://example.com/docs)\n2. [Issue #1, part 2](https://github.com/a/b/issues/1)',
+    );
+    expect(html).toMatch(/^<ol><li><a href="https:\/\/example\.com\/docs">.*<\/li><\/ol>$/);
+  });
+
+  it('renders HTML source as both text and HTML', () => {
+    const { text, html } = renderTabList(tabs, LINK_TEMPLATE, 'html');
+
+    expect(text).toBe(
+      [
+        '<ul>',
+        '  <li><a href="https://example.com/docs">Docs &amp; &quot;Guides&quot;</a></li>',
+        '  <li><a href="https://github.com/a/b/issues/1">Issue #1, part 2</a></li>',
+        '</ul>',
+      ].join('\n'),
+    );
+    expect(html).toBe(text);
+  });
+
+  it('renders CSV with quoted cells and no HTML', () => {
+    expect(renderTabList(tabs, LINK_TEMPLATE, 'csv')).toEqual({
+      text: [
+        'title,url,text',
+        '"Docs & ""Guides""",https://example.com/docs,"[Docs & ""Guides""](https://example.com/docs)"',
+        '"Issue #1, part 2",https://github.com/a/b/issues/1,"[Issue #1, part 2](https://github.com/a/b/issues/1)"',
+      ].join('\r\n'),
+      html: '',
+    });
+  });
+
+  it('collapses multi-line templates into one line per tab', () => {
+    const { text } = renderTabList([tabs[0]], '{title}\n\n  {url}', 'markdown');
+    expect(text).toBe('- Docs & "Guides" https://example.com/docs');
+  });
+});
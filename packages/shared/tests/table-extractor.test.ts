@@ -0,0 +1,48 @@
+import { cleanNumericCell, isNumericCell, tableToCSV, tableToJSON, tableToTSV } from '../lib/utils/table-extractor.js';
+import { describe, expect, it } from 'vitest';
+import type { TableData } from '../lib/utils/table-extractor.js';
+
+const table: TableData = {
+  headers: ['Name', 'Note', 'Name'],
+  rows: [
+    ['a', 'says "hi", then\nleaves', '12'],
+    ['b', 'tab\there', '-3.5'],
+  ],
+};
+
+describe('numeric cells', () => {
+  it('recognizes formatted numbers', () => {
+    expect(isNumericCell('$1,234.50')).toBe(true);
+    expect(isNumericCell('(12%)')).toBe(true);
+    expect(isNumericCell('12 apples')).toBe(false);
+  });
+
+  it('strips currency and separators and turns parentheses into a minus sign', () => {
+    expect(cleanNumericCell('$1,234.50')).toBe('1234.50');
+    expect(cleanNumericCell('(1,000)')).toBe('-1000');
+    expect(cleanNumericCell('-¥5')).toBe('-5');
+    expect(cleanNumericCell('12%')).toBe('12%');
+    expect(cleanNumericCell('n/a')).toBe('n/a');
+  });
+});
+
+describe('table exports', () => {
+  it('quotes CSV cells that contain commas, quotes or line breaks', () => {
+    expect(tableToCSV(table)).toBe('Name,Note,Name\r\na,"says ""hi"", then\nleaves",12\r\nb,tab\there,-3.5');
+  });
+
+  it('replaces tabs and line breaks inside TSV cells', () => {
+    expect(tableToTSV(table).split('\n')[1]).toBe('a\tsays "hi", then leaves\t12');
+  });
+
+  it('outputs objects with unique keys and numeric values when there are headers', () => {
+    expect(JSON.parse(tableToJSON(table))).toEqual([
+      { Name: 'a', Note: 'says "hi", then\nleaves', Name_2: 12 },
+      { Name: 'b', Note: 'tab\there', Name_2: -3.5 },
+    ]);
+  });
+
+  it('outputs nested arrays without headers', () => {
+    expect(JSON.parse(tableToJSON({ headers: null, rows: [['x', '1']] }))).toEqual([['x', 1]]);
+  });
+});
@@ -0,0 +1,97 @@
+import { cleanUrl, getActiveUrlCleaningRules, resolveCleanUrl, stripTrackingParams } from '../lib/utils/url-cleaner.js';
+import { describe, expect, it } from 'vitest';
+import type { UrlCleaningSettings } from '@extension/storage';
+
+const settings: UrlCleaningSettings = {
+  enabled: true,
+  preferCanonical: false,
+  cleanFrontmatterUrl: true,
+  globalParams: [],
+  disabledBuiltinRules: [],
+  rules: [],
+};
+
+describe('stripTrackingParams', () => {
+  it('removes common tracking parameters only', () => {
+    expect(stripTrackingParams('https://example.com/a?id=1&utm_source=x&fbclid=y#top')).toBe(
+      'https://example.com/a?id=1#top',
+    );
+  });
+
+  it('returns the input unchanged when there is nothing to remove or it cannot be parsed', () => {
+    const url = 'https://example.com/a?b=1&a=2';
+    expect(stripTrackingParams(url)).toBe(url);
+    expect(stripTrackingParams('not a url?utm_source=x')).toBe('not a url?utm_source=x');
+  });
+});
+
+describe('cleanUrl', () => {
+  it('removes global parameters with prefix wildcards', () => {
+    const url = 'https://example.com/?ref=a&from_feed=1&q=x';
+    expect(cleanUrl(url, { ...settings, globalParams: ['ref', 'from_*'] })).toBe('https://example.com/?q=x');
+  });
+
+  it('applies remove rules to the domain and its subdomains', () => {
+    expect(cleanUrl('https://www.bilibili.com/video/BV1?p=2&spm_id_from=333&vd_source=abc', settings)).toBe(
+      'https://www.bilibili.com/video/BV1?p=2',
+    );
+  });
+
+  it('keeps only listed parameters for keep rules', () => {
+    expect(
+      cleanUrl('https://mp.weixin.qq.com/s?__biz=MzA&mid=1&idx=1&sn=abc&chksm=x&scene=21#wechat_redirect', settings),
+    ).toBe('https://mp.weixin.qq.com/s?__biz=MzA&mid=1&idx=1&sn=abc#wechat_redirect');
+    expect(cleanUrl('https://item.taobao.com/item.htm?id=1&spm=a&ali_refid=b', settings)).toBe(
+      'https://item.taobao.com/item.htm?id=1',
+    );
+    expect(cleanUrl('https://detail.tmall.com/item.htm?id=1&skuId=2&pvid=x', settings)).toBe(
+      'https://detail.tmall.com/item.htm?id=1&skuId=2',
+    );
+  });
+
+  it('keeps query strings on taobao and tmall pages other than item pages', () => {
+    expect(cleanUrl('https://s.taobao.com/search?q=phone&spm=1', settings)).toBe('https://s.taobao.com/search?q=phone');
+    expect(cleanUrl('https://list.tmall.com/search_product.htm?q=phone', settings)).toBe(
+      'https://list.tmall.com/search_product.htm?q=phone',
+    );
+  });
+
+  it('skips disabled built-in rules and disabled custom rules', () => {
+    const url = 'https://item.taobao.com/item.htm?id=1&ali_refid=b';
+    expect(cleanUrl(url, { ...settings, disabledBuiltinRules: ['taobao'] })).toBe(url);
+
+    const rule = { id: 'r', hostname: 'example.com', mode: 'remove' as const, params: ['from'], enabled: false };
+    expect(cleanUrl('https://example.com/?from=a', { ...settings, rules: [rule] })).toBe('https://example.com/?from=a');
+    expect(cleanUrl('https://example.com/?from=a', { ...settings, rules: [{ ...rule, enabled: true }] })).toBe(
+      'https://example.com/',
+    );
+  });
+
+  it('does not match hostnames that only share a suffix', () => {
+    const url = 'https://notbilibili.com/?spm_id_from=1';
+    expect(cleanUrl(url, settings)).toBe(url);
+  });
+});
+
+describe('getActiveUrlCleaningRules', () => {
+  it('lists enabled built-in rules followed by enabled custom rules', () => {
+    const custom = { id: 'custom', hostname: 'example.com', mode: 'remove' as const, params: ['a'], enabled: true };
+    const ids = getActiveUrlCleaningRules({ disabledBuiltinRules: ['zhihu'], rules: [custom] }).map(rule => rule.id);
+    expect(ids).not.toContain('zhihu');
+    expect(ids[ids.length - 1]).toBe('custom');
+  });
+});
+
+describe('resolveCleanUrl', () => {
+  const url = 'https://example.com/post?id=1&utm_source=x';
+
+  it('prefers an http(s) canonical URL only when enabled', () => {
+    expect(resolveCleanUrl(url, settings, 'https://example.com/canonical')).toBe('https://example.com/post?id=1');
+    expect(resolveCleanUrl(url, { ...settings, preferCanonical: true }, 'https://example.com/canonical')).toBe(
+      'https://example.com/canonical',
+    );
+    expect(resolveCleanUrl(url, { ...settings, preferCanonical: true }, 'javascript:void(0)')).toBe(
+      'https://example.com/post?id=1',
+    );
+  });
+});
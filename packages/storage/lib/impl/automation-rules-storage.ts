@@ -0,0 +1,103 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const storage = createStorage<AutomationRulesStateType>(
+  'automation-rules-storage-key',
+  {
+    rules: [],
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// URL 触发方式：通配符（* 和 ?）或正则表达式
+export type AutomationTriggerType = 'glob' | 'regex';
+
+export type AutomationActionType = 'applyDomPath' | 'autoCapture' | 'hideFloatingBadge' | 'fillForm';
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  formSelector?: string; // fillForm 使用
+  formData?: Record<string, string>; // fillForm 使用，键为字段名/id/label
+}
+
+// 页面加载完成且 URL 匹配时，由后台依次执行的动作
+export interface AutomationRule {
+  id: string;
+  name: string;
+  triggerType: AutomationTriggerType;
+  pattern: string;
+  waitForSelector?: string; // 等待该元素出现后再执行动作
+  waitTimeout?: number; // 毫秒
+  actions: AutomationAction[];
+  enabled: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+  lastRunAt?: number;
+}
+
+export interface AutomationRulesStateType {
+  rules: AutomationRule[];
+}
+
+export type AutomationRulesStorageType = BaseStorageType<AutomationRulesStateType> & {
+  getRules: () => Promise<AutomationRule[]>;
+  addRule: (rule: Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt' | 'lastRunAt'>) => Promise<void>;
+  updateRule: (id: string, rule: Partial<AutomationRule>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  markRuleRun: (id: string) => Promise<void>;
+};
+
+export const automationRulesStorage: AutomationRulesStorageType = {
+  ...storage,
+
+  // 获取全部规则
+  getRules: async () => {
+    const state = await storage.get();
+    return state.rules;
+  },
+
+  // 添加规则
+  addRule: async rule => {
+    await storage.set(currentState => {
+      const now = Date.now();
+      const newRule: AutomationRule = {
+        ...rule,
+        id: `auto_${now}_${Math.random().toString(36).substring(2, 9)}`,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      return {
+        ...currentState,
+        rules: [...currentState.rules, newRule],
+      };
+    });
+  },
+
+  // 更新规则
+  updateRule: async (id, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      rules: currentState.rules.map(rule => (rule.id === id ? { ...rule, ...updates, updatedAt: Date.now() } : rule)),
+    }));
+  },
+
+  // 删除规则
+  deleteRule: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      rules: currentState.rules.filter(rule => rule.id !== id),
+    }));
+  },
+
+  // 记录最近一次执行时间
+  markRuleRun: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      rules: currentState.rules.map(rule => (rule.id === id ? { ...rule, lastRunAt: Date.now() } : rule)),
+    }));
+  },
+};
@@ -0,0 +1,100 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+// 进度只在本次浏览器会话内有意义
+const storage = createStorage<BatchCaptureStateType>(
+  'batch-capture-storage-key',
+  {
+    job: null,
+  },
+  {
+    storageEnum: StorageEnum.Session,
+    liveUpdate: true,
+  },
+);
+
+// 批量捕获的范围：窗口中选中（高亮）的标签页，或整个窗口
+export type BatchCaptureScope = 'highlighted' | 'window';
+
+export type BatchCaptureItemStatus = 'pending' | 'capturing' | 'done' | 'error' | 'skipped';
+
+export interface BatchCaptureItem {
+  tabId: number;
+  title: string;
+  url: string;
+  status: BatchCaptureItemStatus;
+  error?: string;
+  captureId?: string; // 保存到资料库的捕获 id，侧边栏据此下载结果
+}
+
+// 后台批量捕获任务的进度，侧边栏据此显示
+export interface BatchCaptureJob {
+  id: string;
+  scope: BatchCaptureScope;
+  status: 'running' | 'done' | 'cancelled';
+  items: BatchCaptureItem[];
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface BatchCaptureStateType {
+  job: BatchCaptureJob | null;
+}
+
+export type BatchCaptureStorageType = BaseStorageType<BatchCaptureStateType> & {
+  getJob: () => Promise<BatchCaptureJob | null>;
+  startJob: (scope: BatchCaptureScope, items: BatchCaptureItem[]) => Promise<string>;
+  updateItem: (tabId: number, updates: Partial<BatchCaptureItem>) => Promise<void>;
+  finishJob: (status: 'done' | 'cancelled') => Promise<void>;
+  clearJob: () => Promise<void>;
+};
+
+export const batchCaptureStorage: BatchCaptureStorageType = {
+  ...storage,
+
+  // 获取当前任务
+  getJob: async () => {
+    const state = await storage.get();
+    return state.job;
+  },
+
+  // 开始新任务，替换上一次的进度，返回任务 id
+  startJob: async (scope, items) => {
+    const now = Date.now();
+    const id = `batch_${now}_${Math.random().toString(36).substring(2, 9)}`;
+    await storage.set({
+      job: {
+        id,
+        scope,
+        status: 'running',
+        items,
+        startedAt: now,
+      },
+    });
+    return id;
+  },
+
+  // 更新单个标签页的进度
+  updateItem: async (tabId, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      job: currentState.job && {
+        ...currentState.job,
+        items: currentState.job.items.map(item => (item.tabId === tabId ? { ...item, ...updates } : item)),
+      },
+    }));
+  },
+
+  // 结束任务
+  finishJob: async status => {
+    await storage.set(currentState => ({
+      ...currentState,
+      job: currentState.job && { ...currentState.job, status, finishedAt: Date.now() },
+    }));
+  },
+
+  // 清除进度
+  clearJob: async () => {
+    await storage.set({ job: null });
+  },
+};
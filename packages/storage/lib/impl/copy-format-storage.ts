@@ -1,6 +1,31 @@
 import { createStorage, StorageEnum } from '../base/index.js';
 import type { BaseStorageType } from '../base/index.js';
 
+// 快捷键可以执行的动作
+export type ShortcutAction = 'smart-capture' | 'toggle-badge' | 'start-selection' | 'copy-tab-list';
+
+// 快捷键槽位绑定的目标：某个复制格式，或一个动作
+export type ShortcutBinding = { type: 'format'; formatId: string } | { type: 'action'; action: ShortcutAction };
+
+export interface ShortcutConfig {
+  enabled: boolean;
+  command: string;
+  description: string;
+  // 未设置时 copy-title-selected 使用当前选中的格式
+  binding?: ShortcutBinding;
+}
+
+// 复制标签页列表：范围、输出样式和过滤选项
+export type TabListScope = 'window' | 'highlighted' | 'group';
+export type TabListStyle = 'markdown' | 'numbered' | 'html' | 'csv';
+
+export interface TabListOptions {
+  scope: TabListScope;
+  style: TabListStyle;
+  dedupe: boolean;
+  skipInternal: boolean;
+}
+
 // 复制格式的数据结构
 export interface CopyFormatSettings {
   customFormat: string;
@@ -13,18 +38,80 @@ export interface CopyFormatSettings {
     icon: string;
   }>;
   shortcuts: {
-    [key: string]: {
-      enabled: boolean;
-      command: string;
-      description: string;
-    };
+    [key: string]: ShortcutConfig;
   };
+  tabList: TabListOptions;
 }
 
 export interface CopyFormatStateType {
   settings: CopyFormatSettings;
 }
 
+// 与 manifest 中的 commands 一一对应，按键在 chrome://extensions/shortcuts 中设置
+const DEFAULT_SHORTCUTS: CopyFormatSettings['shortcuts'] = {
+  'copy-title-selected': {
+    enabled: true,
+    command: 'copy-title-selected',
+    description: 'Copy page title in selected format',
+  },
+  'copy-format-1': {
+    enabled: true,
+    command: 'copy-format-1',
+    description: 'Copy format slot 1',
+    binding: { type: 'format', formatId: 'markdown' },
+  },
+  'copy-format-2': {
+    enabled: true,
+    command: 'copy-format-2',
+    description: 'Copy format slot 2',
+    binding: { type: 'format', formatId: 'title' },
+  },
+  'copy-format-3': {
+    enabled: true,
+    command: 'copy-format-3',
+    description: 'Copy format slot 3',
+    binding: { type: 'format', formatId: 'url' },
+  },
+  'copy-format-4': {
+    enabled: true,
+    command: 'copy-format-4',
+    description: 'Copy format slot 4',
+    binding: { type: 'format', formatId: 'custom' },
+  },
+  'smart-capture': {
+    enabled: true,
+    command: 'smart-capture',
+    description: 'Capture main content to library',
+    binding: { type: 'action', action: 'smart-capture' },
+  },
+  'toggle-badge': {
+    enabled: true,
+    command: 'toggle-badge',
+    description: 'Toggle floating badge',
+    binding: { type: 'action', action: 'toggle-badge' },
+  },
+  'start-selection': {
+    enabled: true,
+    command: 'start-selection',
+    description: 'Start element selection',
+    binding: { type: 'action', action: 'start-selection' },
+  },
+  'copy-tab-list': {
+    enabled: true,
+    command: 'copy-tab-list',
+    description: 'Copy tabs as a list',
+    binding: { type: 'action', action: 'copy-tab-list' },
+  },
+};
+
+// 默认复制当前窗口的全部标签页，去重并跳过浏览器内部页面
+export const DEFAULT_TAB_LIST_OPTIONS: TabListOptions = {
+  scope: 'window',
+  style: 'markdown',
+  dedupe: true,
+  skipInternal: true,
+};
+
 const storage = createStorage<CopyFormatStateType>(
   'copy-format-storage-key',
   {
@@ -33,13 +120,8 @@ const storage = createStorage<CopyFormatStateType>(
       selectedFormat: 'markdown', // 默认选择 markdown 格式
       formatHistory: [],
       savedFormats: [],
-      shortcuts: {
-        'copy-title-selected': {
-          enabled: true,
-          command: 'copy-title-selected',
-          description: 'Copy page title in selected format',
-        },
-      },
+      shortcuts: DEFAULT_SHORTCUTS,
+      tabList: DEFAULT_TAB_LIST_OPTIONS,
     },
   },
   {
@@ -58,7 +140,10 @@ export type CopyFormatStorageType = BaseStorageType<CopyFormatStateType> & {
   removeSavedFormat: (id: string) => Promise<void>;
   clearFormatHistory: () => Promise<void>;
   toggleShortcut: (command: string, enabled: boolean) => Promise<void>;
+  setShortcutBinding: (command: string, binding: ShortcutBinding) => Promise<void>;
   getShortcuts: () => Promise<CopyFormatSettings['shortcuts']>;
+  getTabListOptions: () => Promise<TabListOptions>;
+  updateTabListOptions: (options: Partial<TabListOptions>) => Promise<void>;
 };
 
 export const copyFormatStorage: CopyFormatStorageType = {
@@ -168,6 +253,7 @@ export const copyFormatStorage: CopyFormatStorageType = {
         shortcuts: {
           ...currentState.settings.shortcuts,
           [command]: {
+            ...DEFAULT_SHORTCUTS[command],
             ...currentState.settings.shortcuts[command],
             enabled,
           },
@@ -176,9 +262,48 @@ export const copyFormatStorage: CopyFormatStorageType = {
     }));
   },
 
-  // 获取快捷键配置
+  // 设置快捷键槽位绑定的格式或动作
+  setShortcutBinding: async (command: string, binding: ShortcutBinding) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        shortcuts: {
+          ...currentState.settings.shortcuts,
+          [command]: {
+            ...DEFAULT_SHORTCUTS[command],
+            ...currentState.settings.shortcuts[command],
+            binding,
+          },
+        },
+      },
+    }));
+  },
+
+  // 获取快捷键配置，补全旧版本存储中没有的槽位
   getShortcuts: async () => {
     const state = await storage.get();
-    return state.settings.shortcuts;
+    return { ...DEFAULT_SHORTCUTS, ...state.settings.shortcuts };
+  },
+
+  // 获取标签页列表选项，补全旧版本存储中没有的字段
+  getTabListOptions: async () => {
+    const state = await storage.get();
+    return { ...DEFAULT_TAB_LIST_OPTIONS, ...state.settings.tabList };
+  },
+
+  // 更新标签页列表选项
+  updateTabListOptions: async (options: Partial<TabListOptions>) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        tabList: {
+          ...DEFAULT_TAB_LIST_OPTIONS,
+          ...currentState.settings.tabList,
+          ...options,
+        },
+      },
+    }));
   },
 };
@@ -4,6 +4,7 @@ import type { BaseStorageType } from '../base/index.js';
 // DOM路径存储的数据结构
 export interface DomPathData {
   path: string;
+  fallbacks?: string[]; // 主路径失效时按顺序尝试的备用选择器（可包含 XPath）
   url: string;
   hostname: string;
   timestamp: number;
@@ -27,8 +28,9 @@ const storage = createStorage<DomPathStateType>(
 );
 
 export type DomPathStorageType = BaseStorageType<DomPathStateType> & {
-  savePath: (url: string, path: string) => Promise<void>;
+  savePath: (url: string, path: string, fallbacks?: string[]) => Promise<void>;
   loadPath: (url: string) => Promise<string | null>;
+  loadPathData: (url: string) => Promise<DomPathData | null>;
   setCurrentPath: (path: string) => Promise<void>;
   clearPath: (url: string) => Promise<void>;
   getAllPaths: () => Promise<Record<string, DomPathData>>;
@@ -48,7 +50,7 @@ export const domPathStorage: DomPathStorageType = {
   ...storage,
 
   // 保存DOM路径
-  savePath: async (url: string, path: string) => {
+  savePath: async (url: string, path: string, fallbacks: string[] = []) => {
     const key = generateStorageKey(url);
     const urlObj = new URL(url);
 
@@ -58,6 +60,7 @@ export const domPathStorage: DomPathStorageType = {
         ...currentState.paths,
         [key]: {
           path,
+          fallbacks,
           url,
           hostname: urlObj.hostname,
           timestamp: Date.now(),
@@ -69,12 +72,18 @@ export const domPathStorage: DomPathStorageType = {
 
   // 加载DOM路径
   loadPath: async (url: string) => {
+    const data = await domPathStorage.loadPathData(url);
+    return data ? data.path : null;
+  },
+
+  // 加载DOM路径及其备用选择器
+  loadPathData: async (url: string) => {
     const state = await storage.get();
     const key = generateStorageKey(url);
 
     // 首先查找精确匹配
     if (state.paths[key]) {
-      return state.paths[key].path;
+      return state.paths[key];
     }
 
     // 如果没有精确匹配，查找同域名下的路径
@@ -87,7 +96,7 @@ export const domPathStorage: DomPathStorageType = {
         .sort((a, b) => b.timestamp - a.timestamp); // 按时间排序，最新的在前
 
       if (sameHostPaths.length > 0) {
-        return sameHostPaths[0].path;
+        return sameHostPaths[0];
       }
     } catch {
       // URL解析失败，返回null
@@ -1,27 +1,47 @@
 import { createStorage, StorageEnum } from '../base/index.js';
 import type { BaseStorageType } from '../base/index.js';
 
+// 同名文件已存在时的处理方式（对应 chrome.downloads 的 conflictAction）
+export type DownloadConflictAction = 'uniquify' | 'overwrite' | 'prompt';
+
+// 下载路由规则：按域名或标签把文件放入子文件夹
+export interface DownloadRoutingRule {
+  id: string;
+  type: 'hostname' | 'tag';
+  pattern: string; // 域名（含子域名）或标签
+  folder: string; // 相对下载目录的子文件夹，可多级
+  enabled: boolean;
+}
+
 // 下载设置的数据结构
 export interface DownloadSettings {
   defaultPath: string;
   useDefaultPath: boolean;
   lastUsedPath: string;
   askForLocation: boolean; // 是否每次都询问位置
+  filenameTemplate: string; // 支持 {slug}、{title}、{hostname}、{date} 等占位符，可包含 / 分隔的文件夹
+  conflictAction: DownloadConflictAction;
+  routingRules: DownloadRoutingRule[];
 }
 
 export interface DownloadSettingsStateType {
   settings: DownloadSettings;
 }
 
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  defaultPath: 'Downloads',
+  useDefaultPath: false,
+  lastUsedPath: 'Downloads',
+  askForLocation: true,
+  filenameTemplate: '{slug}',
+  conflictAction: 'uniquify',
+  routingRules: [],
+};
+
 const storage = createStorage<DownloadSettingsStateType>(
   'download-settings-storage-key',
   {
-    settings: {
-      defaultPath: 'Downloads',
-      useDefaultPath: false,
-      lastUsedPath: 'Downloads',
-      askForLocation: true,
-    },
+    settings: DEFAULT_DOWNLOAD_SETTINGS,
   },
   {
     storageEnum: StorageEnum.Local,
@@ -36,15 +56,18 @@ export type DownloadSettingsStorageType = BaseStorageType<DownloadSettingsStateT
   setLastUsedPath: (path: string) => Promise<void>;
   setAskForLocation: (ask: boolean) => Promise<void>;
   setUseDefaultPath: (use: boolean) => Promise<void>;
+  addRoutingRule: (rule: Omit<DownloadRoutingRule, 'id'>) => Promise<void>;
+  updateRoutingRule: (id: string, rule: Partial<DownloadRoutingRule>) => Promise<void>;
+  deleteRoutingRule: (id: string) => Promise<void>;
 };
 
 export const downloadSettingsStorage: DownloadSettingsStorageType = {
   ...storage,
 
-  // 获取下载设置
+  // 获取下载设置（旧版本保存的设置缺少的字段使用默认值）
   getSettings: async () => {
     const state = await storage.get();
-    return state.settings;
+    return { ...DEFAULT_DOWNLOAD_SETTINGS, ...state.settings };
   },
 
   // 更新设置
@@ -101,4 +124,42 @@ export const downloadSettingsStorage: DownloadSettingsStorageType = {
       },
     }));
   },
+
+  // 添加路由规则
+  addRoutingRule: async rule => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        routingRules: [
+          ...(currentState.settings.routingRules || []),
+          { ...rule, id: `route_${Date.now()}_${Math.random().toString(36).substring(2, 9)}` },
+        ],
+      },
+    }));
+  },
+
+  // 更新路由规则
+  updateRoutingRule: async (id, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        routingRules: (currentState.settings.routingRules || []).map(rule =>
+          rule.id === id ? { ...rule, ...updates } : rule,
+        ),
+      },
+    }));
+  },
+
+  // 删除路由规则
+  deleteRoutingRule: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        routingRules: (currentState.settings.routingRules || []).filter(rule => rule.id !== id),
+      },
+    }));
+  },
 };
@@ -0,0 +1,98 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const DEFAULT_FRONTMATTER_TEMPLATE: FrontmatterTemplate = {
+  format: 'yaml',
+  fields: [
+    { id: 'title', key: 'title', source: 'title', enabled: true },
+    { id: 'slug', key: 'slug', source: 'slug', enabled: true },
+    { id: 'source', key: 'source', source: 'source', enabled: true },
+    { id: 'datetime', key: 'datetime', source: 'datetime', enabled: true },
+    { id: 'tags', key: 'tags', source: 'tags', enabled: false },
+  ],
+  dateFormat: 'ISO',
+  tags: [],
+};
+
+const storage = createStorage<FrontmatterTemplateStateType>(
+  'frontmatter-template-storage-key',
+  {
+    template: DEFAULT_FRONTMATTER_TEMPLATE,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// frontmatter 输出格式
+export type FrontmatterFormat = 'yaml' | 'toml' | 'none';
+
+// 字段取值来源，static 表示使用自定义的固定值
+export type FrontmatterFieldSource =
+  | 'title'
+  | 'slug'
+  | 'source'
+  | 'datetime'
+  | 'domain'
+  | 'author'
+  | 'description'
+  | 'tags'
+  | 'static';
+
+export interface FrontmatterField {
+  id: string;
+  key: string; // 输出的字段名
+  source: FrontmatterFieldSource;
+  value?: string; // source 为 static 时使用
+  enabled: boolean;
+}
+
+// frontmatter 模板，fields 的顺序即输出顺序
+export interface FrontmatterTemplate {
+  format: FrontmatterFormat;
+  fields: FrontmatterField[];
+  dateFormat: string; // 'ISO' 或如 'YYYY-MM-DD HH:mm:ss' 的格式
+  tags: string[];
+}
+
+export interface FrontmatterTemplateStateType {
+  template: FrontmatterTemplate;
+}
+
+export type FrontmatterTemplateStorageType = BaseStorageType<FrontmatterTemplateStateType> & {
+  getTemplate: () => Promise<FrontmatterTemplate>;
+  updateTemplate: (template: Partial<FrontmatterTemplate>) => Promise<void>;
+  resetTemplate: () => Promise<void>;
+};
+
+export const frontmatterTemplateStorage: FrontmatterTemplateStorageType = {
+  ...storage,
+
+  // 获取模板
+  getTemplate: async () => {
+    const state = await storage.get();
+    return state.template;
+  },
+
+  // 更新模板
+  updateTemplate: async (newTemplate: Partial<FrontmatterTemplate>) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      template: {
+        ...currentState.template,
+        ...newTemplate,
+      },
+    }));
+  },
+
+  // 恢复默认模板
+  resetTemplate: async () => {
+    await storage.set(currentState => ({
+      ...currentState,
+      template: DEFAULT_FRONTMATTER_TEMPLATE,
+    }));
+  },
+};
+
+export { DEFAULT_FRONTMATTER_TEMPLATE };
@@ -5,3 +5,10 @@ export * from './copy-format-storage.js';
 export * from './site-presets-storage.js';
 export * from './edge-snapping-storage.js';
 export * from './floating-badge-storage.js';
+export * from './frontmatter-template-storage.js';
+export * from './turndown-rules-storage.js';
+export * from './automation-rules-storage.js';
+export * from './page-watch-storage.js';
+export * from './link-handling-storage.js';
+export * from './batch-capture-storage.js';
+export * from './url-cleaning-storage.js';
@@ -0,0 +1,55 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const storage = createStorage<LinkHandlingStateType>(
+  'link-handling-storage-key',
+  {
+    settings: {
+      style: 'inlined',
+      resolveRelative: true,
+      stripTracking: true,
+      removeEmptyLinks: true,
+    },
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// 链接输出样式：行内 [text](url)、引用 [text][1]、脚注 text[^1]
+export type LinkStyle = 'inlined' | 'referenced' | 'footnote';
+
+export interface LinkHandlingSettings {
+  style: LinkStyle;
+  resolveRelative: boolean; // 相对地址按页面地址补全
+  stripTracking: boolean; // 去掉 utm_* 等跟踪参数
+  removeEmptyLinks: boolean; // 去掉空链接和页内锚点链接
+}
+
+export interface LinkHandlingStateType {
+  settings: LinkHandlingSettings;
+}
+
+export type LinkHandlingStorageType = BaseStorageType<LinkHandlingStateType> & {
+  getSettings: () => Promise<LinkHandlingSettings>;
+  updateSettings: (settings: Partial<LinkHandlingSettings>) => Promise<void>;
+};
+
+export const linkHandlingStorage: LinkHandlingStorageType = {
+  ...storage,
+
+  // 获取设置
+  getSettings: async () => {
+    const state = await storage.get();
+    return state.settings;
+  },
+
+  // 更新设置
+  updateSettings: async updates => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: { ...currentState.settings, ...updates },
+    }));
+  },
+};
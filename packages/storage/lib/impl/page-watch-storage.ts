@@ -0,0 +1,85 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const storage = createStorage<PageWatchStateType>(
+  'page-watch-storage-key',
+  {
+    watches: [],
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// 监控的页面元素：后台按周期重新抓取并与上一次快照比较
+export interface PageWatch {
+  id: string;
+  url: string;
+  title: string;
+  domPath: string;
+  fallbacks?: string[];
+  intervalMinutes: number;
+  enabled: boolean;
+  snapshot: string; // 最近一次的 Markdown 内容（不含 frontmatter）
+  previousSnapshot?: string; // 发生变化前的内容，用于生成差异
+  hasUnreadChange?: boolean;
+  lastError?: string;
+  lastCheckedAt?: number;
+  lastChangedAt?: number;
+  createdAt?: number;
+}
+
+export interface PageWatchStateType {
+  watches: PageWatch[];
+}
+
+export type PageWatchStorageType = BaseStorageType<PageWatchStateType> & {
+  getWatches: () => Promise<PageWatch[]>;
+  addWatch: (watch: Omit<PageWatch, 'id' | 'createdAt'>) => Promise<void>;
+  updateWatch: (id: string, watch: Partial<PageWatch>) => Promise<void>;
+  deleteWatch: (id: string) => Promise<void>;
+};
+
+export const pageWatchStorage: PageWatchStorageType = {
+  ...storage,
+
+  // 获取全部监控
+  getWatches: async () => {
+    const state = await storage.get();
+    return state.watches;
+  },
+
+  // 添加监控
+  addWatch: async watch => {
+    await storage.set(currentState => {
+      const now = Date.now();
+      const newWatch: PageWatch = {
+        ...watch,
+        id: `watch_${now}_${Math.random().toString(36).substring(2, 9)}`,
+        createdAt: now,
+      };
+
+      return {
+        ...currentState,
+        watches: [...currentState.watches, newWatch],
+      };
+    });
+  },
+
+  // 更新监控
+  updateWatch: async (id, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      watches: currentState.watches.map(watch => (watch.id === id ? { ...watch, ...updates } : watch)),
+    }));
+  },
+
+  // 删除监控
+  deleteWatch: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      watches: currentState.watches.filter(watch => watch.id !== id),
+    }));
+  },
+};
@@ -9,6 +9,7 @@ export interface SitePreset {
   selectors: string[];
   priority: number;
   enabled: boolean;
+  nextPageSelector?: string; // 分页文章的“下一页”链接选择器
   isBuiltIn?: boolean;
   createdAt?: number;
   updatedAt?: number;
@@ -0,0 +1,118 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const storage = createStorage<TurndownRulesStateType>(
+  'turndown-rules-storage-key',
+  {
+    settings: {
+      customRules: [],
+      disabledBuiltInRules: [],
+    },
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// 自定义规则对匹配节点的处理方式
+export type CustomTurndownRuleAction = 'remove' | 'unwrap' | 'template';
+
+// 用户自定义的转换规则
+export interface CustomTurndownRule {
+  id: string;
+  name: string;
+  patterns: string[]; // URL包含任一模式时生效
+  selector: string; // 节点过滤（CSS选择器）
+  action: CustomTurndownRuleAction;
+  template?: string; // action 为 template 时使用，支持 {content}、{text}、{attr:name}
+  enabled: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface TurndownRulesSettings {
+  customRules: CustomTurndownRule[];
+  disabledBuiltInRules: string[];
+}
+
+export interface TurndownRulesStateType {
+  settings: TurndownRulesSettings;
+}
+
+export type TurndownRulesStorageType = BaseStorageType<TurndownRulesStateType> & {
+  getSettings: () => Promise<TurndownRulesSettings>;
+  addRule: (rule: Omit<CustomTurndownRule, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateRule: (id: string, rule: Partial<CustomTurndownRule>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  toggleBuiltInRule: (id: string, enabled: boolean) => Promise<void>;
+};
+
+export const turndownRulesStorage: TurndownRulesStorageType = {
+  ...storage,
+
+  // 获取设置
+  getSettings: async () => {
+    const state = await storage.get();
+    return state.settings;
+  },
+
+  // 添加自定义规则
+  addRule: async rule => {
+    await storage.set(currentState => {
+      const now = Date.now();
+      const newRule: CustomTurndownRule = {
+        ...rule,
+        id: `rule_${now}_${Math.random().toString(36).substring(2, 9)}`,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      return {
+        ...currentState,
+        settings: {
+          ...currentState.settings,
+          customRules: [...currentState.settings.customRules, newRule],
+        },
+      };
+    });
+  },
+
+  // 更新自定义规则
+  updateRule: async (id, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        customRules: currentState.settings.customRules.map(rule =>
+          rule.id === id ? { ...rule, ...updates, updatedAt: Date.now() } : rule,
+        ),
+      },
+    }));
+  },
+
+  // 删除自定义规则
+  deleteRule: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        customRules: currentState.settings.customRules.filter(rule => rule.id !== id),
+      },
+    }));
+  },
+
+  // 启用/禁用内置规则
+  toggleBuiltInRule: async (id, enabled) => {
+    await storage.set(currentState => {
+      const disabled = currentState.settings.disabledBuiltInRules.filter(ruleId => ruleId !== id);
+      return {
+        ...currentState,
+        settings: {
+          ...currentState.settings,
+          disabledBuiltInRules: enabled ? disabled : [...disabled, id],
+        },
+      };
+    });
+  },
+};
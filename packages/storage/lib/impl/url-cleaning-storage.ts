@@ -0,0 +1,122 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { BaseStorageType } from '../base/index.js';
+
+const storage = createStorage<UrlCleaningStateType>(
+  'url-cleaning-storage-key',
+  {
+    settings: {
+      enabled: true,
+      preferCanonical: false,
+      cleanFrontmatterUrl: true,
+      globalParams: [],
+      disabledBuiltinRules: [],
+      rules: [],
+    },
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+// remove：去掉列出的参数；keep：只保留列出的参数
+export type UrlCleaningMode = 'remove' | 'keep';
+
+// 按域名生效的清理规则，同时匹配子域名；参数名支持结尾的 * 通配
+export interface UrlCleaningRule {
+  id: string;
+  hostname: string;
+  mode: UrlCleaningMode;
+  params: string[];
+  enabled: boolean;
+}
+
+export interface UrlCleaningSettings {
+  enabled: boolean; // 复制标题和网址时清理网址
+  preferCanonical: boolean; // 页面声明了 <link rel="canonical"> 时优先使用
+  cleanFrontmatterUrl: boolean; // 捕获时清理 frontmatter 中的来源网址
+  globalParams: string[]; // 在内置跟踪参数之外，所有网站都去掉的参数
+  disabledBuiltinRules: string[]; // 停用的内置规则 id
+  rules: UrlCleaningRule[]; // 自定义规则
+}
+
+export interface UrlCleaningStateType {
+  settings: UrlCleaningSettings;
+}
+
+export type UrlCleaningStorageType = BaseStorageType<UrlCleaningStateType> & {
+  getSettings: () => Promise<UrlCleaningSettings>;
+  updateSettings: (settings: Partial<UrlCleaningSettings>) => Promise<void>;
+  toggleBuiltinRule: (id: string, enabled: boolean) => Promise<void>;
+  addRule: (rule: Omit<UrlCleaningRule, 'id'>) => Promise<void>;
+  updateRule: (id: string, updates: Partial<UrlCleaningRule>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+};
+
+export const urlCleaningStorage: UrlCleaningStorageType = {
+  ...storage,
+
+  // 获取设置
+  getSettings: async () => {
+    const state = await storage.get();
+    return state.settings;
+  },
+
+  // 更新设置
+  updateSettings: async updates => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: { ...currentState.settings, ...updates },
+    }));
+  },
+
+  // 启用或停用内置规则
+  toggleBuiltinRule: async (id, enabled) => {
+    await storage.set(currentState => {
+      const disabled = currentState.settings.disabledBuiltinRules.filter(ruleId => ruleId !== id);
+      return {
+        ...currentState,
+        settings: {
+          ...currentState.settings,
+          disabledBuiltinRules: enabled ? disabled : [...disabled, id],
+        },
+      };
+    });
+  },
+
+  // 添加自定义规则
+  addRule: async rule => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        rules: [
+          ...currentState.settings.rules,
+          { ...rule, id: `urlrule_${Date.now()}_${Math.random().toString(36).substring(2, 9)}` },
+        ],
+      },
+    }));
+  },
+
+  // 更新自定义规则
+  updateRule: async (id, updates) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        rules: currentState.settings.rules.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)),
+      },
+    }));
+  },
+
+  // 删除自定义规则
+  deleteRule: async id => {
+    await storage.set(currentState => ({
+      ...currentState,
+      settings: {
+        ...currentState.settings,
+        rules: currentState.settings.rules.filter(rule => rule.id !== id),
+      },
+    }));
+  },
+};
@@ -5,8 +5,28 @@ import {
   ElementMarker,
   FloatingBadge,
   FloatingBadgeSimple,
+  HighlightManager,
+  extractTable,
+  findTableElement,
+  getHighlightPageUrl,
+  resolveSelectorWithFallbacks,
+  isSelectorList,
+  collectPageMetadata,
+  requestMathJaxSources,
 } from '@extension/shared';
-import type { FormFillRequest, SitePreset, FloatingBadgeConfig } from '@extension/shared';
+import type {
+  FormFillRequest,
+  HighlightData,
+  SitePreset,
+  FloatingBadgeConfig,
+  SmartSelectStrategy,
+} from '@extension/shared';
+import type {
+  FrontmatterTemplate,
+  LinkHandlingSettings,
+  TurndownRulesSettings,
+  UrlCleaningSettings,
+} from '@extension/storage';
 
 console.debug('[LovpenSider] Content script loaded');
 
@@ -55,6 +75,18 @@ const BUILT_IN_PRESETS: SitePreset[] = [
 ];
 
 class LovpenSiderElementSelector extends ElementSelector {
+  // 正在应用已保存的DOM路径（切换标签页、页面跳转或自动化规则），而不是用户选择
+  private isRestoringSelection = false;
+
+  restoreSelection(element: Element): void {
+    this.isRestoringSelection = true;
+    try {
+      this.triggerElementSelected(element);
+    } finally {
+      this.isRestoringSelection = false;
+    }
+  }
+
   protected onElementSelected(): void {
     const data = this.getSelectedElementData();
     if (data) {
@@ -63,8 +95,14 @@ class LovpenSiderElementSelector extends ElementSelector {
         action: 'elementSelected',
         html: data.html,
         markdown: data.markdown,
+        title: data.title,
         slug: data.slug,
+        url: data.url,
+        tags: data.tags,
         domPath: data.domPath,
+        fallbackPaths: data.fallbackPaths,
+        hasTable: !!findTableElement(this.getSelectedElement()),
+        restored: this.isRestoringSelection,
       });
     }
 
@@ -82,8 +120,13 @@ class LovpenSiderElementSelector extends ElementSelector {
         action: 'elementDataUpdate',
         html: data.html,
         markdown: data.markdown,
+        title: data.title,
         slug: data.slug,
+        url: data.url,
+        tags: data.tags,
         domPath: data.domPath,
+        fallbackPaths: data.fallbackPaths,
+        hasTable: !!findTableElement(this.getSelectedElement()),
       });
     }
   }
@@ -96,6 +139,12 @@ class LovpenSiderElementSelector extends ElementSelector {
   }
 }
 
+// 用户配置的frontmatter模板和转换规则（重新创建选择器时沿用）
+let frontmatterTemplate: FrontmatterTemplate | undefined;
+let turndownRules: TurndownRulesSettings | undefined;
+let linkHandling: LinkHandlingSettings | undefined;
+let urlCleaning: UrlCleaningSettings | undefined;
+
 // 创建选择器实例（初始化时先使用默认预设）
 let selector = new LovpenSiderElementSelector({
   enableNavigation: true,
@@ -130,6 +179,7 @@ async function loadUserPresets() {
             patterns: override.patterns || preset.patterns,
             selectors: override.selectors || preset.selectors,
             priority: override.priority !== undefined ? override.priority : preset.priority,
+            nextPageSelector: override.nextPageSelector ?? preset.nextPageSelector,
           };
         }
 
@@ -143,6 +193,7 @@ async function loadUserPresets() {
           patterns: preset.patterns,
           selectors: preset.selectors,
           priority: preset.priority || 10,
+          nextPageSelector: preset.nextPageSelector,
         }));
 
       // 合并预设，自定义预设优先级更高
@@ -153,6 +204,10 @@ async function loadUserPresets() {
         enableNavigation: true,
         showStatusMessages: true,
         sitePresets: allPresets,
+        frontmatterTemplate,
+        turndownRules,
+        linkHandling,
+        urlCleaning,
       });
 
       console.log('[LovpenSider] 预设配置已加载，共', allPresets.length, '个预设');
@@ -173,6 +228,82 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
   }
 });
 
+// 加载frontmatter模板
+async function loadFrontmatterTemplate() {
+  try {
+    const result = await chrome.storage.local.get('frontmatter-template-storage-key');
+    frontmatterTemplate = result['frontmatter-template-storage-key']?.template;
+    selector.setFrontmatterTemplate(frontmatterTemplate);
+  } catch (error) {
+    console.error('[LovpenSider] 加载frontmatter模板失败:', error);
+  }
+}
+
+loadFrontmatterTemplate();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes['frontmatter-template-storage-key']) {
+    loadFrontmatterTemplate();
+  }
+});
+
+// 加载站点转换规则
+async function loadTurndownRules() {
+  try {
+    const result = await chrome.storage.local.get('turndown-rules-storage-key');
+    turndownRules = result['turndown-rules-storage-key']?.settings;
+    selector.setTurndownRules(turndownRules);
+  } catch (error) {
+    console.error('[LovpenSider] 加载转换规则失败:', error);
+  }
+}
+
+loadTurndownRules();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes['turndown-rules-storage-key']) {
+    loadTurndownRules();
+  }
+});
+
+// 加载链接处理方式
+async function loadLinkHandling() {
+  try {
+    const result = await chrome.storage.local.get('link-handling-storage-key');
+    linkHandling = result['link-handling-storage-key']?.settings;
+    selector.setLinkHandling(linkHandling);
+  } catch (error) {
+    console.error('[LovpenSider] 加载链接处理设置失败:', error);
+  }
+}
+
+loadLinkHandling();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes['link-handling-storage-key']) {
+    loadLinkHandling();
+  }
+});
+
+// 加载网址清理设置
+async function loadUrlCleaning() {
+  try {
+    const result = await chrome.storage.local.get('url-cleaning-storage-key');
+    urlCleaning = result['url-cleaning-storage-key']?.settings;
+    selector.setUrlCleaning(urlCleaning);
+  } catch (error) {
+    console.error('[LovpenSider] 加载网址清理设置失败:', error);
+  }
+}
+
+loadUrlCleaning();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes['url-cleaning-storage-key']) {
+    loadUrlCleaning();
+  }
+});
+
 // 创建表单处理实例
 const formDetector = new FormDetector();
 const formFiller = new FormFiller();
@@ -180,28 +311,243 @@ const formFiller = new FormFiller();
 // 创建元素标记实例
 const elementMarker = new ElementMarker();
 
+// 网页高亮：保存在扩展的 IndexedDB 中，由后台读写
+const highlightManager = new HighlightManager({
+  onHighlightCreated: async highlight => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'saveHighlight', highlight });
+      if (!response?.success) return null;
+
+      // 通知侧边栏刷新高亮列表
+      chrome.runtime.sendMessage({ action: 'highlightsChanged', url: highlight.url }).catch(() => {});
+      return response.id;
+    } catch (error) {
+      console.error('[LovpenSider] 保存高亮失败:', error);
+      return null;
+    }
+  },
+});
+
+// 重新绘制本页已保存的高亮，内容延迟渲染时稍后重试未定位的高亮
+async function restoreHighlights(retries = 3) {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getHighlights',
+      url: getHighlightPageUrl(window.location.href),
+    });
+    const highlights: HighlightData[] = response?.highlights || [];
+    if (highlights.length === 0) return;
+
+    let pending = highlightManager.paint(highlights);
+    for (let attempt = 0; attempt < retries && pending.length > 0; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      pending = highlightManager.paint(pending);
+    }
+
+    if (pending.length > 0) {
+      console.log('[LovpenSider] 部分高亮未能定位:', pending.length);
+    }
+  } catch (error) {
+    console.error('[LovpenSider] 恢复高亮失败:', error);
+  }
+}
+
+restoreHighlights();
+
+// 等待元素出现（自动化规则使用），超时返回 false；无效的选择器在创建 Promise 前同步抛出
+const waitForElement = (cssSelector: string, timeout: number): Promise<boolean> => {
+  if (document.querySelector(cssSelector)) return Promise.resolve(true);
+
+  return new Promise(resolve => {
+    const finish = (found: boolean) => {
+      observer.disconnect();
+      clearTimeout(timer);
+      resolve(found);
+    };
+    const observer = new MutationObserver(() => {
+      if (document.querySelector(cssSelector)) finish(true);
+    });
+    const timer = setTimeout(() => finish(false), timeout);
+    observer.observe(document.documentElement, { childList: true, subtree: true });
+  });
+};
+
+// 等待保存的选择器之一能解析到元素（页面监控使用），超时返回 null
+const waitForSelectors = async (selectors: string[], timeout: number): Promise<Element[] | null> => {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    const resolved = resolveSelectorWithFallbacks(selectors, document);
+    if (resolved) return resolved.elements;
+    if (Date.now() >= deadline) return null;
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+};
+
 // 监听来自侧边栏的消息
 chrome.runtime.onMessage.addListener(
   (request: unknown, _sender: unknown, sendResponse: (response?: unknown) => void) => {
     if (!request || typeof request !== 'object') return false;
 
-    const msg = request as { action?: string; domPath?: string; text?: string; data?: unknown };
+    const msg = request as {
+      action?: string;
+      domPath?: string;
+      fallbacks?: string[];
+      text?: string;
+      data?: unknown;
+      strategy?: SmartSelectStrategy;
+      selector?: string;
+      timeout?: number;
+      maxPages?: number;
+      enabled?: boolean;
+      id?: string;
+      note?: string;
+      cleanNumbers?: boolean;
+    };
     if (msg.action === 'startSelection') {
+      void requestMathJaxSources();
       selector.startSelection();
       sendResponse({ success: true });
     } else if (msg.action === 'stopSelection') {
       selector.stopSelection();
       sendResponse({ success: true });
     } else if (msg.action === 'smartSelect') {
-      selector.smartSelect();
+      requestMathJaxSources().then(() => selector.smartSelect(msg.strategy));
       sendResponse({ success: true });
+    } else if (msg.action === 'compareStrategies') {
+      try {
+        sendResponse({ success: true, candidates: selector.compareStrategies() });
+      } catch (error) {
+        console.error('[LovpenSider] 对比智能选择策略失败:', error);
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    } else if (msg.action === 'waitForSelector') {
+      try {
+        waitForElement(msg.selector || '', msg.timeout || 10000).then(found => {
+          sendResponse({ success: found, error: found ? undefined : '等待元素超时' });
+        });
+        return true; // 保持消息通道开放
+      } catch {
+        sendResponse({ success: false, error: '无效的选择器' });
+      }
+    } else if (msg.action === 'autoCapture') {
+      // 静默捕获当前选中元素或正文，供后台保存到资料库
+      requestMathJaxSources()
+        .then(() => {
+          const data = selector.captureMainContent();
+          if (data) {
+            sendResponse({
+              success: true,
+              data: {
+                html: data.html,
+                markdown: data.markdown,
+                title: data.title,
+                slug: data.slug,
+                url: data.url,
+                tags: data.tags,
+                domPath: data.domPath,
+              },
+            });
+          } else {
+            sendResponse({ success: false, error: '未找到正文内容' });
+          }
+        })
+        .catch(error => {
+          console.error('[LovpenSider] 自动捕获失败:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        });
+      return true; // 保持消息通道开放
+    } else if (msg.action === 'captureWatchedElement') {
+      // 后台打开的监控页面：等待元素出现后转换为 Markdown
+      waitForSelectors([msg.domPath || '', ...(msg.fallbacks || [])].filter(Boolean), msg.timeout || 15000)
+        .then(async elements => {
+          if (!elements) {
+            sendResponse({ success: false, error: '未找到监控的元素' });
+            return;
+          }
+          await requestMathJaxSources();
+          const data = selector.captureElement(elements[0]);
+          sendResponse({ success: true, data: { markdown: data.markdown, html: data.html } });
+        })
+        .catch(error => {
+          console.error('[LovpenSider] 抓取监控元素失败:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        });
+      return true; // 保持消息通道开放
+    } else if (msg.action === 'extractTable') {
+      // 提取选中元素所在或包含的表格
+      const table = findTableElement(selector.getSelectedElement());
+      if (table) {
+        sendResponse({ success: true, table: extractTable(table, { cleanNumbers: msg.cleanNumbers }) });
+      } else {
+        sendResponse({ success: false, error: '选中的元素中没有表格' });
+      }
+    } else if (msg.action === 'captureAllPages') {
+      // 抓取后续分页并合并为一篇文档
+      requestMathJaxSources()
+        .then(() => selector.captureAllPages(msg.maxPages || 10))
+        .then(data => {
+          if (data) {
+            sendResponse({
+              success: true,
+              data: {
+                html: data.html,
+                markdown: data.markdown,
+                title: data.title,
+                slug: data.slug,
+                url: data.url,
+                tags: data.tags,
+                domPath: data.domPath,
+              },
+              pageCount: data.pageCount,
+            });
+          } else {
+            sendResponse({ success: false, error: '未找到正文内容' });
+          }
+        })
+        .catch(error => {
+          console.error('[LovpenSider] 合并分页失败:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        });
+      return true; // 保持消息通道开放
+    } else if (msg.action === 'setHighlightMode') {
+      if (msg.enabled) {
+        highlightManager.enable();
+      } else {
+        highlightManager.disable();
+      }
+      sendResponse({ success: true, enabled: highlightManager.isEnabled() });
+    } else if (msg.action === 'getHighlightMode') {
+      sendResponse({ success: true, enabled: highlightManager.isEnabled() });
+    } else if (msg.action === 'removeHighlight') {
+      highlightManager.remove(msg.id || '');
+      sendResponse({ success: true });
+    } else if (msg.action === 'updateHighlightNote') {
+      highlightManager.updateNote(msg.id || '', msg.note || '');
+      sendResponse({ success: true });
+    } else if (msg.action === 'focusHighlight') {
+      sendResponse({ success: highlightManager.focus(msg.id || '') });
     } else if (msg.action === 'applyDomPath') {
       try {
-        const element = document.querySelector(msg.domPath || '');
-        if (element) {
-          selector.setSelectedElement(element);
+        // 主路径失效时依次尝试备用选择器
+        const resolved = resolveSelectorWithFallbacks([msg.domPath || '', ...(msg.fallbacks || [])]);
+        // 多选时路径为以逗号分隔的选择器列表
+        const isMulti = !!resolved && resolved.elements.length > 1 && isSelectorList(resolved.selector);
+        const element = resolved
+          ? isMulti
+            ? resolved.elements[resolved.elements.length - 1]
+            : resolved.elements[0]
+          : null;
+        if (resolved && element) {
+          if (resolved.selector !== msg.domPath) {
+            console.log('[LovpenSider] 主路径失效，使用备用选择器:', resolved.selector);
+          }
+          if (isMulti) {
+            selector.setSelectedElements(resolved.elements);
+          } else {
+            selector.setSelectedElement(element);
+          }
           selector.highlightSelectedElement();
-          selector.triggerElementSelected(element);
+          requestMathJaxSources().then(() => selector.restoreSelection(element));
           sendResponse({ success: true });
         } else {
           sendResponse({ success: false, error: '未找到指定元素' });
@@ -209,6 +555,9 @@ chrome.runtime.onMessage.addListener(
       } catch {
         sendResponse({ success: false, error: '无效的DOM路径' });
       }
+    } else if (msg.action === 'getPageMetadata') {
+      // 读取复制格式模板所需的页面信息
+      sendResponse({ success: true, metadata: collectPageMetadata() });
     } else if (msg.action === 'copyToClipboard') {
       // 处理剪贴板复制请求
       if (msg.text) {
@@ -522,6 +871,16 @@ chrome.runtime.onMessage.addListener(
 
 // 初始化悬浮徽章 - 极简版本
 let floatingBadge: FloatingBadgeSimple | null = null;
+// 徽章创建前收到的隐藏请求（如页面跳转后立即执行的自动化规则），创建后补上
+let floatingBadgeHidden = false;
+
+const createFloatingBadge = () => {
+  floatingBadge = new FloatingBadgeSimple();
+  floatingBadge.init();
+  if (floatingBadgeHidden) {
+    floatingBadge.hide();
+  }
+};
 
 async function initializeFloatingBadge() {
   try {
@@ -534,8 +893,7 @@ async function initializeFloatingBadge() {
 
     if (!storageData) {
       // 使用默认配置
-      floatingBadge = new FloatingBadgeSimple();
-      floatingBadge.init();
+      createFloatingBadge();
       return;
     }
 
@@ -560,8 +918,7 @@ async function initializeFloatingBadge() {
     }
 
     // 创建悬浮徽章 - 极简版本
-    floatingBadge = new FloatingBadgeSimple();
-    floatingBadge.init();
+    createFloatingBadge();
 
     console.log('[LovpenSider] 悬浮徽章已初始化');
   } catch (error) {
@@ -588,16 +945,19 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
 // 监听来自 popup 或 sidebar 的消息
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.action === 'toggleFloatingBadge') {
+    floatingBadgeHidden = !floatingBadgeHidden;
     if (floatingBadge) {
       floatingBadge.toggle();
     }
     sendResponse({ success: true });
   } else if (request.action === 'hideFloatingBadge') {
+    floatingBadgeHidden = true;
     if (floatingBadge) {
       floatingBadge.hide();
     }
     sendResponse({ success: true });
   } else if (request.action === 'showFloatingBadge') {
+    floatingBadgeHidden = false;
     if (floatingBadge) {
       floatingBadge.show();
     }
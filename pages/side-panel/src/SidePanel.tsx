@@ -1,9 +1,44 @@
 import '@src/SidePanel.css';
+import { AutomationRulesPanel } from './components/AutomationRulesPanel';
+import { BatchCapturePanel } from './components/BatchCapturePanel';
+import { CaptureLibraryPanel } from './components/CaptureLibraryPanel';
+import { DownloadNamingSettings } from './components/DownloadNamingSettings';
 import { EdgeSnappingPanel } from './components/EdgeSnappingPanel';
 import { FloatingBadgePanel } from './components/FloatingBadgePanel';
+import { FrontmatterTemplatePanel } from './components/FrontmatterTemplatePanel';
+import { HighlightsPanel } from './components/HighlightsPanel';
+import { LinkHandlingPanel } from './components/LinkHandlingPanel';
+import { PageWatchPanel } from './components/PageWatchPanel';
 import { SitePresetsPanel } from './components/SitePresetsPanel';
-import { useStorage, withErrorBoundary, withSuspense, commandProcessor } from '@extension/shared';
+import { StrategyComparePanel } from './components/StrategyComparePanel';
+import { TableExportPanel } from './components/TableExportPanel';
+import { TabListCopyPanel } from './components/TabListCopyPanel';
+import { TurndownRulesPanel } from './components/TurndownRulesPanel';
+import { UrlCleaningPanel } from './components/UrlCleaningPanel';
+import { copyRichText } from './utils/clipboard';
 import {
+  buildExportDocument,
+  downloadExport,
+  downloadMarkdownBundle,
+  extractFrontmatterField,
+} from './utils/markdown-download';
+import {
+  useStorage,
+  withErrorBoundary,
+  withSuspense,
+  commandProcessor,
+  dbManager,
+  EXPORT_FORMATS,
+  stripFrontmatter,
+  renderCopyTemplate,
+  COPY_TEMPLATE_VARIABLES,
+  COPY_TEMPLATE_FILTERS,
+  markdownSnippetToHtml,
+  resolveCleanUrl,
+  saveCaptureToLibrary,
+} from '@extension/shared';
+import {
+  DEFAULT_DOWNLOAD_SETTINGS,
   exampleThemeStorage,
   domPathStorage,
   downloadSettingsStorage,
@@ -11,19 +46,36 @@ import {
   sitePresetsStorage,
   edgeSnappingStorage,
   floatingBadgeStorage,
+  pageWatchStorage,
+  urlCleaningStorage,
 } from '@extension/storage';
 import { cn, ErrorDisplay, LoadingSpinner, Select } from '@extension/ui';
 import { useState, useEffect } from 'react';
-import type { CommandResult } from '@extension/shared';
+import type {
+  CommandResult,
+  DownloadFileContext,
+  ExportFormat,
+  PageMetadata,
+  SmartSelectStrategy,
+  StrategyCandidate,
+  TextProcessingData,
+} from '@extension/shared';
+import type { CopyFormatSettings, DownloadSettings, ShortcutAction, ShortcutBinding } from '@extension/storage';
+
+// 由内容脚本返回的捕获信息生成下载命名所需的上下文
+const getMessageContext = (
+  data: { title?: string; slug?: string; url?: string; tags?: string[] },
+  fallbackUrl: string,
+): DownloadFileContext => ({
+  title: data.title || '',
+  slug: data.slug || '',
+  url: data.url || fallbackUrl,
+  tags: data.tags || [],
+});
 
 // 下载设置面板组件
 const DownloadSettingsPanel = ({ onClose }: { onClose: () => void }) => {
-  const [settings, setSettings] = useState({
-    askForLocation: true,
-    useDefaultPath: false,
-    defaultPath: 'Downloads',
-    lastUsedPath: 'Downloads',
-  });
+  const [settings, setSettings] = useState<DownloadSettings>(DEFAULT_DOWNLOAD_SETTINGS);
 
   useEffect(() => {
     // 加载当前设置
@@ -120,6 +172,9 @@ const DownloadSettingsPanel = ({ onClose }: { onClose: () => void }) => {
           </div>
         )}
 
+        {/* 文件命名与路由 */}
+        <DownloadNamingSettings settings={settings} onChange={updateSetting} />
+
         {/* 下载说明 */}
         {!settings.askForLocation && (
           <div className="bg-background-oat text-text-main mt-2 rounded p-2 text-xs dark:bg-yellow-900/20 dark:text-yellow-300">
@@ -138,6 +193,10 @@ const DownloadSettingsPanel = ({ onClose }: { onClose: () => void }) => {
 const SimpleCaptureModule = () => {
   const [isSelecting, setIsSelecting] = useState(false);
   const [markdownOutput, setMarkdownOutput] = useState('');
+  const [htmlOutput, setHtmlOutput] = useState('');
+  // 捕获时的标题、slug 等信息，用于下载命名，不依赖 frontmatter 的格式和字段名
+  const [captureContext, setCaptureContext] = useState<DownloadFileContext | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
   const [domPath, setDomPath] = useState('');
   const [isEditingPath, setIsEditingPath] = useState(false);
   const [editPathValue, setEditPathValue] = useState('');
@@ -145,8 +204,22 @@ const SimpleCaptureModule = () => {
   const [currentUrl, setCurrentUrl] = useState('');
   const [showDownloadSettings, setShowDownloadSettings] = useState(false);
   const [showPresetsPanel, setShowPresetsPanel] = useState(false);
+  const [showFrontmatterPanel, setShowFrontmatterPanel] = useState(false);
+  const [showRulesPanel, setShowRulesPanel] = useState(false);
+  const [showLinkPanel, setShowLinkPanel] = useState(false);
+  const [showAutomationPanel, setShowAutomationPanel] = useState(false);
+  const [showHighlightsPanel, setShowHighlightsPanel] = useState(false);
+  const [showPageWatchPanel, setShowPageWatchPanel] = useState(false);
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
+  const [hasTable, setHasTable] = useState(false);
+  const [smartSelectStrategy, setSmartSelectStrategy] = useState<SmartSelectStrategy>('heuristic');
+  const [strategyCandidates, setStrategyCandidates] = useState<StrategyCandidate[] | null>(null);
   const [domPathCopied, setDomPathCopied] = useState(false);
   const [markdownCopied, setMarkdownCopied] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const [bundleFeedback, setBundleFeedback] = useState('');
+  const [isStitching, setIsStitching] = useState(false);
+  const [stitchFeedback, setStitchFeedback] = useState('');
 
   // 初始化和URL监听
   useEffect(() => {
@@ -156,11 +229,11 @@ const SimpleCaptureModule = () => {
         if (tab.url) {
           setCurrentUrl(tab.url);
           // 尝试加载已保存的DOM路径
-          const savedPath = await domPathStorage.loadPath(tab.url);
+          const savedPath = await domPathStorage.loadPathData(tab.url);
           if (savedPath) {
-            setDomPath(savedPath);
+            setDomPath(savedPath.path);
             // 如果有保存的路径，自动应用
-            await applyDomPath(savedPath);
+            await applyDomPath(savedPath.path, savedPath.fallbacks);
           }
         }
       } catch (error) {
@@ -176,12 +249,12 @@ const SimpleCaptureModule = () => {
         setCurrentUrl(changeInfo.url);
         // 当URL变化时，加载新的DOM路径
         try {
-          const savedPath = await domPathStorage.loadPath(changeInfo.url);
+          const savedPath = await domPathStorage.loadPathData(changeInfo.url);
           if (savedPath) {
-            setDomPath(savedPath);
+            setDomPath(savedPath.path);
             // 等待页面加载完成后再应用DOM路径
             setTimeout(async () => {
-              await applyDomPath(savedPath);
+              await applyDomPath(savedPath.path, savedPath.fallbacks);
             }, 1000); // 给页面一些时间加载
           } else {
             setDomPath('');
@@ -201,12 +274,12 @@ const SimpleCaptureModule = () => {
         const tab = await chrome.tabs.get(activeInfo.tabId);
         if (tab.url) {
           setCurrentUrl(tab.url);
-          const savedPath = await domPathStorage.loadPath(tab.url);
+          const savedPath = await domPathStorage.loadPathData(tab.url);
           if (savedPath) {
-            setDomPath(savedPath);
+            setDomPath(savedPath.path);
             // 延迟应用，确保content script已加载
             setTimeout(async () => {
-              await applyDomPath(savedPath);
+              await applyDomPath(savedPath.path, savedPath.fallbacks);
             }, 500);
           } else {
             setDomPath('');
@@ -229,21 +302,52 @@ const SimpleCaptureModule = () => {
 
   useEffect(() => {
     // 监听来自内容脚本的消息
-    const messageListener = (request: unknown, _sender: unknown, sendResponse: (response?: unknown) => void) => {
+    const messageListener = (
+      request: unknown,
+      sender: chrome.runtime.MessageSender,
+      sendResponse: (response?: unknown) => void,
+    ) => {
       if (!request || typeof request !== 'object') return;
 
-      const msg = request as { action?: string; markdown?: string; domPath?: string };
+      const msg = request as {
+        action?: string;
+        html?: string;
+        markdown?: string;
+        title?: string;
+        slug?: string;
+        url?: string;
+        tags?: string[];
+        domPath?: string;
+        fallbackPaths?: string[];
+        hasTable?: boolean;
+        restored?: boolean;
+      };
       if (msg.action === 'elementSelected') {
         const newPath = msg.domPath || '';
         const newMarkdown = msg.markdown || '';
 
         setMarkdownOutput(newMarkdown);
+        setHtmlOutput(msg.html || '');
+        setCaptureContext(getMessageContext(msg, sender.tab?.url || currentUrl));
         setDomPath(newPath);
+        setHasTable(!!msg.hasTable);
         setIsSelecting(false);
 
         // 保存DOM路径
         if (newPath && currentUrl) {
-          domPathStorage.savePath(currentUrl, newPath);
+          domPathStorage.savePath(currentUrl, newPath, msg.fallbackPaths);
+        }
+
+        // 用户选择时保存到资料库；自动应用已保存的DOM路径时不保存
+        if (!msg.restored && newMarkdown) {
+          saveCaptureToLibrary({
+            url: sender.tab?.url || currentUrl,
+            html: msg.html || '',
+            markdown: newMarkdown,
+            title: msg.title,
+            slug: msg.slug || '',
+            tags: msg.tags,
+          }).catch(error => console.error('保存到资料库失败:', error));
         }
 
         sendResponse({ success: true });
@@ -252,11 +356,14 @@ const SimpleCaptureModule = () => {
         const newMarkdown = msg.markdown || '';
 
         setMarkdownOutput(newMarkdown);
+        setHtmlOutput(msg.html || '');
+        setCaptureContext(getMessageContext(msg, sender.tab?.url || currentUrl));
         setDomPath(newPath);
+        setHasTable(!!msg.hasTable);
 
         // 保存DOM路径
         if (newPath && currentUrl) {
-          domPathStorage.savePath(currentUrl, newPath);
+          domPathStorage.savePath(currentUrl, newPath, msg.fallbackPaths);
         }
 
         sendResponse({ success: true });
@@ -314,159 +421,160 @@ const SimpleCaptureModule = () => {
     }
   };
 
-  const smartSelect = async () => {
+  const smartSelect = async (strategy: SmartSelectStrategy = smartSelectStrategy) => {
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      await chrome.tabs.sendMessage(tab.id!, { action: 'smartSelect' });
+      await chrome.tabs.sendMessage(tab.id!, { action: 'smartSelect', strategy });
       setIsSelecting(false);
     } catch (error) {
       console.error('智能选择失败:', error);
     }
   };
 
-  const copyToClipboard = async () => {
-    if (!markdownOutput) return;
+  // 对比两种智能选择策略的结果
+  const compareStrategies = async () => {
+    if (strategyCandidates) {
+      setStrategyCandidates(null);
+      return;
+    }
 
     try {
-      await navigator.clipboard.writeText(markdownOutput);
-      setMarkdownCopied(true);
-      setTimeout(() => setMarkdownCopied(false), 2000);
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const response = await chrome.tabs.sendMessage(tab.id!, { action: 'compareStrategies' });
+      if (response?.success) {
+        setStrategyCandidates(response.candidates);
+      }
     } catch (error) {
-      console.error('复制失败:', error);
+      console.error('对比智能选择策略失败:', error);
     }
   };
 
-  const downloadMarkdown = async () => {
-    if (!markdownOutput) return;
+  // 抓取后续分页，与当前内容合并为一篇文档
+  const captureAllPages = async () => {
+    setIsStitching(true);
+    setStitchFeedback('');
 
     try {
-      // 从 markdown 内容中提取 slug
-      const slug = extractSlugFromMarkdown(markdownOutput);
-      const filename = `${slug}.md`;
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const response = await chrome.tabs.sendMessage(tab.id!, { action: 'captureAllPages' });
+      if (!response?.success) {
+        setStitchFeedback(response?.error || '合并分页失败');
+        return;
+      }
 
-      // 获取下载设置
-      const settings = await downloadSettingsStorage.getSettings();
+      const { html, markdown, title, slug, tags, domPath: newPath } = response.data;
+      setMarkdownOutput(markdown);
+      setHtmlOutput(html);
+      setCaptureContext(getMessageContext(response.data, tab.url || currentUrl));
+      setDomPath(newPath);
+      setIsSelecting(false);
+      setStitchFeedback(response.pageCount > 1 ? `已合并 ${response.pageCount} 页` : '未找到下一页');
 
-      // 统一使用 Chrome downloads API
-      await downloadWithChromeAPI(filename, settings);
+      await saveCaptureToLibrary({ url: tab.url || currentUrl, html, markdown, title, slug, tags }).catch(error =>
+        console.error('保存到资料库失败:', error),
+      );
     } catch (error) {
-      console.error('下载失败:', error);
-      // 最终回退方案
-      fallbackDownload();
+      console.error('合并分页失败:', error);
+      setStitchFeedback('合并分页失败');
+    } finally {
+      setIsStitching(false);
     }
   };
 
-  const downloadWithChromeAPI = async (filename: string, settings: any) => {
-    // 创建数据URL
-    const dataUrl = `data:text/markdown;charset=utf-8,${encodeURIComponent(markdownOutput)}`;
-
-    // 根据设置决定下载行为
-    const downloadOptions: chrome.downloads.DownloadOptions = {
-      url: dataUrl,
-      filename: filename,
-    };
+  // 监控当前选中的元素，以当前内容作为初始快照
+  const watchCurrentElement = async () => {
+    if (!domPath || !currentUrl) return;
 
-    // 严格根据用户设置决定是否显示保存对话框
-    if (settings.askForLocation) {
-      downloadOptions.saveAs = true;
-    } else {
-      // 用户明确不想询问位置，强制不显示对话框
-      downloadOptions.saveAs = false;
-
-      if (settings.useDefaultPath && settings.defaultPath) {
-        // 使用默认路径（相对于Downloads）
-        downloadOptions.filename = `${settings.defaultPath}/${filename}`;
-      } else {
-        // 直接下载到Downloads文件夹
-        downloadOptions.filename = filename;
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const savedPath = await domPathStorage.loadPathData(currentUrl);
+      const fallbacks = savedPath?.path === domPath ? savedPath.fallbacks : [];
+      const response = await chrome.tabs.sendMessage(tab.id!, {
+        action: 'captureWatchedElement',
+        domPath,
+        fallbacks,
+        timeout: 3000,
+      });
+      if (!response?.success) {
+        console.error('获取监控元素内容失败:', response?.error);
+        return;
       }
-    }
 
-    // 使用 Chrome downloads API
-    const downloadId = await chrome.downloads.download(downloadOptions);
-
-    // 监听下载完成事件以更新最后使用的路径
-    const onDownloadChanged = (delta: chrome.downloads.DownloadDelta) => {
-      if (delta.id === downloadId && delta.state?.current === 'complete') {
-        chrome.downloads.search({ id: downloadId }, async results => {
-          if (results.length > 0) {
-            const downloadedFile = results[0];
-            if (downloadedFile.filename) {
-              // 提取目录路径
-              const pathParts = downloadedFile.filename.split(/[/\\]/);
-              pathParts.pop(); // 移除文件名
-              const directoryPath = pathParts.join('/') || 'Downloads';
-
-              if (directoryPath && directoryPath !== 'Downloads') {
-                await downloadSettingsStorage.setLastUsedPath(directoryPath);
-              }
-            }
-          }
-        });
-
-        // 移除监听器
-        chrome.downloads.onChanged.removeListener(onDownloadChanged);
-      }
-    };
+      await pageWatchStorage.addWatch({
+        url: currentUrl,
+        title: extractFrontmatterField(response.data.markdown, 'title') || tab.title || currentUrl,
+        domPath,
+        fallbacks,
+        intervalMinutes: 60,
+        enabled: true,
+        snapshot: stripFrontmatter(response.data.markdown).trim(),
+        lastCheckedAt: Date.now(),
+      });
+      setShowPageWatchPanel(true);
+    } catch (error) {
+      console.error('添加页面监控失败:', error);
+    }
+  };
 
-    chrome.downloads.onChanged.addListener(onDownloadChanged);
+  const applyStrategy = async (strategy: SmartSelectStrategy) => {
+    setSmartSelectStrategy(strategy);
+    setStrategyCandidates(null);
+    await smartSelect(strategy);
   };
 
-  const fallbackDownload = () => {
+  const copyToClipboard = async () => {
     if (!markdownOutput) return;
 
     try {
-      const slug = extractSlugFromMarkdown(markdownOutput);
-      const filename = `${slug}.md`;
-
-      const blob = new Blob([markdownOutput], { type: 'text/markdown;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-
-      document.body.appendChild(a);
-      a.click();
-
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await copyRichText(markdownOutput, htmlOutput);
+      setMarkdownCopied(true);
+      setTimeout(() => setMarkdownCopied(false), 2000);
     } catch (error) {
-      console.error('回退下载失败:', error);
+      console.error('复制失败:', error);
     }
   };
 
-  const extractSlugFromMarkdown = (markdown: string): string => {
-    try {
-      // 匹配 frontmatter 中的 slug
-      const frontmatterMatch = markdown.match(/^---\n([\s\S]*?)\n---/);
-      if (frontmatterMatch) {
-        const frontmatter = frontmatterMatch[1];
-        const slugMatch = frontmatter.match(/^slug:\s*(.+)$/m);
-        if (slugMatch && slugMatch[1]) {
-          return slugMatch[1].trim();
-        }
-      }
+  const handleDownload = async () => {
+    if (!markdownOutput) return;
+    const context = captureContext || getMessageContext({}, currentUrl);
+    await downloadExport(buildExportDocument(markdownOutput, htmlOutput, context), context, exportFormat);
+  };
+
+  // 打包下载：本地化图片后生成 zip
+  const handleBundleDownload = async () => {
+    if (!markdownOutput || isBundling) return;
 
-      // 如果没有找到 slug，使用时间戳作为默认值
-      const timestamp = new Date().getTime();
-      return `content-${timestamp}`;
+    setIsBundling(true);
+    setBundleFeedback('正在下载图片...');
+    try {
+      const { total, failed } = await downloadMarkdownBundle(
+        markdownOutput,
+        captureContext || getMessageContext({}, currentUrl),
+      );
+      setBundleFeedback(
+        failed > 0 ? `⚠️ 已打包，${failed}/${total} 张图片下载失败，保留原链接` : `✅ 已打包 ${total} 张图片`,
+      );
     } catch (error) {
-      console.error('提取 slug 失败:', error);
-      const timestamp = new Date().getTime();
-      return `content-${timestamp}`;
+      console.error('打包下载失败:', error);
+      setBundleFeedback('❌ 打包失败');
+    } finally {
+      setIsBundling(false);
+      setTimeout(() => setBundleFeedback(''), 3000);
     }
   };
 
   const clearContent = () => {
     setMarkdownOutput('');
+    setHtmlOutput('');
     setDomPath('');
+    setHasTable(false);
   };
 
   const copyDomPath = async () => {
     if (!domPath) return;
 
     try {
-      await navigator.clipboard.writeText(domPath);
+      await copyRichText(domPath);
       setDomPathCopied(true);
       setTimeout(() => setDomPathCopied(false), 2000);
     } catch (error) {
@@ -475,7 +583,7 @@ const SimpleCaptureModule = () => {
   };
 
   // 应用DOM路径到页面
-  const applyDomPath = async (path: string, retryCount = 0) => {
+  const applyDomPath = async (path: string, fallbacks: string[] = [], retryCount = 0) => {
     if (!path) return;
 
     try {
@@ -485,7 +593,7 @@ const SimpleCaptureModule = () => {
         return;
       }
 
-      const response = await chrome.tabs.sendMessage(tab.id, { action: 'applyDomPath', domPath: path });
+      const response = await chrome.tabs.sendMessage(tab.id, { action: 'applyDomPath', domPath: path, fallbacks });
 
       if (!response || !response.success) {
         console.error('应用DOM路径失败:', response?.error || '未知错误');
@@ -497,7 +605,7 @@ const SimpleCaptureModule = () => {
       // 网络错误或content script未准备好时，最多重试2次
       if (retryCount < 2) {
         setTimeout(() => {
-          applyDomPath(path, retryCount + 1);
+          applyDomPath(path, fallbacks, retryCount + 1);
         }, 2000);
       } else {
         console.error('重试次数已达上限，停止尝试应用DOM路径');
@@ -561,7 +669,7 @@ const SimpleCaptureModule = () => {
       <h2 className="theme-text-main mb-4 text-lg font-semibold">页面捕获</h2>
 
       <div className="mb-4">
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           {!isSelecting ? (
             <button
               onClick={startSelection}
@@ -576,7 +684,7 @@ const SimpleCaptureModule = () => {
             </button>
           )}
           <button
-            onClick={smartSelect}
+            onClick={() => smartSelect()}
             className="bg-swatch-cactus hover:bg-swatch-olive theme-btn-cactus flex-1 rounded px-3 py-2 text-sm text-white">
             🤖 智能选择
           </button>
@@ -586,12 +694,115 @@ const SimpleCaptureModule = () => {
             title="预设配置">
             ⚙️
           </button>
+          <button
+            onClick={() => setShowFrontmatterPanel(!showFrontmatterPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="Frontmatter模板">
+            🏷️
+          </button>
+          <button
+            onClick={() => setShowRulesPanel(!showRulesPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="站点转换规则">
+            🧩
+          </button>
+          <button
+            onClick={() => setShowLinkPanel(!showLinkPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="链接处理">
+            🔗
+          </button>
+          <button
+            onClick={() => setShowAutomationPanel(!showAutomationPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="自动化规则">
+            🤖
+          </button>
+          <button
+            onClick={() => setShowHighlightsPanel(!showHighlightsPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="网页高亮">
+            🖍️
+          </button>
+          <button
+            onClick={() => setShowPageWatchPanel(!showPageWatchPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="页面监控">
+            📡
+          </button>
+          <button
+            onClick={() => setShowBatchPanel(!showBatchPanel)}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded p-2 text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            title="批量捕获标签页">
+            🗂️
+          </button>
         </div>
       </div>
 
+      {/* 智能选择策略 */}
+      <div className="mb-4 flex items-center gap-2">
+        <span className="text-text-faded text-xs dark:text-gray-400">智能选择策略</span>
+        <select
+          value={smartSelectStrategy}
+          onChange={e => setSmartSelectStrategy(e.target.value as SmartSelectStrategy)}
+          className="border-border-default dark:bg-background-dark flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600">
+          <option value="heuristic">内容评分（含网站预设）</option>
+          <option value="readability">Readability 正文提取</option>
+        </select>
+        <button
+          onClick={compareStrategies}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          title="对比两种策略">
+          ⚖️ 对比
+        </button>
+        <button
+          onClick={captureAllPages}
+          disabled={isStitching}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded px-2 py-1 text-xs disabled:opacity-50 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          title="抓取后续分页并合并为一篇文档">
+          {isStitching ? '⏳ 抓取中' : '📚 合并分页'}
+        </button>
+      </div>
+      {stitchFeedback && <div className="text-text-faded -mt-3 mb-4 text-xs dark:text-gray-400">{stitchFeedback}</div>}
+
+      {/* 策略对比 */}
+      {strategyCandidates && (
+        <StrategyComparePanel
+          candidates={strategyCandidates}
+          onUse={applyStrategy}
+          onClose={() => setStrategyCandidates(null)}
+        />
+      )}
+
       {/* 预设配置面板 */}
       {showPresetsPanel && <SitePresetsPanel onClose={() => setShowPresetsPanel(false)} />}
 
+      {/* Frontmatter模板面板 */}
+      {showFrontmatterPanel && <FrontmatterTemplatePanel onClose={() => setShowFrontmatterPanel(false)} />}
+
+      {/* 站点转换规则面板 */}
+      {showRulesPanel && <TurndownRulesPanel onClose={() => setShowRulesPanel(false)} />}
+
+      {/* 链接处理面板 */}
+      {showLinkPanel && <LinkHandlingPanel onClose={() => setShowLinkPanel(false)} />}
+
+      {/* 自动化规则面板 */}
+      {showAutomationPanel && (
+        <AutomationRulesPanel currentUrl={currentUrl} onClose={() => setShowAutomationPanel(false)} />
+      )}
+
+      {/* 网页高亮面板 */}
+      {showHighlightsPanel && <HighlightsPanel currentUrl={currentUrl} onClose={() => setShowHighlightsPanel(false)} />}
+
+      {/* 页面监控面板 */}
+      {showPageWatchPanel && <PageWatchPanel onClose={() => setShowPageWatchPanel(false)} />}
+
+      {/* 批量捕获面板 */}
+      {showBatchPanel && <BatchCapturePanel onClose={() => setShowBatchPanel(false)} />}
+
+      {/* 表格导出 */}
+      {hasTable && <TableExportPanel />}
+
       {/* DOM路径显示 */}
       {domPath && (
         <div className="border-border-default mb-4 overflow-hidden rounded border p-3 dark:border-gray-600">
@@ -614,6 +825,12 @@ const SimpleCaptureModule = () => {
                 title="编辑路径">
                 ✏️
               </button>
+              <button
+                onClick={watchCurrentElement}
+                className="bg-background-ivory-medium text-text-main hover:bg-swatch-cloud-light rounded p-1.5 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                title="监控此元素的变化">
+                👁️
+              </button>
             </div>
           </div>
 
@@ -654,12 +871,30 @@ const SimpleCaptureModule = () => {
             <div className="mb-2 flex items-start justify-between">
               <h3 className="text-sm font-medium">Markdown内容</h3>
               <div className="flex flex-shrink-0 gap-1">
+                <select
+                  value={exportFormat}
+                  onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                  className="border-border-default dark:bg-background-dark rounded border px-1 text-xs dark:border-gray-600"
+                  title="导出格式">
+                  {EXPORT_FORMATS.map(format => (
+                    <option key={format.id} value={format.id}>
+                      {format.name}
+                    </option>
+                  ))}
+                </select>
                 <button
-                  onClick={downloadMarkdown}
+                  onClick={handleDownload}
                   className="bg-swatch-cactus/20 text-swatch-cactus hover:bg-swatch-cactus/30 rounded p-1.5 dark:bg-green-900 dark:text-green-300 dark:hover:bg-green-800"
                   title="下载">
                   📥
                 </button>
+                <button
+                  onClick={handleBundleDownload}
+                  disabled={isBundling}
+                  className="bg-swatch-cactus/20 text-swatch-cactus hover:bg-swatch-cactus/30 rounded p-1.5 disabled:opacity-50 dark:bg-green-900 dark:text-green-300 dark:hover:bg-green-800"
+                  title="打包下载（含图片）">
+                  {isBundling ? '⏳' : '📦'}
+                </button>
                 <button
                   onClick={() => setShowDownloadSettings(!showDownloadSettings)}
                   className="text-background-clay rounded bg-blue-100 p-1.5 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-300 dark:hover:bg-blue-800"
@@ -685,6 +920,8 @@ const SimpleCaptureModule = () => {
               </div>
             </div>
 
+            {bundleFeedback && <div className="text-text-faded mb-2 text-xs dark:text-gray-400">{bundleFeedback}</div>}
+
             {/* 下载设置面板 */}
             {showDownloadSettings && <DownloadSettingsPanel onClose={() => setShowDownloadSettings(false)} />}
 
@@ -739,6 +976,26 @@ const SimpleTextModule = () => {
         result = inputText;
     }
     setOutputText(result);
+
+    if (selectedTool === 'format' || selectedTool === 'case') {
+      saveHistory(selectedTool, inputText, result);
+    }
+  };
+
+  // 保存处理记录，供资料库检索
+  const saveHistory = async (type: TextProcessingData['type'], input: string, output: string) => {
+    try {
+      await dbManager.initialize();
+      await dbManager.saveTextProcessing({
+        type,
+        input,
+        output,
+        timestamp: Date.now(),
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('保存处理记录失败:', error);
+    }
   };
 
   return (
@@ -808,21 +1065,29 @@ const SimpleTextModule = () => {
   );
 };
 
+// 快捷键槽位可绑定的动作
+const SHORTCUT_ACTION_LABELS: Record<ShortcutAction, string> = {
+  'smart-capture': '📥 捕获正文到资料库',
+  'toggle-badge': '🎯 显示/隐藏悬浮徽章',
+  'start-selection': '🖱️ 开始选择元素',
+  'copy-tab-list': '📑 复制标签页列表',
+};
+
 // 复制标题模块
 const CopyTitleModule = () => {
   const [currentTitle, setCurrentTitle] = useState('');
   const [currentUrl, setCurrentUrl] = useState('');
   const [copyFeedback, setCopyFeedback] = useState('');
+  const [pageMetadata, setPageMetadata] = useState<Partial<PageMetadata>>({});
   const [customFormat, setCustomFormat] = useState('{title} - {url}');
+  const [savedFormats, setSavedFormats] = useState<CopyFormatSettings['savedFormats']>([]);
   const [selectedFormat, setSelectedFormat] = useState('markdown');
   const [showCustomFormat, setShowCustomFormat] = useState(false);
-  const [shortcuts, setShortcuts] = useState<{
-    [key: string]: {
-      enabled: boolean;
-      command: string;
-      description: string;
-    };
-  }>({});
+  const [showTabListPanel, setShowTabListPanel] = useState(false);
+  const [showUrlCleaningPanel, setShowUrlCleaningPanel] = useState(false);
+  const { settings: urlCleaning } = useStorage(urlCleaningStorage);
+  const [shortcuts, setShortcuts] = useState<CopyFormatSettings['shortcuts']>({});
+  const [commandKeys, setCommandKeys] = useState<Record<string, string>>({});
 
   // 预设格式配置
   const formats = [
@@ -830,9 +1095,24 @@ const CopyTitleModule = () => {
     { id: 'title', name: '纯标题', icon: '📝', template: '{title}' },
     { id: 'title_url', name: '标题, 网址', icon: '📋', template: '{title}, {url}' },
     { id: 'markdown', name: 'Markdown', icon: '📄', template: '[{title}]({url})' },
+    ...savedFormats,
     { id: 'custom', name: '自定义', icon: '⚙️', template: customFormat },
   ];
 
+  // 读取当前页面的选中文本和 meta 信息，内容脚本不可用时返回空
+  const loadPageMetadata = async (): Promise<Partial<PageMetadata>> => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const response = tab.id ? await chrome.tabs.sendMessage(tab.id, { action: 'getPageMetadata' }) : null;
+      const metadata = response?.success ? response.metadata : {};
+      setPageMetadata(metadata);
+      return metadata;
+    } catch {
+      setPageMetadata({});
+      return {};
+    }
+  };
+
   // 初始化和监听当前标签页
   useEffect(() => {
     const getCurrentTabInfo = async () => {
@@ -851,17 +1131,28 @@ const CopyTitleModule = () => {
       try {
         const settings = await copyFormatStorage.getSettings();
         setCustomFormat(settings.customFormat || '{title} - {url}');
+        setSavedFormats(settings.savedFormats || []);
         setSelectedFormat(settings.selectedFormat || 'markdown');
-        if (settings.shortcuts) {
-          setShortcuts(settings.shortcuts);
-        }
+        setShortcuts(await copyFormatStorage.getShortcuts());
       } catch (error) {
         console.error('加载复制格式设置失败:', error);
       }
     };
 
+    // 读取各命令当前绑定的按键
+    const loadCommandKeys = async () => {
+      try {
+        const commands = await chrome.commands.getAll();
+        setCommandKeys(Object.fromEntries(commands.map(command => [command.name || '', command.shortcut || ''])));
+      } catch (error) {
+        console.error('获取快捷键失败:', error);
+      }
+    };
+
     getCurrentTabInfo();
     loadCopyFormatSettings();
+    loadPageMetadata();
+    loadCommandKeys();
 
     // 监听标签页变化
     const tabUpdateListener = async (tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
@@ -869,6 +1160,9 @@ const CopyTitleModule = () => {
         if (changeInfo.title) setCurrentTitle(changeInfo.title);
         if (changeInfo.url) setCurrentUrl(changeInfo.url);
       }
+      if (tab.active && changeInfo.status === 'complete') {
+        loadPageMetadata();
+      }
     };
 
     const tabActivatedListener = async (activeInfo: chrome.tabs.TabActiveInfo) => {
@@ -878,23 +1172,33 @@ const CopyTitleModule = () => {
           setCurrentTitle(tab.title);
           setCurrentUrl(tab.url);
         }
+        loadPageMetadata();
       } catch (error) {
         console.error('获取激活标签页信息失败:', error);
       }
     };
 
+    // 从页面回到侧边栏时刷新选中文本
+    const focusListener = () => {
+      loadPageMetadata();
+    };
+
     chrome.tabs.onUpdated.addListener(tabUpdateListener);
     chrome.tabs.onActivated.addListener(tabActivatedListener);
+    window.addEventListener('focus', focusListener);
 
     return () => {
       chrome.tabs.onUpdated.removeListener(tabUpdateListener);
       chrome.tabs.onActivated.removeListener(tabActivatedListener);
+      window.removeEventListener('focus', focusListener);
     };
   }, []);
 
   // 生成格式化文本
-  const generateFormattedText = (template: string) =>
-    template.replace(/{title}/g, currentTitle).replace(/{url}/g, currentUrl);
+  const generateFormattedText = (template: string, metadata: Partial<PageMetadata> = pageMetadata) => {
+    const url = urlCleaning.enabled ? resolveCleanUrl(currentUrl, urlCleaning, metadata.canonical) : currentUrl;
+    return renderCopyTemplate(template, { title: currentTitle, ...metadata, url });
+  };
 
   // 复制选中格式
   const copySelectedFormat = async () => {
@@ -902,10 +1206,10 @@ const CopyTitleModule = () => {
     if (!format) return;
 
     const template = selectedFormat === 'custom' ? customFormat : format.template;
-    const text = generateFormattedText(template);
+    const text = generateFormattedText(template, await loadPageMetadata());
 
     try {
-      await navigator.clipboard.writeText(text);
+      await copyRichText(text, markdownSnippetToHtml(text));
       setCopyFeedback(`✅ 已复制：${format.name}`);
 
       // 将格式添加到历史记录
@@ -970,15 +1274,30 @@ const CopyTitleModule = () => {
     }
   };
 
-  // 获取快捷键显示文本
-  const getShortcutText = (command: string) => {
-    const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
-    const shortcutMap: { [key: string]: { mac: string; windows: string } } = {
-      'copy-title-selected': { mac: '⌘⇧K', windows: 'Ctrl+Shift+K' },
-    };
-    return isMac ? shortcutMap[command]?.mac : shortcutMap[command]?.windows;
+  // 设置快捷键槽位绑定的格式或动作，选项值为 format:<id> 或 action:<动作>
+  const handleBindingChange = async (command: string, value: string) => {
+    const separator = value.indexOf(':');
+    const type = value.slice(0, separator);
+    const target = value.slice(separator + 1);
+    const binding: ShortcutBinding =
+      type === 'action' ? { type: 'action', action: target as ShortcutAction } : { type: 'format', formatId: target };
+
+    try {
+      await copyFormatStorage.setShortcutBinding(command, binding);
+      setShortcuts(prev => ({ ...prev, [command]: { ...prev[command], binding } }));
+    } catch (error) {
+      console.error('设置快捷键绑定失败:', error);
+      setCopyFeedback('❌ 操作失败');
+      setTimeout(() => setCopyFeedback(''), 2000);
+    }
   };
 
+  // 快捷键绑定的可选项：所有复制格式和动作
+  const bindingOptions = [
+    ...formats.map(format => ({ value: `format:${format.id}`, label: `${format.icon} ${format.name}` })),
+    ...Object.entries(SHORTCUT_ACTION_LABELS).map(([action, label]) => ({ value: `action:${action}`, label })),
+  ];
+
   return (
     <div className="flex h-full flex-col p-4">
       <h2 className="theme-text-main mb-4 text-lg font-semibold">复制标题</h2>
@@ -1041,14 +1360,39 @@ const CopyTitleModule = () => {
         </div>
       </div>
 
+      {/* 复制标签页列表 */}
+      <div className="mb-4">
+        <button
+          onClick={() => setShowTabListPanel(!showTabListPanel)}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main mb-2 w-full rounded px-3 py-2 text-left text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+          <span className="mr-2">📑</span>
+          复制标签页列表
+        </button>
+        {showTabListPanel && <TabListCopyPanel onClose={() => setShowTabListPanel(false)} />}
+      </div>
+
+      {/* 网址清理 */}
+      <div className="mb-4">
+        <button
+          onClick={() => setShowUrlCleaningPanel(!showUrlCleaningPanel)}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main mb-2 w-full rounded px-3 py-2 text-left text-sm dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+          <span className="mr-2">🧹</span>
+          网址清理
+        </button>
+        {showUrlCleaningPanel && (
+          <UrlCleaningPanel currentUrl={currentUrl} onClose={() => setShowUrlCleaningPanel(false)} />
+        )}
+      </div>
+
       {/* 快捷键说明 */}
       <div className="mb-4">
         <div className="bg-background-oat rounded p-3 text-sm text-blue-800 dark:bg-blue-900/20 dark:text-blue-300">
           <div className="mb-1 font-medium">💡 使用说明</div>
           <div>
             • 使用上方下拉菜单选择复制格式
+            <br />• 按 {commandKeys['copy-title-selected'] || '⌘⇧K'} 快捷键复制选中格式
             <br />
-            • 按 ⌘⇧K 快捷键复制选中格式
+            • 其余快捷键槽位可绑定任一格式或动作，默认未分配按键
             <br />• 如需修改快捷键，
             <button
               onClick={() => chrome.tabs.create({ url: 'chrome://extensions/configureCommands' })}
@@ -1059,28 +1403,49 @@ const CopyTitleModule = () => {
         </div>
       </div>
 
-      {/* 快捷键开关 */}
-      {Object.entries(shortcuts || {}).map(([command, config]) => (
-        <div
-          key={command}
-          className="border-border-default mb-4 flex items-center justify-between rounded border p-3 dark:border-gray-600">
-          <div className="flex items-center space-x-2">
-            <span className="text-sm">{config.description}</span>
-            <span className="text-primary rounded bg-blue-100 px-2 py-1 text-xs dark:bg-blue-900/20 dark:text-blue-400">
-              {getShortcutText(command)}
-            </span>
+      {/* 快捷键开关和绑定 */}
+      <div className="mb-4 space-y-2">
+        {Object.entries(shortcuts || {}).map(([command, config]) => (
+          <div
+            key={command}
+            className="border-border-default flex items-center justify-between gap-2 rounded border p-2 dark:border-gray-600">
+            <div className="flex min-w-0 flex-1 items-center gap-2">
+              <span
+                className={cn(
+                  'flex-shrink-0 rounded px-2 py-1 text-xs',
+                  commandKeys[command]
+                    ? 'text-primary bg-blue-100 dark:bg-blue-900/20 dark:text-blue-400'
+                    : 'text-text-faded bg-background-ivory-medium dark:bg-gray-700 dark:text-gray-400',
+                )}>
+                {commandKeys[command] || '未设置'}
+              </span>
+              {config.binding ? (
+                <select
+                  value={`${config.binding.type}:${config.binding.type === 'action' ? config.binding.action : config.binding.formatId}`}
+                  onChange={e => handleBindingChange(command, e.target.value)}
+                  className="border-border-default dark:bg-background-dark min-w-0 flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600">
+                  {bindingOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="truncate text-sm">复制选中格式</span>
+              )}
+            </div>
+            <label className="flex flex-shrink-0 cursor-pointer items-center">
+              <input
+                type="checkbox"
+                checked={config.enabled}
+                onChange={e => toggleShortcut(command, e.target.checked)}
+                className="mr-2"
+              />
+              <span className="text-text-faded text-xs dark:text-gray-400">启用</span>
+            </label>
           </div>
-          <label className="flex cursor-pointer items-center">
-            <input
-              type="checkbox"
-              checked={config.enabled}
-              onChange={e => toggleShortcut(command, e.target.checked)}
-              className="mr-2"
-            />
-            <span className="text-text-faded text-xs dark:text-gray-400">启用</span>
-          </label>
-        </div>
-      ))}
+        ))}
+      </div>
 
       {/* 自定义格式设置 */}
       <div className="mb-4">
@@ -1097,7 +1462,7 @@ const CopyTitleModule = () => {
             <textarea
               value={customFormat}
               onChange={e => setCustomFormat(e.target.value)}
-              placeholder="输入自定义格式，使用 {title} 和 {url} 作为占位符"
+              placeholder="输入自定义格式，例如 [{title|escape_md}]({url}){#if selection} - {selection}{/if}"
               className="border-border-default dark:bg-background-dark w-full rounded border p-2 text-sm dark:border-gray-600"
               rows={3}
             />
@@ -1106,12 +1471,32 @@ const CopyTitleModule = () => {
               className="bg-swatch-cactus hover:bg-swatch-olive theme-btn-cactus w-full rounded px-3 py-1 text-sm text-white">
               💾 保存格式
             </button>
+            <div className="bg-background-ivory-medium dark:bg-background-dark rounded p-2">
+              <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">预览</label>
+              <p className="text-text-main whitespace-pre-wrap break-all text-sm dark:text-gray-300">
+                {previewText(customFormat)}
+              </p>
+            </div>
             <div className="text-text-faded text-xs">
               <p>
-                <strong>可用占位符:</strong>
+                <strong>可用变量:</strong>
+              </p>
+              {COPY_TEMPLATE_VARIABLES.map(variable => (
+                <p key={variable.name}>
+                  • {variable.name} - {variable.description}
+                </p>
+              ))}
+              <p className="mt-1">
+                <strong>过滤器:</strong>（可连用，如 {'{title|slug|truncate:40}'}）
+              </p>
+              {COPY_TEMPLATE_FILTERS.map(filter => (
+                <p key={filter.name}>
+                  • {filter.name} - {filter.description}
+                </p>
+              ))}
+              <p className="mt-1">
+                <strong>条件:</strong> {'{#if selection}...{else}...{/if}'}，{'{#if !变量}'} 表示为空时
               </p>
-              <p>• {'{title}'} - 页面标题</p>
-              <p>• {'{url}'} - 页面网址</p>
             </div>
           </div>
         )}
@@ -1569,11 +1954,13 @@ const SidePanel = () => {
         {activeTab === 'text' && <SimpleTextModule />}
         {activeTab === 'dev' && <DeveloperModule />}
         {activeTab === 'tools' && <ToolsModule />}
+        {activeTab === 'profile' && <CaptureLibraryPanel />}
         {activeTab !== 'capture' &&
           activeTab !== 'copy' &&
           activeTab !== 'text' &&
           activeTab !== 'dev' &&
-          activeTab !== 'tools' && (
+          activeTab !== 'tools' &&
+          activeTab !== 'profile' && (
             <div className="p-4 text-center">
               <div className="mb-4 text-4xl">🚧</div>
               <h3 className="mb-2 text-lg font-medium">{tabs.find(t => t.id === activeTab)?.name}</h3>
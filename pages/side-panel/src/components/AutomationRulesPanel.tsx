@@ -0,0 +1,397 @@
+import { isValidUrlPattern, matchesUrlPattern } from '@extension/shared';
+import { automationRulesStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { AutomationActionType, AutomationRule, AutomationTriggerType } from '@extension/storage';
+
+interface AutomationRulesPanelProps {
+  currentUrl: string;
+  onClose: () => void;
+}
+
+interface RuleDraft {
+  name: string;
+  triggerType: AutomationTriggerType;
+  pattern: string;
+  waitForSelector: string;
+  waitSeconds: number;
+  actionTypes: AutomationActionType[];
+  formSelector: string;
+  formDataText: string;
+  enabled: boolean;
+}
+
+type RuleFields = Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt' | 'lastRunAt'>;
+
+const ACTION_OPTIONS: { value: AutomationActionType; label: string }[] = [
+  { value: 'applyDomPath', label: '应用已保存的DOM路径' },
+  { value: 'autoCapture', label: '自动捕获到资料库' },
+  { value: 'hideFloatingBadge', label: '隐藏悬浮徽章' },
+  { value: 'fillForm', label: '填写表单' },
+];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  triggerType: 'glob',
+  pattern: '',
+  waitForSelector: '',
+  waitSeconds: 10,
+  actionTypes: ['applyDomPath', 'autoCapture'],
+  formSelector: 'form:first-of-type',
+  formDataText: '{}',
+  enabled: true,
+};
+
+const toDraft = (rule: AutomationRule): RuleDraft => {
+  const fillAction = rule.actions.find(action => action.type === 'fillForm');
+  return {
+    name: rule.name,
+    triggerType: rule.triggerType,
+    pattern: rule.pattern,
+    waitForSelector: rule.waitForSelector || '',
+    waitSeconds: Math.round((rule.waitTimeout || 10000) / 1000),
+    actionTypes: rule.actions.map(action => action.type),
+    formSelector: fillAction?.formSelector || EMPTY_DRAFT.formSelector,
+    formDataText: JSON.stringify(fillAction?.formData || {}, null, 2),
+    enabled: rule.enabled,
+  };
+};
+
+// 校验草稿并转换为规则字段，失败时返回错误信息
+const fromDraft = (draft: RuleDraft): RuleFields | string => {
+  if (!draft.name.trim() || !draft.pattern.trim()) return '请填写规则名称和URL模式';
+  if (!isValidUrlPattern(draft.triggerType, draft.pattern)) return '无效的正则表达式';
+  if (draft.actionTypes.length === 0) return '请至少选择一个动作';
+
+  if (draft.waitForSelector) {
+    try {
+      document.createDocumentFragment().querySelector(draft.waitForSelector);
+    } catch {
+      return '无效的等待元素选择器';
+    }
+  }
+
+  let formData: Record<string, string> = {};
+  if (draft.actionTypes.includes('fillForm')) {
+    try {
+      formData = JSON.parse(draft.formDataText || '{}');
+    } catch {
+      return '表单数据必须是有效的JSON';
+    }
+  }
+
+  // 按固定顺序执行：先应用路径，再捕获，最后处理页面交互
+  const actionTypes = ACTION_OPTIONS.map(option => option.value).filter(type => draft.actionTypes.includes(type));
+
+  return {
+    name: draft.name.trim(),
+    triggerType: draft.triggerType,
+    pattern: draft.pattern.trim(),
+    waitForSelector: draft.waitForSelector.trim() || undefined,
+    waitTimeout: Math.max(1, draft.waitSeconds) * 1000,
+    actions: actionTypes.map(type =>
+      type === 'fillForm' ? { type, formSelector: draft.formSelector.trim() || undefined, formData } : { type },
+    ),
+    enabled: draft.enabled,
+  };
+};
+
+export const AutomationRulesPanel = ({ currentUrl, onClose }: AutomationRulesPanelProps) => {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [feedback, setFeedback] = useState('');
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setRules(await automationRulesStorage.getRules());
+    } catch (error) {
+      console.error('加载自动化规则失败:', error);
+    }
+  };
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 3000);
+  };
+
+  const handleToggleRule = async (id: string, enabled: boolean) => {
+    try {
+      await automationRulesStorage.updateRule(id, { enabled });
+      await loadRules();
+    } catch (error) {
+      console.error('切换自动化规则失败:', error);
+    }
+  };
+
+  const startAdd = () => {
+    setEditingRuleId(null);
+    setDraft({ ...EMPTY_DRAFT });
+  };
+
+  const startEdit = (rule: AutomationRule) => {
+    setEditingRuleId(rule.id);
+    setDraft(toDraft(rule));
+  };
+
+  const cancelEdit = () => {
+    setEditingRuleId(null);
+    setDraft(null);
+  };
+
+  const fillPatternFromCurrentPage = () => {
+    if (!draft || !currentUrl) return;
+    try {
+      const url = new URL(currentUrl);
+      setDraft({ ...draft, triggerType: 'glob', pattern: `${url.origin}${url.pathname}*` });
+    } catch {
+      // 当前页面URL无效时忽略
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const rule = fromDraft(draft);
+    if (typeof rule === 'string') {
+      alert(rule);
+      return;
+    }
+
+    try {
+      if (editingRuleId) {
+        await automationRulesStorage.updateRule(editingRuleId, rule);
+      } else {
+        await automationRulesStorage.addRule(rule);
+      }
+      cancelEdit();
+      await loadRules();
+    } catch (error) {
+      console.error('保存自动化规则失败:', error);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (confirm('确定要删除这条规则吗？')) {
+      try {
+        await automationRulesStorage.deleteRule(id);
+        await loadRules();
+      } catch (error) {
+        console.error('删除自动化规则失败:', error);
+      }
+    }
+  };
+
+  // 在当前标签页上立即运行规则，便于调试
+  const handleRunRule = async (rule: AutomationRule) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) return;
+
+      const response = await chrome.runtime.sendMessage({
+        action: 'runAutomationRule',
+        tabId: tab.id,
+        ruleId: rule.id,
+      });
+      showFeedback(response?.success ? `✅ 已运行：${rule.name}` : `❌ 运行失败：${response?.error || '未知错误'}`);
+      await loadRules();
+    } catch (error) {
+      console.error('运行自动化规则失败:', error);
+      showFeedback('❌ 运行失败');
+    }
+  };
+
+  const toggleDraftAction = (type: AutomationActionType, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      actionTypes: checked ? [...draft.actionTypes, type] : draft.actionTypes.filter(t => t !== type),
+    });
+  };
+
+  const renderDraftEditor = () =>
+    draft && (
+      <div className="bg-background-ivory-medium dark:bg-background-dark space-y-2 rounded p-2">
+        <input
+          type="text"
+          value={draft.name}
+          placeholder="规则名称"
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+        />
+        <div className="flex gap-1">
+          <select
+            value={draft.triggerType}
+            onChange={e => setDraft({ ...draft, triggerType: e.target.value as AutomationTriggerType })}
+            className="border-border-default dark:bg-background-dark rounded border px-1 py-1 text-xs dark:border-gray-600">
+            <option value="glob">通配符</option>
+            <option value="regex">正则</option>
+          </select>
+          <input
+            type="text"
+            value={draft.pattern}
+            placeholder={draft.triggerType === 'glob' ? 'https://example.com/posts/*' : '^https://example\\.com/'}
+            onChange={e => setDraft({ ...draft, pattern: e.target.value })}
+            className="border-border-default dark:bg-background-dark min-w-0 flex-1 rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <button onClick={fillPatternFromCurrentPage} className="text-swatch-cactus hover:text-swatch-olive text-xs">
+            使用当前页面
+          </button>
+          {draft.pattern && (
+            <span className="text-text-faded text-xs dark:text-gray-400">
+              {matchesUrlPattern(currentUrl, draft.triggerType, draft.pattern) ? '✅ 匹配当前页面' : '不匹配当前页面'}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={draft.waitForSelector}
+            placeholder="等待元素出现（可选），如 article"
+            onChange={e => setDraft({ ...draft, waitForSelector: e.target.value })}
+            className="border-border-default dark:bg-background-dark min-w-0 flex-1 rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+          />
+          <input
+            type="number"
+            min={1}
+            value={draft.waitSeconds}
+            title="等待超时（秒）"
+            onChange={e => setDraft({ ...draft, waitSeconds: Number(e.target.value) || 1 })}
+            className="border-border-default dark:bg-background-dark w-14 rounded border px-2 py-1 text-xs dark:border-gray-600"
+          />
+        </div>
+        <div className="space-y-1">
+          {ACTION_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={draft.actionTypes.includes(option.value)}
+                onChange={e => toggleDraftAction(option.value, e.target.checked)}
+                className="rounded"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        {draft.actionTypes.includes('fillForm') && (
+          <div className="space-y-1">
+            <input
+              type="text"
+              value={draft.formSelector}
+              placeholder="表单选择器"
+              onChange={e => setDraft({ ...draft, formSelector: e.target.value })}
+              className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+            />
+            <textarea
+              value={draft.formDataText}
+              rows={4}
+              placeholder='{"email": "me@example.com"}'
+              onChange={e => setDraft({ ...draft, formDataText: e.target.value })}
+              className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSaveDraft}
+            className="bg-primary hover:bg-background-clay flex-1 rounded px-2 py-1 text-xs text-white">
+            保存
+          </button>
+          <button
+            onClick={cancelEdit}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light flex-1 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            取消
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">自动化规则</h4>
+        <div className="flex items-center gap-2">
+          {!draft && (
+            <button onClick={startAdd} className="text-swatch-cactus hover:text-swatch-olive text-xs">
+              + 添加规则
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">
+        页面加载完成且URL匹配时，后台自动按顺序执行规则中的动作
+      </div>
+
+      {feedback && <div className="text-text-main mb-2 text-xs dark:text-gray-300">{feedback}</div>}
+
+      <div className="space-y-1">
+        {rules.map(rule =>
+          editingRuleId === rule.id ? (
+            <div key={rule.id}>{renderDraftEditor()}</div>
+          ) : (
+            <div
+              key={rule.id}
+              className="bg-background-ivory-medium dark:bg-background-dark flex items-center justify-between rounded p-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-text-main flex items-center gap-1 text-sm dark:text-gray-200">
+                  {rule.name}
+                  {matchesUrlPattern(currentUrl, rule.triggerType, rule.pattern) && (
+                    <span className="text-swatch-cactus text-xs">● 当前页面</span>
+                  )}
+                </div>
+                <div className="text-text-faded truncate font-mono text-xs dark:text-gray-400">{rule.pattern}</div>
+                <div className="text-text-faded truncate text-xs dark:text-gray-400">
+                  {rule.actions
+                    .map(action => ACTION_OPTIONS.find(option => option.value === action.type)?.label)
+                    .join(' → ')}
+                </div>
+                {rule.lastRunAt && (
+                  <div className="text-text-faded text-xs dark:text-gray-400">
+                    上次运行：{new Date(rule.lastRunAt).toLocaleString()}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <button
+                  onClick={() => handleRunRule(rule)}
+                  className="text-text-faded hover:text-text-main text-xs"
+                  title="在当前页面运行">
+                  ▶️
+                </button>
+                <button onClick={() => startEdit(rule)} className="text-text-faded hover:text-text-main text-xs">
+                  ✏️
+                </button>
+                <button
+                  onClick={() => handleDeleteRule(rule.id)}
+                  className="text-text-faded hover:text-background-clay text-xs">
+                  🗑️
+                </button>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => handleToggleRule(rule.id, e.target.checked)}
+                  className="rounded"
+                />
+              </div>
+            </div>
+          ),
+        )}
+        {draft && !editingRuleId && renderDraftEditor()}
+        {rules.length === 0 && !draft && (
+          <div className="text-text-faded text-xs dark:text-gray-400">暂无自动化规则</div>
+        )}
+      </div>
+    </div>
+  );
+};
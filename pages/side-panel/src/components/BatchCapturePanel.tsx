@@ -0,0 +1,198 @@
+import { downloadMarkdownArchive, downloadTextFile } from '../utils/markdown-download';
+import { dbManager, stripFrontmatter, useStorage } from '@extension/shared';
+import { batchCaptureStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { BatchCaptureItemStatus, BatchCaptureJob, BatchCaptureScope } from '@extension/storage';
+
+interface BatchCapturePanelProps {
+  onClose: () => void;
+}
+
+interface BatchCaptureResult {
+  title: string;
+  url: string;
+  slug: string;
+  tags: string[];
+  markdown: string;
+}
+
+type BatchDownloadMode = 'none' | 'combined' | 'zip';
+
+// 由本面板发起、等待结束后下载的任务
+interface PendingBatchJob {
+  jobId: string;
+  downloadMode: BatchDownloadMode;
+}
+
+const STATUS_ICONS: Record<BatchCaptureItemStatus, string> = {
+  pending: '⏸️',
+  capturing: '⏳',
+  done: '✅',
+  error: '❌',
+  skipped: '⏭️',
+};
+
+// 从资料库读取任务中捕获成功的内容
+const loadJobCaptures = async (job: BatchCaptureJob): Promise<BatchCaptureResult[]> => {
+  await dbManager.initialize();
+  const captures = await Promise.all(
+    job.items.filter(item => item.captureId).map(item => dbManager.getCaptureById(item.captureId!)),
+  );
+  return captures
+    .filter(capture => capture !== null)
+    .map(({ title, url, slug, tags, markdown }) => ({ title, url, slug, tags, markdown }));
+};
+
+// 合并为一篇文档：每个页面一个标题，正文去掉各自的 frontmatter
+const buildCombinedMarkdown = (captures: BatchCaptureResult[]): string =>
+  captures
+    .map(capture => `# ${capture.title}\n\n> ${capture.url}\n\n${stripFrontmatter(capture.markdown).trim()}`)
+    .join('\n\n---\n\n');
+
+export const BatchCapturePanel = ({ onClose }: BatchCapturePanelProps) => {
+  const { job } = useStorage(batchCaptureStorage);
+  const [scope, setScope] = useState<BatchCaptureScope>('highlighted');
+  const [downloadMode, setDownloadMode] = useState<BatchDownloadMode>('none');
+  const [feedback, setFeedback] = useState('');
+  const [pendingJob, setPendingJob] = useState<PendingBatchJob | null>(null);
+
+  const isRunning = job?.status === 'running';
+  const finishedCount = job?.items.filter(item => !['pending', 'capturing'].includes(item.status)).length || 0;
+
+  // 任务结束后按选择的方式下载捕获结果
+  useEffect(() => {
+    if (!pendingJob || !job || job.id !== pendingJob.jobId || job.status === 'running') return;
+    setPendingJob(null);
+
+    const downloadCaptures = async () => {
+      try {
+        const captures = await loadJobCaptures(job);
+        if (captures.length === 0) {
+          setFeedback('没有捕获到内容');
+          return;
+        }
+
+        if (pendingJob.downloadMode === 'combined') {
+          await downloadTextFile(buildCombinedMarkdown(captures), `batch-${Date.now()}.md`, 'text/markdown');
+        } else if (pendingJob.downloadMode === 'zip') {
+          await downloadMarkdownArchive(
+            captures.map(({ markdown, ...context }) => ({ markdown, context })),
+            `batch-${Date.now()}.zip`,
+          );
+        }
+        setFeedback(`已捕获 ${captures.length} 个页面`);
+      } catch (error) {
+        console.error('下载批量捕获结果失败:', error);
+        setFeedback('下载批量捕获结果失败');
+      }
+    };
+
+    downloadCaptures();
+  }, [job, pendingJob]);
+
+  const handleStart = async () => {
+    setFeedback('');
+    try {
+      const currentWindow = await chrome.windows.getCurrent();
+      const response = await chrome.runtime.sendMessage({
+        action: 'startBatchCapture',
+        windowId: currentWindow.id,
+        scope,
+      });
+      if (!response?.success) {
+        setFeedback(response?.error || '批量捕获失败');
+        return;
+      }
+      setPendingJob({ jobId: response.jobId, downloadMode });
+    } catch (error) {
+      console.error('批量捕获失败:', error);
+      setFeedback('批量捕获失败');
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await chrome.runtime.sendMessage({ action: 'cancelBatchCapture' });
+    } catch (error) {
+      console.error('取消批量捕获失败:', error);
+    }
+  };
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">批量捕获标签页</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <select
+          value={scope}
+          onChange={e => setScope(e.target.value as BatchCaptureScope)}
+          disabled={isRunning}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          <option value="highlighted">选中的标签页</option>
+          <option value="window">当前窗口全部标签页</option>
+        </select>
+        <select
+          value={downloadMode}
+          onChange={e => setDownloadMode(e.target.value as BatchDownloadMode)}
+          disabled={isRunning}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          <option value="none">仅保存到资料库</option>
+          <option value="combined">合并为一个 Markdown</option>
+          <option value="zip">打包为 zip</option>
+        </select>
+        {isRunning ? (
+          <button
+            onClick={handleCancel}
+            className="bg-background-clay hover:bg-primary rounded px-2 py-1 text-xs text-white">
+            ⏹️ 停止
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            className="bg-primary hover:bg-background-clay rounded px-2 py-1 text-xs text-white">
+            🗂️ 开始捕获
+          </button>
+        )}
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">
+        按住 Ctrl / Shift 点击标签可选中多个标签页；每个页面自动识别正文并保存到资料库
+      </div>
+
+      {feedback && <div className="text-text-main mb-2 text-xs dark:text-gray-300">{feedback}</div>}
+
+      {job && (
+        <div>
+          <div className="text-text-faded mb-1 text-xs dark:text-gray-400">
+            {job.status === 'running' ? '捕获中' : job.status === 'cancelled' ? '已停止' : '已完成'} {finishedCount}/
+            {job.items.length}
+          </div>
+          <div className="bg-background-ivory-medium mb-2 h-1 overflow-hidden rounded dark:bg-gray-700">
+            <div
+              className="bg-primary h-full transition-all"
+              style={{ width: `${job.items.length ? (finishedCount / job.items.length) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="max-h-64 space-y-1 overflow-auto">
+            {job.items.map(item => (
+              <div key={item.tabId} className="flex items-start gap-2 text-xs">
+                <span className="flex-shrink-0">{STATUS_ICONS[item.status]}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="text-text-main truncate dark:text-gray-200">{item.title}</div>
+                  {item.error && <div className="text-background-clay">{item.error}</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
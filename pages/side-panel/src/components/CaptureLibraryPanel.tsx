@@ -0,0 +1,413 @@
+import { copyRichText } from '../utils/clipboard';
+import { downloadMarkdown } from '../utils/markdown-download';
+import { dbManager } from '@extension/shared';
+import { Select } from '@extension/ui';
+import { useState, useEffect, useMemo } from 'react';
+import type { CaptureData, SearchResult, SearchSnippetSegment, TextProcessingData } from '@extension/shared';
+
+type SortOrder = 'newest' | 'oldest' | 'title';
+type DateRange = 'all' | 'today' | 'week' | 'month';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SnippetText = ({ segments }: { segments: SearchSnippetSegment[] }) => (
+  <p className="text-text-faded mb-2 break-words text-xs dark:text-gray-400">
+    {segments.map((segment, index) =>
+      segment.highlight ? (
+        <mark
+          key={index}
+          className="bg-background-oat text-text-main rounded px-0.5 dark:bg-yellow-900/40 dark:text-yellow-200">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </p>
+);
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+// 计算日期范围的起始时间戳
+const getRangeStart = (range: DateRange): number => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  switch (range) {
+    case 'today':
+      return startOfToday.getTime();
+    case 'week':
+      return startOfToday.getTime() - 6 * DAY_MS;
+    case 'month':
+      return startOfToday.getTime() - 29 * DAY_MS;
+    default:
+      return 0;
+  }
+};
+
+export const CaptureLibraryPanel = () => {
+  const [captures, setCaptures] = useState<CaptureData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [hostFilter, setHostFilter] = useState('all');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+
+  useEffect(() => {
+    loadCaptures();
+  }, []);
+
+  // 输入停顿后再检索
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        await dbManager.initialize();
+        const results = await dbManager.search(query, { limit: 100 });
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('检索失败:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  const loadCaptures = async () => {
+    try {
+      await dbManager.initialize();
+      const data = await dbManager.getCaptures();
+      setCaptures(data);
+    } catch (error) {
+      console.error('加载资料库失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 2000);
+  };
+
+  const hosts = useMemo(
+    () => Array.from(new Set(captures.map(capture => getHostname(capture.url)))).sort(),
+    [captures],
+  );
+
+  const snippets = useMemo(
+    () => new Map((searchResults || []).map(result => [`${result.type}:${result.id}`, result.snippet])),
+    [searchResults],
+  );
+
+  const textResults = useMemo(
+    () => (searchResults || []).filter(result => result.type === 'text_processing'),
+    [searchResults],
+  );
+
+  const visibleCaptures = useMemo(() => {
+    const rangeStart = getRangeStart(dateRange);
+
+    // 检索时使用检索结果（已按相关度排序）
+    const source = searchResults
+      ? searchResults.filter(result => result.type === 'capture').map(result => result.item as CaptureData)
+      : captures;
+
+    const filtered = source.filter(
+      capture =>
+        (hostFilter === 'all' || getHostname(capture.url) === hostFilter) && (capture.timestamp || 0) >= rangeStart,
+    );
+
+    if (searchResults) return filtered;
+
+    return filtered.sort((a, b) => {
+      if (sortOrder === 'title') {
+        return a.title.localeCompare(b.title, 'zh-CN');
+      }
+      return sortOrder === 'oldest' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp;
+    });
+  }, [captures, searchResults, hostFilter, dateRange, sortOrder]);
+
+  const openSource = async (capture: CaptureData) => {
+    try {
+      await chrome.tabs.create({ url: capture.url });
+    } catch (error) {
+      console.error('打开原网页失败:', error);
+    }
+  };
+
+  const copyText = async (text: string, html?: string) => {
+    try {
+      await copyRichText(text, html);
+      showFeedback('✅ 已复制');
+    } catch (error) {
+      console.error('复制失败:', error);
+      showFeedback('❌ 复制失败');
+    }
+  };
+
+  const deleteCapture = async (capture: CaptureData) => {
+    if (!capture.id || !confirm(`确定要删除「${capture.title}」吗？`)) return;
+
+    try {
+      await dbManager.deleteCapture(capture.id);
+      setCaptures(prev => prev.filter(c => c.id !== capture.id));
+      setSearchResults(prev => prev && prev.filter(r => !(r.type === 'capture' && r.id === capture.id)));
+      showFeedback('✅ 已删除');
+    } catch (error) {
+      console.error('删除失败:', error);
+      showFeedback('❌ 删除失败');
+    }
+  };
+
+  const startEditTags = (capture: CaptureData) => {
+    setEditingTagsId(capture.id || null);
+    setTagsInput(capture.tags.join(', '));
+  };
+
+  const saveTags = async (capture: CaptureData) => {
+    if (!capture.id) return;
+
+    const tags = Array.from(
+      new Set(
+        tagsInput
+          .split(/[,，]/)
+          .map(tag => tag.trim())
+          .filter(Boolean),
+      ),
+    );
+
+    try {
+      await dbManager.updateCapture(capture.id, { tags });
+      setCaptures(prev => prev.map(c => (c.id === capture.id ? { ...c, tags } : c)));
+      setSearchResults(
+        prev =>
+          prev &&
+          prev.map(r => (r.type === 'capture' && r.id === capture.id ? { ...r, item: { ...r.item, tags } } : r)),
+      );
+      setEditingTagsId(null);
+    } catch (error) {
+      console.error('保存标签失败:', error);
+      showFeedback('❌ 保存标签失败');
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="theme-text-main text-lg font-semibold">我的资料库</h2>
+        <span className="text-text-faded text-xs">
+          {visibleCaptures.length} / {captures.length} 条
+        </span>
+      </div>
+
+      {/* 全文检索 */}
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={e => setSearchQuery(e.target.value)}
+        placeholder="🔍 搜索标题和正文..."
+        className="border-border-default dark:bg-background-dark mb-2 w-full rounded border px-3 py-2 text-sm dark:border-gray-600"
+      />
+
+      {/* 筛选和排序 */}
+      <div className="mb-4 grid grid-cols-3 gap-2">
+        <Select
+          value={sortOrder}
+          onValueChange={value => setSortOrder(value as SortOrder)}
+          options={[
+            { value: 'newest', label: '最新优先' },
+            { value: 'oldest', label: '最早优先' },
+            { value: 'title', label: '按标题' },
+          ]}
+        />
+        <Select
+          value={hostFilter}
+          onValueChange={setHostFilter}
+          options={[{ value: 'all', label: '全部网站' }, ...hosts.map(host => ({ value: host, label: host }))]}
+        />
+        <Select
+          value={dateRange}
+          onValueChange={value => setDateRange(value as DateRange)}
+          options={[
+            { value: 'all', label: '全部时间' },
+            { value: 'today', label: '今天' },
+            { value: 'week', label: '最近7天' },
+            { value: 'month', label: '最近30天' },
+          ]}
+        />
+      </div>
+
+      {/* 操作反馈 */}
+      {feedback && (
+        <div className="bg-swatch-cactus/10 text-swatch-cactus mb-4 rounded p-2 text-sm dark:bg-green-900/20 dark:text-green-300">
+          {feedback}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="text-text-faded py-8 text-center text-sm">加载中...</div>
+        ) : visibleCaptures.length === 0 && textResults.length === 0 ? (
+          <div className="text-text-faded py-8 text-center">
+            <div className="mb-2 text-4xl">📚</div>
+            <p>
+              {searchResults
+                ? '没有找到相关内容'
+                : captures.length === 0
+                  ? '还没有捕获记录，去「捕获」页选择网页内容吧'
+                  : '没有符合筛选条件的记录'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visibleCaptures.map(capture => (
+              <div key={capture.id} className="border-border-default rounded border p-3 dark:border-gray-600">
+                <div className="mb-1 flex items-start justify-between gap-2">
+                  <button
+                    onClick={() => setExpandedId(expandedId === capture.id ? null : capture.id || null)}
+                    className="text-text-main flex-1 break-all text-left text-sm font-medium hover:underline dark:text-gray-200">
+                    {capture.title || capture.slug}
+                  </button>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <button
+                      onClick={() => openSource(capture)}
+                      className="bg-background-ivory-medium text-text-main hover:bg-swatch-cloud-light rounded p-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                      title="打开原网页">
+                      🔗
+                    </button>
+                    <button
+                      onClick={() => copyText(capture.markdown, capture.html)}
+                      className="bg-background-ivory-medium text-text-main hover:bg-swatch-cloud-light rounded p-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                      title="复制">
+                      📋
+                    </button>
+                    <button
+                      onClick={() =>
+                        downloadMarkdown(capture.markdown, {
+                          title: capture.title,
+                          slug: capture.slug,
+                          url: capture.url,
+                          tags: capture.tags,
+                        })
+                      }
+                      className="bg-swatch-cactus/20 text-swatch-cactus hover:bg-swatch-cactus/30 rounded p-1 text-xs dark:bg-green-900 dark:text-green-300 dark:hover:bg-green-800"
+                      title="下载">
+                      📥
+                    </button>
+                    <button
+                      onClick={() => deleteCapture(capture)}
+                      className="bg-background-clay/20 text-background-clay hover:bg-background-clay/30 rounded p-1 text-xs dark:bg-red-900 dark:text-red-300 dark:hover:bg-red-800"
+                      title="删除">
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+
+                <div className="text-text-faded mb-2 flex items-center justify-between text-xs dark:text-gray-400">
+                  <span className="truncate">{getHostname(capture.url)}</span>
+                  <span className="flex-shrink-0">{new Date(capture.timestamp).toLocaleString()}</span>
+                </div>
+
+                {snippets.has(`capture:${capture.id}`) && (
+                  <SnippetText segments={snippets.get(`capture:${capture.id}`)!} />
+                )}
+
+                {/* 标签 */}
+                {editingTagsId === capture.id ? (
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      value={tagsInput}
+                      onChange={e => setTagsInput(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && saveTags(capture)}
+                      placeholder="多个标签用逗号分隔"
+                      className="border-border-default dark:bg-background-dark flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+                    />
+                    <button
+                      onClick={() => saveTags(capture)}
+                      className="bg-swatch-cactus hover:bg-swatch-olive rounded px-2 py-1 text-xs text-white">
+                      ✓
+                    </button>
+                    <button
+                      onClick={() => setEditingTagsId(null)}
+                      className="bg-background-faded rounded px-2 py-1 text-xs text-white hover:bg-gray-600">
+                      ✗
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-1">
+                    {capture.tags.map(tag => (
+                      <span
+                        key={tag}
+                        className="text-primary rounded bg-blue-100 px-2 py-0.5 text-xs dark:bg-blue-900/20 dark:text-blue-400">
+                        #{tag}
+                      </span>
+                    ))}
+                    <button
+                      onClick={() => startEditTags(capture)}
+                      className="text-text-faded hover:text-text-main text-xs dark:text-gray-400">
+                      {capture.tags.length > 0 ? '✏️' : '+ 标签'}
+                    </button>
+                  </div>
+                )}
+
+                {/* 内容预览 */}
+                {expandedId === capture.id && (
+                  <pre className="bg-background-ivory-medium dark:bg-background-dark mt-2 max-h-64 overflow-auto whitespace-pre-wrap break-words rounded p-2 font-mono text-xs">
+                    {capture.markdown}
+                  </pre>
+                )}
+              </div>
+            ))}
+
+            {/* 文本处理记录的检索结果 */}
+            {textResults.length > 0 && (
+              <>
+                <h3 className="theme-text-main pt-2 text-sm font-medium">文本处理记录</h3>
+                {textResults.map(result => {
+                  const item = result.item as TextProcessingData;
+                  return (
+                    <div key={result.id} className="border-border-default rounded border p-3 dark:border-gray-600">
+                      <div className="text-text-faded mb-1 flex items-center justify-between text-xs dark:text-gray-400">
+                        <span>{item.type}</span>
+                        <span>{new Date(item.timestamp).toLocaleString()}</span>
+                      </div>
+                      <SnippetText segments={result.snippet} />
+                      <button
+                        onClick={() => copyText(item.output)}
+                        className="bg-background-ivory-medium text-text-main hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+                        📋 复制结果
+                      </button>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
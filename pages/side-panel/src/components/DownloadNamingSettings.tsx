@@ -0,0 +1,159 @@
+import { buildDownloadFilename } from '@extension/shared';
+import { downloadSettingsStorage } from '@extension/storage';
+import { useState } from 'react';
+import type { DownloadFileContext } from '@extension/shared';
+import type { DownloadConflictAction, DownloadRoutingRule, DownloadSettings } from '@extension/storage';
+
+interface DownloadNamingSettingsProps {
+  settings: DownloadSettings;
+  onChange: <K extends keyof DownloadSettings>(key: K, value: DownloadSettings[K]) => void;
+}
+
+const CONFLICT_OPTIONS: { value: DownloadConflictAction; label: string }[] = [
+  { value: 'uniquify', label: '自动重命名' },
+  { value: 'overwrite', label: '覆盖' },
+  { value: 'prompt', label: '询问' },
+];
+
+const TEMPLATE_PRESETS = ['{slug}', '{date}-{slug}', '{title}', '{hostname}/{title}', '{year}/{month}/{title}'];
+
+// 预览时使用的示例文档
+const PREVIEW_CONTEXT: DownloadFileContext = {
+  title: '示例标题: Hello/World?',
+  slug: 'example-title-1700000000000',
+  url: 'https://www.example.com/post/1',
+  tags: ['clippings'],
+};
+
+const EMPTY_RULE: Omit<DownloadRoutingRule, 'id'> = { type: 'hostname', pattern: '', folder: '', enabled: true };
+
+export const DownloadNamingSettings = ({ settings, onChange }: DownloadNamingSettingsProps) => {
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+
+  const handleAddRule = async () => {
+    if (!newRule.pattern.trim() || !newRule.folder.trim()) return;
+
+    try {
+      await downloadSettingsStorage.addRoutingRule({
+        ...newRule,
+        pattern: newRule.pattern.trim(),
+        folder: newRule.folder.trim(),
+      });
+      setNewRule(EMPTY_RULE);
+    } catch (error) {
+      console.error('添加路由规则失败:', error);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await downloadSettingsStorage.deleteRoutingRule(id);
+    } catch (error) {
+      console.error('删除路由规则失败:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* 文件名模板 */}
+      <div>
+        <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">文件名模板</label>
+        <input
+          type="text"
+          value={settings.filenameTemplate}
+          onChange={e => onChange('filenameTemplate', e.target.value)}
+          placeholder="{slug}"
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+        />
+        <div className="mt-1 flex flex-wrap gap-1">
+          {TEMPLATE_PRESETS.map(preset => (
+            <button
+              key={preset}
+              onClick={() => onChange('filenameTemplate', preset)}
+              className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main rounded px-1 font-mono text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+              {preset}
+            </button>
+          ))}
+        </div>
+        <div className="text-text-faded mt-1 text-xs dark:text-gray-400">
+          可用：{'{slug} {title} {hostname} {tag} {date} {time} {year} {month} {day}'}，/ 表示子文件夹
+        </div>
+        <div className="text-text-faded mt-1 break-all text-xs dark:text-gray-400">
+          预览：{buildDownloadFilename(settings, PREVIEW_CONTEXT, 'md')}
+        </div>
+      </div>
+
+      {/* 重名处理 */}
+      <div className="flex items-center justify-between">
+        <label className="text-text-main text-sm dark:text-gray-300">同名文件</label>
+        <select
+          value={settings.conflictAction}
+          onChange={e => onChange('conflictAction', e.target.value as DownloadConflictAction)}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          {CONFLICT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 路由规则 */}
+      <div>
+        <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">
+          按域名或标签保存到子文件夹（第一条匹配的规则生效）
+        </label>
+        <div className="space-y-1">
+          {settings.routingRules.map(rule => (
+            <div
+              key={rule.id}
+              className="bg-background-ivory-medium dark:bg-background-dark flex items-center gap-2 rounded px-2 py-1 text-xs">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={e => downloadSettingsStorage.updateRoutingRule(rule.id, { enabled: e.target.checked })}
+                className="rounded"
+              />
+              <span className="text-text-main min-w-0 flex-1 truncate dark:text-gray-200">
+                {rule.type === 'hostname' ? '域名' : '标签'} {rule.pattern} → {rule.folder}
+              </span>
+              <button
+                onClick={() => handleDeleteRule(rule.id)}
+                className="text-text-faded hover:text-background-clay flex-shrink-0">
+                🗑️
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-1 flex items-center gap-1">
+          <select
+            value={newRule.type}
+            onChange={e => setNewRule({ ...newRule, type: e.target.value as DownloadRoutingRule['type'] })}
+            className="border-border-default dark:bg-background-dark rounded border px-1 py-1 text-xs dark:border-gray-600">
+            <option value="hostname">域名</option>
+            <option value="tag">标签</option>
+          </select>
+          <input
+            type="text"
+            value={newRule.pattern}
+            onChange={e => setNewRule({ ...newRule, pattern: e.target.value })}
+            placeholder={newRule.type === 'hostname' ? 'github.com' : 'paper'}
+            className="border-border-default dark:bg-background-dark w-0 flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+          />
+          <input
+            type="text"
+            value={newRule.folder}
+            onChange={e => setNewRule({ ...newRule, folder: e.target.value })}
+            placeholder="Clippings/Dev"
+            className="border-border-default dark:bg-background-dark w-0 flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+          />
+          <button
+            onClick={handleAddRule}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+            添加
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
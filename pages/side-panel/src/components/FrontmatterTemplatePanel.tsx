@@ -0,0 +1,267 @@
+import { formatFrontmatterDate, serializeFrontmatter } from '@extension/shared';
+import { DEFAULT_FRONTMATTER_TEMPLATE, frontmatterTemplateStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { FrontmatterEntry } from '@extension/shared';
+import type { FrontmatterField, FrontmatterFieldSource, FrontmatterTemplate } from '@extension/storage';
+
+interface FrontmatterTemplatePanelProps {
+  onClose: () => void;
+}
+
+const SOURCE_OPTIONS: { value: FrontmatterFieldSource; label: string }[] = [
+  { value: 'title', label: '标题' },
+  { value: 'slug', label: 'Slug' },
+  { value: 'source', label: '来源URL' },
+  { value: 'datetime', label: '时间' },
+  { value: 'domain', label: '域名' },
+  { value: 'author', label: '作者' },
+  { value: 'description', label: '描述' },
+  { value: 'tags', label: '标签' },
+  { value: 'static', label: '固定值' },
+];
+
+// 预览时使用的示例值
+const PREVIEW_VALUES: Record<Exclude<FrontmatterFieldSource, 'static' | 'tags' | 'datetime'>, string> = {
+  title: '示例标题: Hello "World"',
+  slug: 'example-title-1700000000000',
+  source: 'https://example.com/post/1',
+  domain: 'example.com',
+  author: '作者',
+  description: '页面描述',
+};
+
+const buildPreviewEntries = (template: FrontmatterTemplate): FrontmatterEntry[] =>
+  template.fields
+    .filter(field => field.enabled && field.key.trim())
+    .map(field => {
+      const key = field.key.trim();
+      switch (field.source) {
+        case 'datetime':
+          return { key, value: formatFrontmatterDate(new Date(), template.dateFormat), isDate: true };
+        case 'tags':
+          return { key, value: template.tags };
+        case 'static':
+          return { key, value: field.value || '' };
+        default:
+          return { key, value: PREVIEW_VALUES[field.source] };
+      }
+    });
+
+export const FrontmatterTemplatePanel = ({ onClose }: FrontmatterTemplatePanelProps) => {
+  const [template, setTemplate] = useState<FrontmatterTemplate>(DEFAULT_FRONTMATTER_TEMPLATE);
+  const [tagsInput, setTagsInput] = useState('');
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const currentTemplate = await frontmatterTemplateStorage.getTemplate();
+        setTemplate(currentTemplate);
+        setTagsInput(currentTemplate.tags.join(', '));
+      } catch (error) {
+        console.error('加载frontmatter模板失败:', error);
+      }
+    };
+
+    loadTemplate();
+  }, []);
+
+  const updateTemplate = async (updates: Partial<FrontmatterTemplate>) => {
+    try {
+      setTemplate(prev => ({ ...prev, ...updates }));
+      await frontmatterTemplateStorage.updateTemplate(updates);
+    } catch (error) {
+      console.error('更新frontmatter模板失败:', error);
+    }
+  };
+
+  const updateField = (id: string, updates: Partial<FrontmatterField>) => {
+    updateTemplate({ fields: template.fields.map(field => (field.id === id ? { ...field, ...updates } : field)) });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= template.fields.length) return;
+
+    const fields = [...template.fields];
+    [fields[index], fields[target]] = [fields[target], fields[index]];
+    updateTemplate({ fields });
+  };
+
+  const addField = () => {
+    const id = `custom-${Date.now()}`;
+    updateTemplate({
+      fields: [...template.fields, { id, key: '', source: 'static', value: '', enabled: true }],
+    });
+  };
+
+  const removeField = (id: string) => {
+    updateTemplate({ fields: template.fields.filter(field => field.id !== id) });
+  };
+
+  const handleTagsChange = (value: string) => {
+    setTagsInput(value);
+    updateTemplate({
+      tags: value
+        .split(/[,，]/)
+        .map(tag => tag.trim())
+        .filter(Boolean),
+    });
+  };
+
+  const handleReset = async () => {
+    if (!confirm('确定恢复默认模板吗？')) return;
+
+    try {
+      await frontmatterTemplateStorage.resetTemplate();
+      setTemplate(DEFAULT_FRONTMATTER_TEMPLATE);
+      setTagsInput('');
+    } catch (error) {
+      console.error('重置frontmatter模板失败:', error);
+    }
+  };
+
+  const preview = serializeFrontmatter(buildPreviewEntries(template), template.format);
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">Frontmatter模板</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            ↺ 重置
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {/* 输出格式 */}
+        <div className="flex items-center justify-between">
+          <span className="text-text-main text-sm dark:text-gray-300">输出格式</span>
+          <select
+            value={template.format}
+            onChange={e => updateTemplate({ format: e.target.value as FrontmatterTemplate['format'] })}
+            className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+            <option value="yaml">YAML (---)</option>
+            <option value="toml">TOML (+++)</option>
+            <option value="none">不输出</option>
+          </select>
+        </div>
+
+        {template.format !== 'none' && (
+          <>
+            {/* 字段列表 */}
+            <div>
+              <h5 className="text-text-faded mb-2 text-xs font-medium dark:text-gray-400">字段（按顺序输出）</h5>
+              <div className="space-y-1">
+                {template.fields.map((field, index) => (
+                  <div
+                    key={field.id}
+                    className="bg-background-ivory-medium dark:bg-background-dark flex items-center gap-1 rounded p-1.5">
+                    <input
+                      type="checkbox"
+                      checked={field.enabled}
+                      onChange={e => updateField(field.id, { enabled: e.target.checked })}
+                      className="rounded"
+                    />
+                    <input
+                      type="text"
+                      value={field.key}
+                      placeholder="字段名"
+                      onChange={e => updateField(field.id, { key: e.target.value })}
+                      className="border-border-default dark:bg-background-dark w-20 rounded border px-1 py-0.5 text-xs dark:border-gray-600"
+                    />
+                    <select
+                      value={field.source}
+                      onChange={e => updateField(field.id, { source: e.target.value as FrontmatterFieldSource })}
+                      className="border-border-default dark:bg-background-dark rounded border px-1 py-0.5 text-xs dark:border-gray-600">
+                      {SOURCE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {field.source === 'static' && (
+                      <input
+                        type="text"
+                        value={field.value || ''}
+                        placeholder="值"
+                        onChange={e => updateField(field.id, { value: e.target.value })}
+                        className="border-border-default dark:bg-background-dark min-w-0 flex-1 rounded border px-1 py-0.5 text-xs dark:border-gray-600"
+                      />
+                    )}
+                    <div className="ml-auto flex flex-shrink-0 gap-0.5">
+                      <button
+                        onClick={() => moveField(index, -1)}
+                        disabled={index === 0}
+                        className="text-text-faded hover:text-text-main px-1 text-xs disabled:opacity-30"
+                        title="上移">
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveField(index, 1)}
+                        disabled={index === template.fields.length - 1}
+                        className="text-text-faded hover:text-text-main px-1 text-xs disabled:opacity-30"
+                        title="下移">
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeField(field.id)}
+                        className="text-text-faded hover:text-background-clay px-1 text-xs"
+                        title="删除">
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button onClick={addField} className="text-swatch-cactus hover:text-swatch-olive mt-1 text-xs">
+                + 添加字段
+              </button>
+            </div>
+
+            {/* 日期格式 */}
+            <div>
+              <span className="text-text-faded mb-1 block text-xs dark:text-gray-400">
+                日期格式（ISO 或 YYYY-MM-DD HH:mm:ss）
+              </span>
+              <input
+                type="text"
+                value={template.dateFormat}
+                onChange={e => updateTemplate({ dateFormat: e.target.value })}
+                placeholder="ISO"
+                className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+              />
+            </div>
+
+            {/* 标签 */}
+            <div>
+              <span className="text-text-faded mb-1 block text-xs dark:text-gray-400">标签（逗号分隔）</span>
+              <input
+                type="text"
+                value={tagsInput}
+                onChange={e => handleTagsChange(e.target.value)}
+                placeholder="web-clip, 待读"
+                className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+              />
+            </div>
+
+            {/* 预览 */}
+            <div>
+              <span className="text-text-faded mb-1 block text-xs dark:text-gray-400">预览</span>
+              <pre className="bg-background-ivory-medium dark:bg-background-dark overflow-auto whitespace-pre-wrap break-words rounded p-2 font-mono text-xs">
+                {preview || '（无字段）'}
+              </pre>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
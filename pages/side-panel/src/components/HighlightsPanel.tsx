@@ -0,0 +1,189 @@
+import { copyRichText } from '../utils/clipboard';
+import { downloadTextFile } from '../utils/markdown-download';
+import { dbManager, getHighlightPageUrl, highlightsToMarkdown, markdownSnippetToHtml } from '@extension/shared';
+import { useEffect, useState } from 'react';
+import type { HighlightData } from '@extension/shared';
+
+interface HighlightsPanelProps {
+  currentUrl: string;
+  onClose: () => void;
+}
+
+// 向当前标签页的内容脚本发送消息，页面不支持时返回 null
+const sendToActiveTab = async (message: Record<string, unknown>) => {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tab?.id ? await chrome.tabs.sendMessage(tab.id, message) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const HighlightsPanel = ({ currentUrl, onClose }: HighlightsPanelProps) => {
+  const [highlights, setHighlights] = useState<HighlightData[]>([]);
+  const [isHighlightMode, setIsHighlightMode] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState('');
+
+  const pageUrl = getHighlightPageUrl(currentUrl);
+
+  useEffect(() => {
+    loadHighlights();
+    sendToActiveTab({ action: 'getHighlightMode' }).then(response => setIsHighlightMode(!!response?.enabled));
+
+    // 页面中新增高亮时刷新列表
+    const messageListener = (message: { action?: string; url?: string }) => {
+      if (message.action === 'highlightsChanged' && message.url === pageUrl) {
+        loadHighlights();
+      }
+    };
+    chrome.runtime.onMessage.addListener(messageListener);
+    return () => chrome.runtime.onMessage.removeListener(messageListener);
+  }, [pageUrl]);
+
+  const loadHighlights = async () => {
+    if (!pageUrl) return;
+
+    try {
+      await dbManager.initialize();
+      const items = await dbManager.getHighlightsByUrl(pageUrl);
+      setHighlights(items);
+      setNotes(Object.fromEntries(items.map(item => [item.id!, item.note || ''])));
+    } catch (error) {
+      console.error('加载高亮失败:', error);
+    }
+  };
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 3000);
+  };
+
+  const toggleHighlightMode = async () => {
+    const response = await sendToActiveTab({ action: 'setHighlightMode', enabled: !isHighlightMode });
+    if (response?.success) {
+      setIsHighlightMode(response.enabled);
+    } else {
+      showFeedback('当前页面不支持高亮');
+    }
+  };
+
+  const handleSaveNote = async (highlight: HighlightData) => {
+    const note = notes[highlight.id!] || '';
+    if (note === (highlight.note || '')) return;
+
+    try {
+      await dbManager.updateHighlight(highlight.id!, { note });
+      await sendToActiveTab({ action: 'updateHighlightNote', id: highlight.id, note });
+      await loadHighlights();
+    } catch (error) {
+      console.error('保存笔记失败:', error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await dbManager.deleteHighlight(id);
+      await sendToActiveTab({ action: 'removeHighlight', id });
+      await loadHighlights();
+    } catch (error) {
+      console.error('删除高亮失败:', error);
+    }
+  };
+
+  const handleFocus = async (id: string) => {
+    const response = await sendToActiveTab({ action: 'focusHighlight', id });
+    if (!response?.success) showFeedback('未能在页面中定位该高亮');
+  };
+
+  const getMarkdown = () => highlightsToMarkdown(highlights, { url: pageUrl, title: highlights[0]?.title });
+
+  const handleCopy = async () => {
+    try {
+      const markdown = getMarkdown();
+      await copyRichText(markdown, markdownSnippetToHtml(markdown));
+      showFeedback('已复制 Markdown');
+    } catch (error) {
+      console.error('复制高亮失败:', error);
+    }
+  };
+
+  const handleDownload = async () => {
+    const hostname = pageUrl ? new URL(pageUrl).hostname : 'page';
+    await downloadTextFile(getMarkdown(), `highlights-${hostname}-${Date.now()}.md`, 'text/markdown');
+  };
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">网页高亮</h4>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleHighlightMode}
+            className={`rounded px-2 py-1 text-xs ${
+              isHighlightMode
+                ? 'bg-swatch-cactus text-white'
+                : 'bg-background-ivory-medium text-text-main dark:bg-gray-700 dark:text-gray-300'
+            }`}>
+            {isHighlightMode ? '🖍️ 高亮模式：开' : '🖍️ 高亮模式：关'}
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">
+        开启高亮模式后，在页面中选中文本即可保存为高亮，再次访问时自动恢复
+      </div>
+
+      {feedback && <div className="text-text-main mb-2 text-xs dark:text-gray-300">{feedback}</div>}
+
+      <div className="space-y-2">
+        {highlights.map(highlight => (
+          <div key={highlight.id} className="bg-background-ivory-medium dark:bg-background-dark rounded p-2">
+            <div className="flex items-start justify-between gap-2">
+              <button
+                onClick={() => handleFocus(highlight.id!)}
+                className="text-text-main border-swatch-cactus line-clamp-3 flex-1 border-l-2 pl-2 text-left text-xs dark:text-gray-200"
+                title="在页面中定位">
+                {highlight.text}
+              </button>
+              <button
+                onClick={() => handleDelete(highlight.id!)}
+                className="text-text-faded hover:text-background-clay flex-shrink-0 text-xs">
+                🗑️
+              </button>
+            </div>
+            <textarea
+              value={notes[highlight.id!] || ''}
+              onChange={e => setNotes({ ...notes, [highlight.id!]: e.target.value })}
+              onBlur={() => handleSaveNote(highlight)}
+              placeholder="添加笔记..."
+              rows={2}
+              className="border-border-default dark:bg-background-dark mt-2 w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+            />
+          </div>
+        ))}
+        {highlights.length === 0 && <div className="text-text-faded text-xs dark:text-gray-400">本页暂无高亮</div>}
+      </div>
+
+      {highlights.length > 0 && (
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={handleCopy}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+            📋 复制 Markdown
+          </button>
+          <button
+            onClick={handleDownload}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+            📥 下载
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
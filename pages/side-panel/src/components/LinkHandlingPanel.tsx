@@ -0,0 +1,78 @@
+import { useStorage } from '@extension/shared';
+import { linkHandlingStorage } from '@extension/storage';
+import type { LinkHandlingSettings, LinkStyle } from '@extension/storage';
+
+interface LinkHandlingPanelProps {
+  onClose: () => void;
+}
+
+const STYLE_OPTIONS: { value: LinkStyle; label: string; example: string }[] = [
+  { value: 'inlined', label: '行内链接', example: '[文字](https://…)' },
+  { value: 'referenced', label: '引用链接', example: '[文字][1]，文末 [1]: https://…' },
+  { value: 'footnote', label: '脚注', example: '文字[^1]，文末 [^1]: https://…' },
+];
+
+const TOGGLE_OPTIONS: { key: Exclude<keyof LinkHandlingSettings, 'style'>; label: string; description: string }[] = [
+  { key: 'resolveRelative', label: '补全相对地址', description: '按页面地址补全链接和图片的相对路径' },
+  { key: 'stripTracking', label: '清理跟踪参数', description: '去掉 utm_*、fbclid、spm 等参数' },
+  { key: 'removeEmptyLinks', label: '去掉无效链接', description: '删除空链接，页内锚点链接只保留文字' },
+];
+
+export const LinkHandlingPanel = ({ onClose }: LinkHandlingPanelProps) => {
+  const { settings } = useStorage(linkHandlingStorage);
+
+  const handleUpdate = async (updates: Partial<LinkHandlingSettings>) => {
+    try {
+      await linkHandlingStorage.updateSettings(updates);
+    } catch (error) {
+      console.error('保存链接处理设置失败:', error);
+    }
+  };
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">链接处理</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">修改后立即重新转换当前选中的内容</div>
+
+      <div className="mb-3 space-y-1">
+        {STYLE_OPTIONS.map(option => (
+          <label key={option.value} className="flex items-center gap-2 text-xs">
+            <input
+              type="radio"
+              name="link-style"
+              checked={settings.style === option.value}
+              onChange={() => handleUpdate({ style: option.value })}
+            />
+            <span className="text-text-main dark:text-gray-200">{option.label}</span>
+            <code className="text-text-faded truncate dark:text-gray-400">{option.example}</code>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {TOGGLE_OPTIONS.map(option => (
+          <label key={option.key} className="flex items-start gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={settings[option.key]}
+              onChange={e => handleUpdate({ [option.key]: e.target.checked })}
+              className="mt-0.5 rounded"
+            />
+            <span>
+              <span className="text-text-main dark:text-gray-200">{option.label}</span>
+              <span className="text-text-faded ml-1 dark:text-gray-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import { diffLines, foldDiff, summarizeDiff, useStorage } from '@extension/shared';
+import { pageWatchStorage } from '@extension/storage';
+import { useState } from 'react';
+import type { PageWatch } from '@extension/storage';
+
+interface PageWatchPanelProps {
+  onClose: () => void;
+}
+
+const INTERVAL_OPTIONS = [
+  { value: 15, label: '每 15 分钟' },
+  { value: 60, label: '每小时' },
+  { value: 360, label: '每 6 小时' },
+  { value: 1440, label: '每天' },
+];
+
+const DIFF_LINE_STYLES = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300',
+  equal: 'text-text-main dark:text-gray-300',
+};
+
+const DiffView = ({ watch }: { watch: PageWatch }) => {
+  const diff = diffLines(watch.previousSnapshot || '', watch.snapshot);
+  const { added, removed } = summarizeDiff(diff);
+
+  return (
+    <div className="mt-2">
+      <div className="text-text-faded mb-1 text-xs dark:text-gray-400">
+        新增 {added} 行，删除 {removed} 行
+        {watch.lastChangedAt && `（${new Date(watch.lastChangedAt).toLocaleString()}）`}
+      </div>
+      <div className="bg-background-main dark:bg-background-dark max-h-64 overflow-auto rounded border p-1 font-mono text-xs dark:border-gray-600">
+        {foldDiff(diff).map((line, index) =>
+          line.type === 'skipped' ? (
+            <div key={index} className="text-text-faded px-1 italic dark:text-gray-500">
+              … {line.count} 行未变化
+            </div>
+          ) : (
+            <div key={index} className={`whitespace-pre-wrap break-all px-1 ${DIFF_LINE_STYLES[line.type]}`}>
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </div>
+          ),
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const PageWatchPanel = ({ onClose }: PageWatchPanelProps) => {
+  const { watches } = useStorage(pageWatchStorage);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState('');
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 3000);
+  };
+
+  const handleToggleDiff = async (watch: PageWatch) => {
+    const expanded = expandedId === watch.id ? null : watch.id;
+    setExpandedId(expanded);
+
+    // 查看后清除未读标记
+    if (expanded && watch.hasUnreadChange) {
+      await pageWatchStorage.updateWatch(watch.id, { hasUnreadChange: false });
+    }
+  };
+
+  const handleCheckNow = async (id: string) => {
+    setCheckingId(id);
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'checkPageWatch', id });
+      if (response?.success) {
+        showFeedback(response.changed ? '内容已变化' : '内容未变化');
+      } else {
+        showFeedback(response?.error || '检查失败');
+      }
+    } catch (error) {
+      console.error('检查页面监控失败:', error);
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await pageWatchStorage.deleteWatch(id);
+    } catch (error) {
+      console.error('删除页面监控失败:', error);
+    }
+  };
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">页面监控</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">
+        选中元素后点击 DOM 路径旁的 👁️ 添加监控，后台定期检查内容变化并发出通知
+      </div>
+
+      {feedback && <div className="text-text-main mb-2 text-xs dark:text-gray-300">{feedback}</div>}
+
+      <div className="space-y-1">
+        {watches.map(watch => (
+          <div key={watch.id} className="bg-background-ivory-medium dark:bg-background-dark rounded p-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-text-main flex items-center gap-1 text-sm dark:text-gray-200">
+                  <span className="truncate">{watch.title}</span>
+                  {watch.hasUnreadChange && (
+                    <span className="text-background-clay flex-shrink-0 text-xs">● 有变化</span>
+                  )}
+                </div>
+                <div className="text-text-faded truncate text-xs dark:text-gray-400">{watch.url}</div>
+                <div className="text-text-faded text-xs dark:text-gray-400">
+                  {watch.lastCheckedAt ? `上次检查：${new Date(watch.lastCheckedAt).toLocaleString()}` : '尚未检查'}
+                </div>
+                {watch.lastError && <div className="text-background-clay text-xs">检查失败：{watch.lastError}</div>}
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <button
+                  onClick={() => handleCheckNow(watch.id)}
+                  disabled={checkingId !== null}
+                  className="text-text-faded hover:text-text-main text-xs disabled:opacity-50"
+                  title="立即检查">
+                  {checkingId === watch.id ? '⏳' : '🔄'}
+                </button>
+                {watch.previousSnapshot !== undefined && (
+                  <button
+                    onClick={() => handleToggleDiff(watch)}
+                    className="text-text-faded hover:text-text-main text-xs"
+                    title="查看变化">
+                    📊
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(watch.id)}
+                  className="text-text-faded hover:text-background-clay text-xs">
+                  🗑️
+                </button>
+                <input
+                  type="checkbox"
+                  checked={watch.enabled}
+                  onChange={e => pageWatchStorage.updateWatch(watch.id, { enabled: e.target.checked })}
+                  className="rounded"
+                />
+              </div>
+            </div>
+            <select
+              value={watch.intervalMinutes}
+              onChange={e => pageWatchStorage.updateWatch(watch.id, { intervalMinutes: Number(e.target.value) })}
+              className="border-border-default dark:bg-background-dark mt-1 rounded border px-1 py-0.5 text-xs dark:border-gray-600">
+              {INTERVAL_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {expandedId === watch.id && <DiffView watch={watch} />}
+          </div>
+        ))}
+        {watches.length === 0 && <div className="text-text-faded text-xs dark:text-gray-400">暂无页面监控</div>}
+      </div>
+    </div>
+  );
+};
@@ -126,6 +126,7 @@ export const SitePresetsPanel = ({ onClose }: SitePresetsPanelProps) => {
         selectors: newPreset.selectors!.filter(s => s),
         priority: newPreset.priority || 10,
         enabled: newPreset.enabled ?? true,
+        nextPageSelector: newPreset.nextPageSelector?.trim() || undefined,
       });
 
       setIsAddingPreset(false);
@@ -420,6 +421,21 @@ export const SitePresetsPanel = ({ onClose }: SitePresetsPanelProps) => {
                             </button>
                           </div>
 
+                          <div>
+                            <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">
+                              下一页链接选择器（可选）
+                            </label>
+                            <input
+                              type="text"
+                              placeholder="留空时自动识别分页链接"
+                              value={getBuiltInPresetValue(preset, 'nextPageSelector') || ''}
+                              onChange={e =>
+                                handleUpdateBuiltInPreset(preset.id, 'nextPageSelector', e.target.value || undefined)
+                              }
+                              className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+                            />
+                          </div>
+
                           <div>
                             <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">优先级</label>
                             <input
@@ -462,6 +478,14 @@ export const SitePresetsPanel = ({ onClose }: SitePresetsPanelProps) => {
                               {getBuiltInPresetValue(preset, 'selectors').join(', ')}
                             </div>
                           </div>
+                          {getBuiltInPresetValue(preset, 'nextPageSelector') && (
+                            <div>
+                              <span className="text-text-faded text-xs dark:text-gray-400">下一页选择器：</span>
+                              <span className="text-text-main ml-1 text-xs dark:text-gray-200">
+                                {getBuiltInPresetValue(preset, 'nextPageSelector')}
+                              </span>
+                            </div>
+                          )}
                           <div>
                             <span className="text-text-faded text-xs dark:text-gray-400">优先级：</span>
                             <span className="text-text-main ml-1 text-xs dark:text-gray-200">
@@ -598,6 +622,19 @@ export const SitePresetsPanel = ({ onClose }: SitePresetsPanelProps) => {
                 </button>
               </div>
 
+              <div className="mb-2">
+                <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">
+                  下一页链接选择器（可选）
+                </label>
+                <input
+                  type="text"
+                  placeholder="留空时自动识别分页链接"
+                  value={newPreset.nextPageSelector || ''}
+                  onChange={e => setNewPreset({ ...newPreset, nextPageSelector: e.target.value })}
+                  className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+                />
+              </div>
+
               <div className="mb-2">
                 <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">优先级</label>
                 <input
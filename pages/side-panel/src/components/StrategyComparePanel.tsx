@@ -0,0 +1,63 @@
+import type { SmartSelectStrategy, StrategyCandidate } from '@extension/shared';
+
+interface StrategyComparePanelProps {
+  candidates: StrategyCandidate[];
+  onUse: (strategy: SmartSelectStrategy) => void;
+  onClose: () => void;
+}
+
+const STRATEGY_NAMES: Record<SmartSelectStrategy, string> = {
+  heuristic: '内容评分',
+  readability: 'Readability',
+};
+
+export const StrategyComparePanel = ({ candidates, onUse, onClose }: StrategyComparePanelProps) => {
+  const isSameElement = candidates.length === 2 && candidates[0].domPath === candidates[1].domPath;
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">智能选择策略对比</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      {isSameElement && (
+        <div className="bg-swatch-cactus/20 text-swatch-cactus mb-2 rounded p-2 text-xs dark:bg-green-900/20 dark:text-green-300">
+          ✅ 两种策略选中了同一个元素
+        </div>
+      )}
+
+      {candidates.length === 0 ? (
+        <div className="text-text-faded text-xs dark:text-gray-400">两种策略都没有找到正文内容</div>
+      ) : (
+        <div className="space-y-2">
+          {candidates.map(candidate => (
+            <div key={candidate.strategy} className="bg-background-ivory-medium dark:bg-background-dark rounded p-2">
+              <div className="mb-1 flex items-center justify-between">
+                <span className="text-text-main text-sm font-medium dark:text-gray-200">
+                  {STRATEGY_NAMES[candidate.strategy]}
+                </span>
+                <button
+                  onClick={() => onUse(candidate.strategy)}
+                  className="bg-primary hover:bg-background-clay rounded px-2 py-0.5 text-xs text-white">
+                  使用
+                </button>
+              </div>
+              <div className="text-text-faded mb-1 break-all font-mono text-xs dark:text-gray-400">
+                {candidate.domPath}
+              </div>
+              <div className="text-text-faded mb-1 text-xs dark:text-gray-400">
+                &lt;{candidate.tagName}&gt; · {candidate.textLength} 字
+              </div>
+              <div className="text-text-main line-clamp-3 text-xs dark:text-gray-300">{candidate.preview}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import { useStorage } from '@extension/shared';
+import { copyFormatStorage, DEFAULT_TAB_LIST_OPTIONS } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { TabListOptions, TabListScope, TabListStyle } from '@extension/storage';
+
+interface TabListCopyPanelProps {
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { value: TabListScope; label: string }[] = [
+  { value: 'window', label: '当前窗口全部标签页' },
+  { value: 'highlighted', label: '选中的标签页' },
+  { value: 'group', label: '标签页分组' },
+];
+
+const STYLE_OPTIONS: { value: TabListStyle; label: string }[] = [
+  { value: 'markdown', label: 'Markdown 列表' },
+  { value: 'numbered', label: '编号列表' },
+  { value: 'html', label: 'HTML 列表' },
+  { value: 'csv', label: 'CSV' },
+];
+
+export const TabListCopyPanel = ({ onClose }: TabListCopyPanelProps) => {
+  const { settings } = useStorage(copyFormatStorage);
+  const options: TabListOptions = { ...DEFAULT_TAB_LIST_OPTIONS, ...settings.tabList };
+  const [groups, setGroups] = useState<chrome.tabGroups.TabGroup[]>([]);
+  const [groupId, setGroupId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState('');
+
+  useEffect(() => {
+    // 读取当前窗口的标签页分组，默认选中当前标签页所在的分组
+    const loadGroups = async () => {
+      try {
+        const currentWindow = await chrome.windows.getCurrent();
+        const windowGroups = await chrome.tabGroups.query({ windowId: currentWindow.id });
+        const [activeTab] = await chrome.tabs.query({ active: true, windowId: currentWindow.id });
+        setGroups(windowGroups);
+        setGroupId(
+          windowGroups.some(group => group.id === activeTab?.groupId)
+            ? activeTab.groupId
+            : (windowGroups[0]?.id ?? null),
+        );
+      } catch (error) {
+        console.error('获取标签页分组失败:', error);
+      }
+    };
+
+    loadGroups();
+  }, []);
+
+  const handleUpdate = async (updates: Partial<TabListOptions>) => {
+    try {
+      await copyFormatStorage.updateTabListOptions(updates);
+    } catch (error) {
+      console.error('保存标签页列表设置失败:', error);
+    }
+  };
+
+  const handleCopy = async () => {
+    setFeedback('');
+    try {
+      const currentWindow = await chrome.windows.getCurrent();
+      const response = await chrome.runtime.sendMessage({
+        action: 'copyTabList',
+        windowId: currentWindow.id,
+        groupId: options.scope === 'group' ? (groupId ?? undefined) : undefined,
+      });
+      setFeedback(response?.success ? `✅ 已复制 ${response.count} 个标签页` : `❌ ${response?.error || '复制失败'}`);
+    } catch (error) {
+      console.error('复制标签页列表失败:', error);
+      setFeedback('❌ 复制失败');
+    }
+  };
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">复制标签页列表</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <select
+          value={options.scope}
+          onChange={e => handleUpdate({ scope: e.target.value as TabListScope })}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          {SCOPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {options.scope === 'group' && (
+          <select
+            value={groupId ?? ''}
+            onChange={e => setGroupId(Number(e.target.value))}
+            disabled={groups.length === 0}
+            className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+            {groups.length === 0 && <option value="">当前窗口没有分组</option>}
+            {groups.map(group => (
+              <option key={group.id} value={group.id}>
+                {group.title || `未命名分组（${group.color}）`}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={options.style}
+          onChange={e => handleUpdate({ style: e.target.value as TabListStyle })}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          {STYLE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mb-2 space-y-1">
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={options.dedupe} onChange={e => handleUpdate({ dedupe: e.target.checked })} />
+          <span className="text-text-main dark:text-gray-200">按网址去重</span>
+        </label>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={options.skipInternal}
+            onChange={e => handleUpdate({ skipInternal: e.target.checked })}
+          />
+          <span className="text-text-main dark:text-gray-200">跳过 chrome:// 等浏览器内部页面</span>
+        </label>
+      </div>
+
+      <div className="text-text-faded mb-2 text-xs dark:text-gray-400">
+        每个标签页按上方选中的复制格式渲染；快捷键使用当前标签页所在的分组
+      </div>
+
+      <button
+        onClick={handleCopy}
+        disabled={options.scope === 'group' && groupId === null}
+        className="bg-primary hover:bg-background-clay w-full rounded px-3 py-1 text-sm text-white disabled:bg-gray-400">
+        📑 复制列表
+      </button>
+
+      {feedback && <div className="text-text-main mt-2 text-xs dark:text-gray-300">{feedback}</div>}
+    </div>
+  );
+};
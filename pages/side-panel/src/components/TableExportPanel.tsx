@@ -0,0 +1,102 @@
+import { copyRichText } from '../utils/clipboard';
+import { downloadTextFile } from '../utils/markdown-download';
+import { formatTable, tableToTSV } from '@extension/shared';
+import { useState } from 'react';
+import type { TableData, TableExportFormat } from '@extension/shared';
+
+const FORMAT_OPTIONS: { value: TableExportFormat; label: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { value: 'tsv', label: 'TSV', mimeType: 'text/tab-separated-values' },
+  { value: 'json', label: 'JSON', mimeType: 'application/json' },
+];
+
+// 从当前标签页中选中的元素提取表格
+const requestTable = async (cleanNumbers: boolean): Promise<TableData | null> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  const response = await chrome.tabs.sendMessage(tab.id!, { action: 'extractTable', cleanNumbers });
+  return response?.success ? response.table : null;
+};
+
+export const TableExportPanel = () => {
+  const [format, setFormat] = useState<TableExportFormat>('csv');
+  const [cleanNumbers, setCleanNumbers] = useState(true);
+  const [feedback, setFeedback] = useState('');
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 2000);
+  };
+
+  const handleDownload = async () => {
+    try {
+      const table = await requestTable(cleanNumbers);
+      if (!table) {
+        showFeedback('未找到表格');
+        return;
+      }
+
+      const option = FORMAT_OPTIONS.find(item => item.value === format)!;
+      // CSV 加 BOM，Excel 打开时才能正确识别 UTF-8
+      const content = format === 'csv' ? `\uFEFF${formatTable(table, format)}` : formatTable(table, format);
+      await downloadTextFile(content, `table-${Date.now()}.${format}`, option.mimeType);
+    } catch (error) {
+      console.error('导出表格失败:', error);
+    }
+  };
+
+  const handleCopyTSV = async () => {
+    try {
+      const table = await requestTable(cleanNumbers);
+      if (!table) {
+        showFeedback('未找到表格');
+        return;
+      }
+
+      await copyRichText(tableToTSV(table));
+      showFeedback(`已复制 ${table.rows.length} 行`);
+    } catch (error) {
+      console.error('复制表格失败:', error);
+    }
+  };
+
+  return (
+    <div className="border-border-default mb-4 rounded border p-3 dark:border-gray-600">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium">表格</h3>
+        {feedback && <span className="text-text-faded text-xs dark:text-gray-400">{feedback}</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as TableExportFormat)}
+          className="border-border-default dark:bg-background-dark rounded border px-2 py-1 text-xs dark:border-gray-600">
+          {FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label className="text-text-faded flex items-center gap-1 text-xs dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={cleanNumbers}
+            onChange={e => setCleanNumbers(e.target.checked)}
+            className="rounded"
+          />
+          清理数字格式
+        </label>
+        <button
+          onClick={handleDownload}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+          📥 导出
+        </button>
+        <button
+          onClick={handleCopyTSV}
+          className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          title="粘贴到表格软件时保持行列">
+          📋 复制为 TSV
+        </button>
+      </div>
+    </div>
+  );
+};
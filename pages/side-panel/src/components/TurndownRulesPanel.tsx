@@ -0,0 +1,297 @@
+import { BUILT_IN_TURNDOWN_RULES } from '@extension/shared';
+import { turndownRulesStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { CustomTurndownRule, CustomTurndownRuleAction, TurndownRulesSettings } from '@extension/storage';
+
+interface TurndownRulesPanelProps {
+  onClose: () => void;
+}
+
+type RuleDraft = Omit<CustomTurndownRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+const ACTION_OPTIONS: { value: CustomTurndownRuleAction; label: string }[] = [
+  { value: 'remove', label: '移除节点' },
+  { value: 'unwrap', label: '仅保留内容' },
+  { value: 'template', label: '模板替换' },
+];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  patterns: [''],
+  selector: '',
+  action: 'remove',
+  template: '',
+  enabled: true,
+};
+
+export const TurndownRulesPanel = ({ onClose }: TurndownRulesPanelProps) => {
+  const [settings, setSettings] = useState<TurndownRulesSettings>({
+    customRules: [],
+    disabledBuiltInRules: [],
+  });
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const currentSettings = await turndownRulesStorage.getSettings();
+      setSettings(currentSettings);
+    } catch (error) {
+      console.error('加载转换规则失败:', error);
+    }
+  };
+
+  const handleToggleBuiltInRule = async (id: string, enabled: boolean) => {
+    try {
+      await turndownRulesStorage.toggleBuiltInRule(id, enabled);
+      await loadSettings();
+    } catch (error) {
+      console.error('切换内置规则失败:', error);
+    }
+  };
+
+  const handleToggleCustomRule = async (id: string, enabled: boolean) => {
+    try {
+      await turndownRulesStorage.updateRule(id, { enabled });
+      await loadSettings();
+    } catch (error) {
+      console.error('切换自定义规则失败:', error);
+    }
+  };
+
+  const startAdd = () => {
+    setEditingRuleId(null);
+    setDraft({ ...EMPTY_DRAFT, patterns: [''] });
+  };
+
+  const startEdit = (rule: CustomTurndownRule) => {
+    setEditingRuleId(rule.id);
+    setDraft({
+      name: rule.name,
+      patterns: rule.patterns.length > 0 ? rule.patterns : [''],
+      selector: rule.selector,
+      action: rule.action,
+      template: rule.template || '',
+      enabled: rule.enabled,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingRuleId(null);
+    setDraft(null);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name || !draft.selector) {
+      alert('请填写规则名称和CSS选择器');
+      return;
+    }
+
+    try {
+      document.createDocumentFragment().querySelector(draft.selector);
+    } catch {
+      alert('无效的CSS选择器');
+      return;
+    }
+
+    const rule: RuleDraft = { ...draft, patterns: draft.patterns.map(p => p.trim()).filter(Boolean) };
+
+    try {
+      if (editingRuleId) {
+        await turndownRulesStorage.updateRule(editingRuleId, rule);
+      } else {
+        await turndownRulesStorage.addRule(rule);
+      }
+      cancelEdit();
+      await loadSettings();
+    } catch (error) {
+      console.error('保存转换规则失败:', error);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (confirm('确定要删除这条规则吗？')) {
+      try {
+        await turndownRulesStorage.deleteRule(id);
+        await loadSettings();
+      } catch (error) {
+        console.error('删除转换规则失败:', error);
+      }
+    }
+  };
+
+  const renderDraftEditor = () =>
+    draft && (
+      <div className="bg-background-ivory-medium dark:bg-background-dark space-y-2 rounded p-2">
+        <input
+          type="text"
+          value={draft.name}
+          placeholder="规则名称"
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600"
+        />
+        <div>
+          <span className="text-text-faded mb-1 block text-xs dark:text-gray-400">URL模式（留空表示所有网站）</span>
+          {draft.patterns.map((pattern, index) => (
+            <div key={index} className="mb-1 flex gap-1">
+              <input
+                type="text"
+                value={pattern}
+                placeholder="example.com/post"
+                onChange={e =>
+                  setDraft({ ...draft, patterns: draft.patterns.map((p, i) => (i === index ? e.target.value : p)) })
+                }
+                className="border-border-default dark:bg-background-dark flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+              />
+              {draft.patterns.length > 1 && (
+                <button
+                  onClick={() => setDraft({ ...draft, patterns: draft.patterns.filter((_, i) => i !== index) })}
+                  className="text-text-faded hover:text-background-clay text-xs">
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft({ ...draft, patterns: [...draft.patterns, ''] })}
+            className="text-swatch-cactus hover:text-swatch-olive text-xs">
+            + 添加模式
+          </button>
+        </div>
+        <input
+          type="text"
+          value={draft.selector}
+          placeholder="节点CSS选择器，如 .ad-banner"
+          onChange={e => setDraft({ ...draft, selector: e.target.value })}
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+        />
+        <select
+          value={draft.action}
+          onChange={e => setDraft({ ...draft, action: e.target.value as CustomTurndownRuleAction })}
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 text-xs dark:border-gray-600">
+          {ACTION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {draft.action === 'template' && (
+          <input
+            type="text"
+            value={draft.template}
+            placeholder="可用变量：{content} {text} {attr:名称}"
+            onChange={e => setDraft({ ...draft, template: e.target.value })}
+            className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+          />
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSaveDraft}
+            className="bg-primary hover:bg-background-clay flex-1 rounded px-2 py-1 text-xs text-white">
+            保存
+          </button>
+          <button
+            onClick={cancelEdit}
+            className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light flex-1 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+            取消
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">站点转换规则</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {/* 内置规则 */}
+        <div>
+          <h5 className="text-text-faded mb-2 text-xs font-medium dark:text-gray-400">内置规则</h5>
+          <div className="space-y-1">
+            {BUILT_IN_TURNDOWN_RULES.map(rule => (
+              <div
+                key={rule.id}
+                className="bg-background-ivory-medium dark:bg-background-dark flex items-center justify-between rounded p-2">
+                <div>
+                  <div className="text-text-main text-sm dark:text-gray-200">{rule.name}</div>
+                  <div className="text-text-faded text-xs dark:text-gray-400">{rule.patterns.join(', ')}</div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={!settings.disabledBuiltInRules.includes(rule.id)}
+                  onChange={e => handleToggleBuiltInRule(rule.id, e.target.checked)}
+                  className="rounded"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* 自定义规则 */}
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <h5 className="text-text-faded text-xs font-medium dark:text-gray-400">自定义规则</h5>
+            {!draft && (
+              <button onClick={startAdd} className="text-swatch-cactus hover:text-swatch-olive text-xs">
+                + 添加规则
+              </button>
+            )}
+          </div>
+          <div className="space-y-1">
+            {settings.customRules.map(rule =>
+              editingRuleId === rule.id ? (
+                <div key={rule.id}>{renderDraftEditor()}</div>
+              ) : (
+                <div
+                  key={rule.id}
+                  className="bg-background-ivory-medium dark:bg-background-dark flex items-center justify-between rounded p-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-text-main text-sm dark:text-gray-200">{rule.name}</div>
+                    <div className="text-text-faded truncate font-mono text-xs dark:text-gray-400">
+                      {rule.selector} → {ACTION_OPTIONS.find(option => option.value === rule.action)?.label}
+                    </div>
+                    <div className="text-text-faded truncate text-xs dark:text-gray-400">
+                      {rule.patterns.length > 0 ? rule.patterns.join(', ') : '所有网站'}
+                    </div>
+                  </div>
+                  <div className="flex flex-shrink-0 items-center gap-2">
+                    <button onClick={() => startEdit(rule)} className="text-text-faded hover:text-text-main text-xs">
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => handleDeleteRule(rule.id)}
+                      className="text-text-faded hover:text-background-clay text-xs">
+                      🗑️
+                    </button>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={e => handleToggleCustomRule(rule.id, e.target.checked)}
+                      className="rounded"
+                    />
+                  </div>
+                </div>
+              ),
+            )}
+            {draft && !editingRuleId && renderDraftEditor()}
+            {settings.customRules.length === 0 && !draft && (
+              <div className="text-text-faded text-xs dark:text-gray-400">暂无自定义规则</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
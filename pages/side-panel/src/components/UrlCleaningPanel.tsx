@@ -0,0 +1,205 @@
+import { BUILTIN_URL_CLEANING_RULES, cleanUrl, useStorage } from '@extension/shared';
+import { urlCleaningStorage } from '@extension/storage';
+import { useState } from 'react';
+import type { UrlCleaningMode, UrlCleaningSettings } from '@extension/storage';
+
+interface UrlCleaningPanelProps {
+  currentUrl: string;
+  onClose: () => void;
+}
+
+const TOGGLE_OPTIONS: {
+  key: 'enabled' | 'preferCanonical' | 'cleanFrontmatterUrl';
+  label: string;
+  description: string;
+}[] = [
+  { key: 'enabled', label: '复制时清理网址', description: '复制标题、标签页列表时去掉跟踪参数' },
+  { key: 'preferCanonical', label: '优先使用规范链接', description: '页面声明了 <link rel="canonical"> 时使用它' },
+  { key: 'cleanFrontmatterUrl', label: '清理捕获的来源网址', description: '同样处理 frontmatter 中的 source' },
+];
+
+const BUILTIN_RULE_NAMES: Record<string, string> = {
+  bilibili: '哔哩哔哩',
+  taobao: '淘宝商品页',
+  tmall: '天猫商品页',
+  wechat: '微信公众号',
+  zhihu: '知乎',
+};
+
+// 逗号或空白分隔的参数名
+const parseParams = (value: string): string[] =>
+  value
+    .split(/[\s,，]+/)
+    .map(param => param.trim())
+    .filter(Boolean);
+
+export const UrlCleaningPanel = ({ currentUrl, onClose }: UrlCleaningPanelProps) => {
+  const { settings } = useStorage(urlCleaningStorage);
+  const [globalParamsInput, setGlobalParamsInput] = useState(settings.globalParams.join(', '));
+  const [newRule, setNewRule] = useState<{ hostname: string; mode: UrlCleaningMode; params: string }>({
+    hostname: '',
+    mode: 'remove',
+    params: '',
+  });
+
+  const handleUpdate = async (updates: Partial<UrlCleaningSettings>) => {
+    try {
+      await urlCleaningStorage.updateSettings(updates);
+    } catch (error) {
+      console.error('保存网址清理设置失败:', error);
+    }
+  };
+
+  const handleAddRule = async () => {
+    const params = parseParams(newRule.params);
+    if (!newRule.hostname.trim() || params.length === 0) return;
+
+    try {
+      await urlCleaningStorage.addRule({
+        hostname: newRule.hostname.trim(),
+        mode: newRule.mode,
+        params,
+        enabled: true,
+      });
+      setNewRule({ hostname: '', mode: 'remove', params: '' });
+    } catch (error) {
+      console.error('添加网址清理规则失败:', error);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await urlCleaningStorage.deleteRule(id);
+    } catch (error) {
+      console.error('删除网址清理规则失败:', error);
+    }
+  };
+
+  const cleanedUrl = currentUrl ? cleanUrl(currentUrl, settings) : '';
+
+  return (
+    <div className="border-border-default bg-background-main mb-3 rounded border p-3 dark:border-gray-600 dark:bg-gray-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium">网址清理</h4>
+        <button
+          onClick={onClose}
+          className="bg-background-ivory-medium text-text-faded hover:bg-swatch-cloud-light rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="mb-3 space-y-1">
+        {TOGGLE_OPTIONS.map(option => (
+          <label key={option.key} className="flex items-start gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={settings[option.key]}
+              onChange={e => handleUpdate({ [option.key]: e.target.checked })}
+              className="mt-0.5"
+            />
+            <span>
+              <span className="text-text-main dark:text-gray-200">{option.label}</span>
+              <span className="text-text-faded ml-1 dark:text-gray-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {/* 全局参数 */}
+      <div className="mb-3">
+        <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">
+          所有网站额外去掉的参数（utm_*、fbclid、spm 等已内置，* 表示前缀匹配）
+        </label>
+        <input
+          type="text"
+          value={globalParamsInput}
+          onChange={e => setGlobalParamsInput(e.target.value)}
+          onBlur={() => handleUpdate({ globalParams: parseParams(globalParamsInput) })}
+          placeholder="ref, source, from_*"
+          className="border-border-default dark:bg-background-dark w-full rounded border px-2 py-1 font-mono text-xs dark:border-gray-600"
+        />
+      </div>
+
+      {/* 站点规则 */}
+      <div className="mb-3">
+        <label className="text-text-faded mb-1 block text-xs dark:text-gray-400">站点规则（同时匹配子域名）</label>
+        <div className="space-y-1">
+          {BUILTIN_URL_CLEANING_RULES.map(rule => (
+            <label
+              key={rule.id}
+              className="bg-background-ivory-medium dark:bg-background-dark flex items-center gap-2 rounded px-2 py-1 text-xs">
+              <input
+                type="checkbox"
+                checked={!settings.disabledBuiltinRules.includes(rule.id)}
+                onChange={e => urlCleaningStorage.toggleBuiltinRule(rule.id, e.target.checked)}
+              />
+              <span className="text-text-main flex-shrink-0 dark:text-gray-200">
+                {BUILTIN_RULE_NAMES[rule.id] || rule.hostname}
+              </span>
+              <span className="text-text-faded truncate dark:text-gray-400" title={rule.params.join(', ')}>
+                {rule.mode === 'keep' ? '只保留' : '去掉'} {rule.params.join(', ')}
+              </span>
+            </label>
+          ))}
+          {settings.rules.map(rule => (
+            <div
+              key={rule.id}
+              className="bg-background-ivory-medium dark:bg-background-dark flex items-center gap-2 rounded px-2 py-1 text-xs">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={e => urlCleaningStorage.updateRule(rule.id, { enabled: e.target.checked })}
+              />
+              <span className="text-text-main flex-shrink-0 dark:text-gray-200">{rule.hostname}</span>
+              <span
+                className="text-text-faded min-w-0 flex-1 truncate dark:text-gray-400"
+                title={rule.params.join(', ')}>
+                {rule.mode === 'keep' ? '只保留' : '去掉'} {rule.params.join(', ')}
+              </span>
+              <button
+                onClick={() => handleDeleteRule(rule.id)}
+                className="text-text-faded hover:text-background-clay flex-shrink-0">
+                🗑️
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-1 flex items-center gap-1">
+          <input
+            type="text"
+            value={newRule.hostname}
+            onChange={e => setNewRule({ ...newRule, hostname: e.target.value })}
+            placeholder="example.com"
+            className="border-border-default dark:bg-background-dark w-0 flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+          />
+          <select
+            value={newRule.mode}
+            onChange={e => setNewRule({ ...newRule, mode: e.target.value as UrlCleaningMode })}
+            className="border-border-default dark:bg-background-dark rounded border px-1 py-1 text-xs dark:border-gray-600">
+            <option value="remove">去掉</option>
+            <option value="keep">只保留</option>
+          </select>
+          <input
+            type="text"
+            value={newRule.params}
+            onChange={e => setNewRule({ ...newRule, params: e.target.value })}
+            placeholder="from, share_*"
+            className="border-border-default dark:bg-background-dark w-0 flex-1 rounded border px-2 py-1 text-xs dark:border-gray-600"
+          />
+          <button
+            onClick={handleAddRule}
+            className="bg-background-ivory-medium hover:bg-swatch-cloud-light text-text-main flex-shrink-0 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+            添加
+          </button>
+        </div>
+      </div>
+
+      {/* 当前页面的清理结果 */}
+      {cleanedUrl && (
+        <div className="text-text-faded break-all text-xs dark:text-gray-400">
+          当前页面：{cleanedUrl === currentUrl ? '没有需要去掉的参数' : cleanedUrl}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+/**
+ * 通过后台的离屏文档写入剪贴板，同时提供纯文本和 HTML，粘贴到文档编辑器时保留链接等格式。
+ * 后台不可用时退回到只写入纯文本。
+ */
+export const copyRichText = async (text: string, html?: string): Promise<void> => {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'writeClipboard', text, html });
+    if (response?.success) return;
+    console.error('富文本复制失败:', response?.error);
+  } catch (error) {
+    console.error('富文本复制失败:', error);
+  }
+
+  await navigator.clipboard.writeText(text);
+};
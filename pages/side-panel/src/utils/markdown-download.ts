@@ -0,0 +1,276 @@
+import { buildDownloadFilename, getExportConverter, parseFrontmatterField, sanitizePath } from '@extension/shared';
+import { downloadSettingsStorage } from '@extension/storage';
+import { strToU8, zipSync } from 'fflate';
+import type { DownloadFileContext, ExportDocument, ExportFormat } from '@extension/shared';
+import type { DownloadSettings } from '@extension/storage';
+import type { Zippable } from 'fflate';
+
+interface ImageReference {
+  url: string;
+  assetPath: string | null;
+}
+
+// 常见图片类型对应的扩展名
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+};
+
+const MARKDOWN_IMAGE_PATTERN = /!\[([^\]]*)\]\((\S+?)(\s+"[^"]*")?\)/g;
+const HTML_IMAGE_PATTERN = /(<img\b[^>]*?\ssrc=["'])([^"']+)(["'])/gi;
+
+const downloadWithChromeAPI = async (url: string, filename: string, settings: DownloadSettings) => {
+  // 根据设置决定下载行为
+  const downloadOptions: chrome.downloads.DownloadOptions = {
+    url,
+    filename: filename,
+    conflictAction: settings.conflictAction || 'uniquify',
+  };
+
+  // 严格根据用户设置决定是否显示保存对话框
+  if (settings.askForLocation) {
+    downloadOptions.saveAs = true;
+  } else {
+    // 用户明确不想询问位置，强制不显示对话框
+    downloadOptions.saveAs = false;
+
+    const defaultPath = sanitizePath(settings.defaultPath || '');
+    if (settings.useDefaultPath && defaultPath) {
+      // 使用默认路径（相对于Downloads）
+      downloadOptions.filename = `${defaultPath}/${filename}`;
+    } else {
+      // 直接下载到Downloads文件夹
+      downloadOptions.filename = filename;
+    }
+  }
+
+  // 使用 Chrome downloads API
+  const downloadId = await chrome.downloads.download(downloadOptions);
+
+  // 监听下载完成事件以更新最后使用的路径
+  const onDownloadChanged = (delta: chrome.downloads.DownloadDelta) => {
+    if (delta.id === downloadId && delta.state?.current === 'complete') {
+      chrome.downloads.search({ id: downloadId }, async results => {
+        if (results.length > 0) {
+          const downloadedFile = results[0];
+          if (downloadedFile.filename) {
+            // 提取目录路径
+            const pathParts = downloadedFile.filename.split(/[/\\]/);
+            pathParts.pop(); // 移除文件名
+            const directoryPath = pathParts.join('/') || 'Downloads';
+
+            if (directoryPath && directoryPath !== 'Downloads') {
+              await downloadSettingsStorage.setLastUsedPath(directoryPath);
+            }
+          }
+        }
+      });
+
+      // 移除监听器
+      chrome.downloads.onChanged.removeListener(onDownloadChanged);
+    }
+  };
+
+  chrome.downloads.onChanged.addListener(onDownloadChanged);
+};
+
+const fallbackDownload = (blob: Blob, filename: string) => {
+  try {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+
+    document.body.appendChild(a);
+    a.click();
+
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('回退下载失败:', error);
+  }
+};
+
+const resolveImageUrl = (url: string, baseUrl: string | null): string | null => {
+  try {
+    return new URL(url, baseUrl || undefined).href;
+  } catch {
+    return null;
+  }
+};
+
+const getImageExtension = (url: string, contentType: string | null): string => {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType && IMAGE_EXTENSIONS[mimeType]) {
+    return IMAGE_EXTENSIONS[mimeType];
+  }
+
+  // 根据URL路径推断扩展名
+  const pathMatch = url.match(/\.([a-z0-9]{2,4})(?:[?#]|$)/i);
+  return pathMatch ? pathMatch[1].toLowerCase() : 'png';
+};
+
+// 收集 markdown 中引用的全部图片地址（去重，保持出现顺序）
+const collectImageUrls = (markdown: string): string[] => {
+  const urls = new Set<string>();
+  for (const match of markdown.matchAll(MARKDOWN_IMAGE_PATTERN)) {
+    urls.add(match[2].replace(/^<|>$/g, ''));
+  }
+  for (const match of markdown.matchAll(HTML_IMAGE_PATTERN)) {
+    urls.add(match[2]);
+  }
+  return Array.from(urls);
+};
+
+const downloadZip = async (files: Zippable, filename: string) => {
+  const zipData = zipSync(files, { level: 6 });
+  const blob = new Blob([zipData], { type: 'application/zip' });
+
+  try {
+    const settings = await downloadSettingsStorage.getSettings();
+    const url = URL.createObjectURL(blob);
+    await downloadWithChromeAPI(url, filename, settings);
+    // 延迟释放，确保下载已开始读取数据
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch (error) {
+    console.error('打包下载失败:', error);
+    fallbackDownload(blob, filename);
+  }
+};
+
+// 从 markdown 的 frontmatter 中读取指定字段（支持 YAML 和 TOML）
+export const extractFrontmatterField = (markdown: string, field: string): string | null =>
+  parseFrontmatterField(markdown, field);
+
+// 按文件名模板和路由规则生成文档的保存路径
+const getDocumentFilename = async (context: DownloadFileContext, extension: string): Promise<string> => {
+  const settings = await downloadSettingsStorage.getSettings();
+  return buildDownloadFilename(settings, context, extension);
+};
+
+// 按下载设置保存文本文件
+export const downloadTextFile = async (content: string, filename: string, mimeType: string) => {
+  try {
+    // 获取下载设置
+    const settings = await downloadSettingsStorage.getSettings();
+
+    // 统一使用 Chrome downloads API
+    const dataUrl = `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`;
+    await downloadWithChromeAPI(dataUrl, filename, settings);
+  } catch (error) {
+    console.error('下载失败:', error);
+    // 最终回退方案
+    fallbackDownload(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+  }
+};
+
+// 按下载设置保存 markdown 文件，文件名按模板由捕获时的标题、slug 等信息生成
+export const downloadMarkdown = async (markdown: string, context: DownloadFileContext) => {
+  if (!markdown) return;
+
+  await downloadTextFile(markdown, await getDocumentFilename(context, 'md'), 'text/markdown');
+};
+
+// 根据捕获结果构建导出文档
+export const buildExportDocument = (markdown: string, html: string, context: DownloadFileContext): ExportDocument => ({
+  title: context.title || context.slug,
+  url: context.url,
+  slug: context.slug,
+  capturedAt: (context.date || new Date()).toISOString(),
+  html,
+  markdown,
+});
+
+// 按指定格式导出并下载
+export const downloadExport = async (doc: ExportDocument, context: DownloadFileContext, format: ExportFormat) => {
+  const converter = getExportConverter(format);
+  const filename = await getDocumentFilename(context, converter.extension);
+  await downloadTextFile(converter.convert(doc), filename, converter.mimeType);
+};
+
+/**
+ * 下载图片并打包为 zip：markdown 中的图片链接改写为 `assets/` 下的相对路径。
+ * 下载失败的图片保留原始链接，返回图片总数与失败数。
+ */
+export const downloadMarkdownBundle = async (
+  markdown: string,
+  context: DownloadFileContext,
+): Promise<{ total: number; failed: number }> => {
+  if (!markdown) return { total: 0, failed: 0 };
+
+  const slug = context.slug || `content-${Date.now()}`;
+  const baseUrl = context.url;
+  const files: Zippable = {};
+  const references = new Map<string, ImageReference>();
+
+  const imageUrls = collectImageUrls(markdown);
+  await Promise.all(
+    imageUrls.map(async (url, index) => {
+      const absoluteUrl = url.startsWith('data:') ? url : resolveImageUrl(url, baseUrl);
+      const reference: ImageReference = { url, assetPath: null };
+      references.set(url, reference);
+      if (!absoluteUrl) return;
+
+      try {
+        const response = await fetch(absoluteUrl, { credentials: 'omit', referrerPolicy: 'no-referrer' });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = new Uint8Array(await response.arrayBuffer());
+        const extension = getImageExtension(absoluteUrl, response.headers.get('content-type'));
+        reference.assetPath = `assets/${slug}-${index + 1}.${extension}`;
+        // 图片已是压缩格式，直接存储
+        files[reference.assetPath] = [data, { level: 0 }];
+      } catch (error) {
+        console.error('图片下载失败:', absoluteUrl, error);
+      }
+    }),
+  );
+
+  const getLocalPath = (url: string) => references.get(url)?.assetPath || url;
+  const localizedMarkdown = markdown
+    .replace(MARKDOWN_IMAGE_PATTERN, (match, alt: string, url: string, title = '') => {
+      const localPath = references.get(url.replace(/^<|>$/g, ''))?.assetPath;
+      return localPath ? `![${alt}](${localPath}${title})` : match;
+    })
+    .replace(
+      HTML_IMAGE_PATTERN,
+      (_match, prefix: string, url: string, suffix: string) => prefix + getLocalPath(url) + suffix,
+    );
+
+  files[`${slug}.md`] = strToU8(localizedMarkdown);
+  await downloadZip(files, await getDocumentFilename(context, 'zip'));
+
+  const failed = Array.from(references.values()).filter(reference => !reference.assetPath).length;
+  return { total: imageUrls.length, failed };
+};
+
+/**
+ * 多篇 markdown 打包为一个 zip，包内路径按文件名模板和路由规则生成，重名时加序号。
+ */
+export const downloadMarkdownArchive = async (
+  documents: { markdown: string; context: DownloadFileContext }[],
+  filename: string,
+) => {
+  if (documents.length === 0) return;
+
+  const settings = await downloadSettingsStorage.getSettings();
+  const files: Zippable = {};
+  documents.forEach(({ markdown, context }) => {
+    const path = buildDownloadFilename(settings, context, 'md').replace(/\.md$/, '');
+    let name = `${path}.md`;
+    for (let index = 2; files[name]; index++) {
+      name = `${path}-${index}.md`;
+    }
+    files[name] = strToU8(markdown);
+  });
+
+  await downloadZip(files, filename);
+};